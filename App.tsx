@@ -6,9 +6,13 @@ import Settings from './components/Settings';
 import Login from './components/Login';
 import Chat from './components/Chat';
 import FloatingTools from './components/FloatingTools';
-import { UserSettings, ClassLevel, QuizResult, Bookmark } from './types';
+import TranslateMenu from './components/TranslateMenu';
+import RichText from './components/RichText';
+import { UserSettings, QuizResult, Bookmark } from './types';
 import { db } from './services/db';
-import { BookOpen, HelpCircle, PenTool, MessageCircle, Bookmark as BookmarkIcon, Trash, Loader2, Library, CheckSquare, Book, Settings as SettingsIcon, User, Search } from 'lucide-react';
+import { SignUpDetails } from './services/storageAdapter';
+import { copyAsPlainText } from './services/richText';
+import { BookOpen, HelpCircle, PenTool, MessageCircle, Bookmark as BookmarkIcon, Trash, Loader2, Library, CheckSquare, Book, Settings as SettingsIcon, User, Search, Copy } from 'lucide-react';
 
 type View = 'study' | 'quiz' | 'project' | 'chat' | 'bookmarks';
 type LibraryTab = 'saved' | 'todo' | 'diary' | 'settings';
@@ -25,7 +29,8 @@ const App: React.FC = () => {
     classLevel: '10', 
     isAuthenticated: false,
     quizHistory: [],
-    bookmarks: []
+    bookmarks: [],
+    language: 'English'
   });
 
   useEffect(() => {
@@ -51,13 +56,26 @@ const App: React.FC = () => {
     const updated = { ...settings, ...newSettings };
     setSettings(updated);
     if (updated.isAuthenticated) {
-        await db.updateProfile(updated);
+        try {
+            await db.updateProfile(updated);
+        } catch (err) {
+            console.error("Profile save failed", err);
+            alert("⚠️ Your changes couldn't be saved. Please check your connection and try again.");
+        }
     }
   };
 
-  const handleLogin = async (name: string, email: string, username: string, classLevel: ClassLevel) => {
-    const user = await db.login(name, email, username, classLevel);
-    setSettings(user);
+  // --- Auth --- (errors propagate to Login, which shows them)
+  const handleSignUp = async (details: SignUpDetails) => {
+    setSettings(await db.signUp(details));
+  };
+
+  const handleSignIn = async (identifier: string, password: string) => {
+    setSettings(await db.signIn(identifier, password));
+  };
+
+  const handleResetPassword = async (email: string, code: string, newPassword: string) => {
+    setSettings(await db.resetPassword(email, code, newPassword));
   };
 
   const handleLogout = async () => {
@@ -93,7 +111,12 @@ const App: React.FC = () => {
   if (!settings.isAuthenticated) {
     return (
         <div className="w-full h-full md:h-[850px] md:max-w-[420px] md:rounded-[3rem] bg-white dark:bg-gray-900 shadow-2xl flex flex-col overflow-hidden relative border-[8px] border-gray-900 dark:border-gray-800 mx-auto">
-            <Login onLogin={handleLogin} />
+            <Login
+                onSignUp={handleSignUp}
+                onSignIn={handleSignIn}
+                onRequestReset={email => db.requestPasswordReset(email)}
+                onResetPassword={handleResetPassword}
+            />
         </div>
     );
   }
@@ -122,17 +145,17 @@ const App: React.FC = () => {
         
         {/* VIEW: STUDY */}
         <div className={view === 'study' ? 'block animate-fade-in h-full' : 'hidden'}>
-           <StudyBuddy classLevel={settings.classLevel} onBookmark={handleBookmark} />
+           <StudyBuddy classLevel={settings.classLevel} username={settings.username} language={settings.language} onBookmark={handleBookmark} />
         </div>
 
         {/* VIEW: QUIZ */}
         <div className={view === 'quiz' ? 'block animate-fade-in h-full' : 'hidden'}>
-           <QuizMaker classLevel={settings.classLevel} onQuizComplete={handleQuizComplete} history={settings.quizHistory} onBookmark={handleBookmark} />
+           <QuizMaker classLevel={settings.classLevel} username={settings.username} onQuizComplete={handleQuizComplete} history={settings.quizHistory} onBookmark={handleBookmark} language={settings.language} />
         </div>
 
         {/* VIEW: PROJECT */}
         <div className={view === 'project' ? 'block animate-fade-in h-full' : 'hidden'}>
-           <ProjectHelper classLevel={settings.classLevel} onBookmark={handleBookmark} />
+           <ProjectHelper classLevel={settings.classLevel} onBookmark={handleBookmark} language={settings.language} />
         </div>
         
         {/* VIEW: CHAT */}
@@ -195,10 +218,20 @@ const App: React.FC = () => {
                                             </div>
                                             <button onClick={() => deleteBookmark(b.id)} className="text-gray-300 hover:text-red-500 p-2 hover:bg-red-50 dark:hover:bg-red-900/20 rounded-xl transition-colors"><Trash className="w-4 h-4"/></button>
                                         </div>
+                                        {b.image && <img src={b.image} alt={b.title} className="w-full max-h-40 object-contain rounded-2xl mb-3 bg-gray-50 dark:bg-gray-900/50" />}
                                         <div className="p-4 bg-gray-50 dark:bg-gray-900/50 rounded-2xl max-h-32 overflow-hidden relative">
-                                            <p className="font-serif text-sm text-gray-600 dark:text-gray-400 leading-relaxed line-clamp-3">{b.content}</p>
+                                            <RichText text={b.content} className="font-serif text-sm text-gray-600 dark:text-gray-400 leading-relaxed line-clamp-3" />
                                             <div className="absolute inset-x-0 bottom-0 h-16 bg-gradient-to-t from-gray-50 dark:from-gray-900 to-transparent"></div>
                                         </div>
+                                        <div className="mt-3 flex flex-wrap justify-end gap-2">
+                                            <TranslateMenu username={settings.username} text={b.content} classLevel={settings.classLevel} subject={b.subject} />
+                                            <button
+                                                onClick={() => copyAsPlainText(b.content).then(() => alert('Copied!')).catch(() => alert('Could not copy. Please try again.'))}
+                                                className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 text-xs font-bold text-gray-600 dark:text-gray-400 transition-colors"
+                                            >
+                                                <Copy className="w-3.5 h-3.5" /> Copy
+                                            </button>
+                                        </div>
                                     </div>
                                 ))
                             )}
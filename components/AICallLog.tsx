@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { ai } from '../services/ai';
+import { AITelemetryEvent, telemetryToCsv } from '../services/aiTelemetry';
+import { fetchProxyTelemetry, getAdminToken, setAdminToken, ProxyTelemetry } from '../services/proxyProvider';
+import { Download, RefreshCw, KeyRound } from 'lucide-react';
+
+const VISIBLE_EVENTS = 30;
+
+const OUTCOME_STYLES: Record<AITelemetryEvent['outcome'], string> = {
+  success: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300',
+  error: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300',
+  timeout: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300',
+  cancelled: 'bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400'
+};
+
+const download = (content: string, type: string, filename: string) => {
+  const fileDownload = document.createElement("a");
+  document.body.appendChild(fileDownload);
+  fileDownload.href = `data:${type};charset=utf-8,` + encodeURIComponent(content);
+  fileDownload.download = filename;
+  fileDownload.click();
+  document.body.removeChild(fileDownload);
+};
+
+// Per-call log from the proxy: which model answered, fallbacks, latency and tokens
+const AICallLog: React.FC = () => {
+  const [telemetry, setTelemetry] = useState<ProxyTelemetry | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [token, setToken] = useState(getAdminToken());
+
+  const load = async () => {
+    setLoading(true);
+    setTelemetry(await fetchProxyTelemetry());
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (ai.name === 'proxy' && getAdminToken()) load();
+  }, []);
+
+  const unlock = (e: React.FormEvent) => {
+    e.preventDefault();
+    setAdminToken(token.trim());
+    load();
+  };
+
+  if (ai.name !== 'proxy') {
+    return <p className="text-xs text-gray-500 font-medium">Offline mock provider active. No AI calls are logged.</p>;
+  }
+
+  // The log is an admin route: ask for the AI server's AI_ADMIN_TOKEN rather than sending it from the dev proxy
+  if (!telemetry) {
+    if (loading) return <p className="text-xs text-gray-500 font-medium">Loading call log...</p>;
+    return (
+      <form onSubmit={unlock} className="space-y-2">
+        <p className="text-xs text-gray-500 font-medium">
+          {getAdminToken() ? 'Call log unavailable. Check the token and that the AI server is running (npm run server).' : 'Enter the AI server\'s AI_ADMIN_TOKEN to see the call log.'}
+        </p>
+        <div className="flex gap-2">
+          <input type="password" value={token} onChange={e => setToken(e.target.value)} placeholder="Admin token" autoComplete="off"
+            className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-gray-50 dark:bg-gray-900 border border-gray-200 dark:border-gray-700 text-xs text-gray-800 dark:text-gray-100 outline-none focus:ring-2 focus:ring-indigo-500" />
+          <button type="submit" disabled={!token.trim()} className="flex items-center gap-1 px-3 rounded-xl bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700 disabled:opacity-50">
+            <KeyRound className="w-3 h-3" /> Unlock
+          </button>
+        </div>
+      </form>
+    );
+  }
+
+  const { events, summary } = telemetry;
+  const stamp = new Date().toISOString().slice(0, 10);
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-2 text-center">
+        {[
+          { label: 'Calls', value: summary.calls },
+          { label: 'Fell through', value: summary.fellThrough },
+          { label: 'Failed', value: summary.failures },
+          { label: 'Avg ms', value: summary.averageLatencyMs }
+        ].map(stat => (
+          <div key={stat.label} className="bg-gray-50 dark:bg-gray-900 rounded-xl py-2">
+            <p className="text-sm font-black text-gray-800 dark:text-gray-100">{stat.value}</p>
+            <p className="text-[10px] font-bold text-gray-400 uppercase">{stat.label}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap gap-1.5 text-[11px]">
+        {Object.entries(summary.byModel).map(([model, count]) => (
+          <span key={model} className="px-2 py-0.5 rounded-md bg-indigo-50 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 font-mono">{model} ×{count}</span>
+        ))}
+        <span className="px-2 py-0.5 rounded-md bg-gray-50 dark:bg-gray-900 text-gray-500 font-bold">{summary.totalTokens.toLocaleString()} tokens</span>
+      </div>
+
+      <div className="flex items-center justify-end gap-3">
+        <button onClick={load} disabled={loading} className="flex items-center gap-1 text-xs font-bold text-indigo-600 hover:text-indigo-700 disabled:opacity-50">
+          <RefreshCw className={`w-3 h-3 ${loading ? 'animate-spin' : ''}`} /> Refresh
+        </button>
+        <button onClick={() => download(JSON.stringify(events, null, 2), 'application/json', `ai-calls-${stamp}.json`)} disabled={!events.length} className="flex items-center gap-1 text-xs font-bold text-indigo-600 hover:text-indigo-700 disabled:opacity-50">
+          <Download className="w-3 h-3" /> JSON
+        </button>
+        <button onClick={() => download(telemetryToCsv(events), 'text/csv', `ai-calls-${stamp}.csv`)} disabled={!events.length} className="flex items-center gap-1 text-xs font-bold text-indigo-600 hover:text-indigo-700 disabled:opacity-50">
+          <Download className="w-3 h-3" /> CSV
+        </button>
+      </div>
+
+      {events.length === 0 ? (
+        <p className="text-xs text-gray-400 font-medium text-center py-2">No AI calls recorded yet.</p>
+      ) : (
+        <div className="space-y-1.5 max-h-72 overflow-y-auto">
+          {events.slice(0, VISIBLE_EVENTS).map(e => (
+            <div key={e.id} className="bg-gray-50 dark:bg-gray-900 rounded-xl px-3 py-2 text-[11px]" title={e.errorMessage}>
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-bold text-gray-700 dark:text-gray-200">{e.feature}</span>
+                <span className="flex items-center gap-2 shrink-0">
+                  <span className="text-gray-400 font-bold">{e.latencyMs}ms</span>
+                  <span className={`px-2 py-0.5 rounded-md font-bold ${OUTCOME_STYLES[e.outcome]}`}>{e.errorClass || e.outcome}</span>
+                </span>
+              </div>
+              <p className="font-mono text-gray-500 dark:text-gray-400 truncate mt-0.5">
+                {new Date(e.timestamp).toLocaleTimeString()} · {e.model ? `${e.model} on key #${(e.keyIndex ?? 0) + 1}` : 'no model'} · {e.attempts.length} attempt{e.attempts.length === 1 ? '' : 's'}{e.tokens ? ` · ${e.tokens.total} tokens` : ''}
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AICallLog;
@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from 'react';
+import { ai } from '../services/ai';
+import { HealthEntry } from '../services/keyHealth';
+import { fetchProxyHealth, resetProxyHealth, ProxyHealth } from '../services/proxyProvider';
+import { Activity, RotateCcw } from 'lucide-react';
+
+// Polled less often than the countdown ticks: the key pool lives on the AI proxy now
+const HEALTH_POLL_INTERVAL = 5000;
+
+// Small read-only view of the proxy's Gemini key pool for debugging "High Traffic" reports
+const AIDiagnostics: React.FC = () => {
+  const [health, setHealth] = useState<ProxyHealth | null>(null);
+  const [reachable, setReachable] = useState(true);
+  const [now, setNow] = useState(Date.now());
+
+  const load = async () => {
+    const next = await fetchProxyHealth();
+    setReachable(!!next);
+    if (next) setHealth(next);
+  };
+
+  // Reset is an admin route; it uses the token entered in the AI Call Log panel
+  const reset = async () => {
+    if (!await resetProxyHealth()) alert("⚠️ Reset refused. Enter the AI server's admin token in the AI Call Log panel first.");
+    load();
+  };
+
+  useEffect(() => {
+    if (ai.name !== 'proxy') return;
+    load();
+    const poll = setInterval(load, HEALTH_POLL_INTERVAL);
+    // Tick so cooldown countdowns stay live
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    return () => { clearInterval(poll); clearInterval(tick); };
+  }, []);
+
+  if (ai.name !== 'proxy' || health?.provider === 'mock') {
+    return (
+      <p className="text-xs text-gray-500 font-medium">Offline mock provider active. No API keys in use.</p>
+    );
+  }
+
+  if (!reachable) {
+    return (
+      <p className="text-xs text-red-500 font-medium">AI server unreachable. Start it with <code>npm run server</code>.</p>
+    );
+  }
+
+  const entries: HealthEntry[] = health?.entries || [];
+
+  const statusOf = (e: HealthEntry) => {
+    if (e.keyDisabled) return { label: 'Disabled', className: 'bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300' };
+    if (e.cooldownUntil > now) return { label: `Cooling ${Math.ceil((e.cooldownUntil - now) / 1000)}s`, className: 'bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300' };
+    if (e.recentFailures > 0) return { label: 'Flaky', className: 'bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300' };
+    return { label: 'Healthy', className: 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' };
+  };
+
+  const keyIndexes = [...new Set<number>(entries.map(e => e.keyIndex))];
+  const available = health?.usableKeys ?? 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="text-xs font-bold text-gray-500 flex items-center gap-1.5">
+          <Activity className="w-3.5 h-3.5" /> {available} of {keyIndexes.length} keys usable
+        </p>
+        <button onClick={reset} className="flex items-center gap-1 text-xs font-bold text-indigo-600 hover:text-indigo-700">
+          <RotateCcw className="w-3 h-3" /> Reset
+        </button>
+      </div>
+      {keyIndexes.map(k => (
+        <div key={k} className="bg-gray-50 dark:bg-gray-900 rounded-xl p-3">
+          <p className="text-xs font-black text-gray-700 dark:text-gray-200 mb-2">Key #{k + 1}</p>
+          <div className="space-y-1.5">
+            {entries.filter(e => e.keyIndex === k).map(e => {
+              const status = statusOf(e);
+              return (
+                <div key={e.model} className="flex items-center justify-between gap-2 text-[11px]">
+                  <span className="font-mono text-gray-500 dark:text-gray-400 truncate" title={e.lastError}>{e.model}</span>
+                  <span className="flex items-center gap-2 shrink-0">
+                    <span className="text-gray-400 font-bold">✓{e.successes} ✗{e.recentFailures}</span>
+                    <span className={`px-2 py-0.5 rounded-md font-bold ${status.className}`}>{status.label}</span>
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AIDiagnostics;
@@ -0,0 +1,208 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { SUBJECTS, MODES, ANSWER_MARKS } from '../constants';
+import { Subject, ClassLevel, AnswerMode, OutputLanguage, AnswerEvaluation, AskRecord } from '../types';
+import { ai } from '../services/ai';
+import { db } from '../services/db';
+import { defaultLanguageFor } from '../services/language';
+import { trackRefusal } from '../services/aiCall';
+import RichText from './RichText';
+import { ArrowLeft, ClipboardCheck, Loader2, ChevronDown, AlertCircle, RotateCcw, X } from 'lucide-react';
+
+interface AnswerCheckerProps {
+  username: string;
+  classLevel: ClassLevel;
+  subject: Subject;
+  language?: OutputLanguage;
+  // Prefilled when opened from a sample paper question
+  question?: string;
+  marks?: number;
+  markingScheme?: string;
+  onBack: () => void;
+}
+
+const AnswerChecker: React.FC<AnswerCheckerProps> = ({ username, classLevel, subject: initialSubject, language, question: initialQuestion = '', marks: initialMarks, markingScheme, onBack }) => {
+  const fromPaper = !!initialQuestion;
+  const [subject, setSubject] = useState<Subject>(initialSubject);
+  const [question, setQuestion] = useState(initialQuestion);
+  const [marks, setMarks] = useState<number>(initialMarks || 3);
+  const [mode, setMode] = useState<AnswerMode>('Exam Ready');
+  const [studentAnswer, setStudentAnswer] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<AnswerEvaluation | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setLoading(false);
+  };
+
+  const handleCheck = async () => {
+    if (!question.trim() || !studentAnswer.trim()) {
+      alert("Please enter both the question and your answer.");
+      return;
+    }
+    const controller = new AbortController();
+    const refusal = trackRefusal();
+    abortRef.current = controller;
+    setLoading(true);
+    const evaluation = await ai.evaluateAnswer(question.trim(), studentAnswer.trim(), marks, subject, classLevel, mode, defaultLanguageFor(subject, language), markingScheme, { signal: controller.signal, onRefused: refusal.onRefused });
+    if (controller.signal.aborted) return;
+    abortRef.current = null;
+    setLoading(false);
+    if (refusal.message()) {
+      alert(refusal.message());
+      return;
+    }
+    if (!evaluation) {
+      alert("⚠️ High Traffic: Unable to check your answer right now. Please try again in a few seconds!");
+      return;
+    }
+    setResult(evaluation);
+    const record: AskRecord = {
+      id: Date.now().toString(),
+      question: question.trim(),
+      answer: evaluation.modelAnswer,
+      timestamp: Date.now(),
+      subject,
+      classLevel,
+      mode,
+      evaluation
+    };
+    db.saveAskRecord(username, record).catch(err => {
+      console.error("History save failed", err);
+      alert("⚠️ Your result couldn't be saved to your Ask History.");
+    });
+  };
+
+  const percent = result ? Math.round((result.score / result.marks) * 100) : 0;
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50 dark:bg-gray-950 overflow-hidden">
+      <div className="bg-white dark:bg-gray-900 px-4 py-4 shadow-sm border-b border-gray-100 dark:border-gray-800 shrink-0 flex items-center gap-3">
+          <button onClick={onBack} className="p-2 bg-gray-100 dark:bg-gray-800 rounded-full hover:bg-gray-200"><ArrowLeft className="w-5 h-5 dark:text-white"/></button>
+          <h2 className="text-xl font-black text-gray-900 dark:text-white tracking-tight flex-1">Check My Answer</h2>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4 pb-28">
+        {!result ? (
+            <div className="bg-white dark:bg-gray-800 p-5 rounded-3xl shadow-sm border border-gray-100 dark:border-gray-700 space-y-4">
+                <div className="flex gap-2">
+                    <div className="relative flex-1">
+                        <select
+                            value={subject}
+                            disabled={fromPaper}
+                            onChange={(e) => setSubject(e.target.value as Subject)}
+                            className="w-full appearance-none bg-gray-50 dark:bg-gray-900 text-gray-700 dark:text-gray-200 pl-3 pr-8 py-2.5 rounded-xl text-xs font-bold outline-none cursor-pointer disabled:opacity-60"
+                        >
+                            {SUBJECTS.map(s => <option key={s} value={s}>{s}</option>)}
+                        </select>
+                        <ChevronDown className="absolute right-2 top-3 w-3 h-3 text-gray-400 pointer-events-none" />
+                    </div>
+                    <div className="relative flex-1">
+                        <select
+                            value={mode}
+                            onChange={(e) => setMode(e.target.value as AnswerMode)}
+                            className="w-full appearance-none bg-indigo-50 dark:bg-indigo-900/20 text-indigo-700 dark:text-indigo-300 pl-3 pr-8 py-2.5 rounded-xl text-xs font-bold outline-none cursor-pointer"
+                        >
+                            {MODES.map(m => <option key={m} value={m}>{m}</option>)}
+                        </select>
+                        <ChevronDown className="absolute right-2 top-3 w-3 h-3 text-indigo-400 pointer-events-none" />
+                    </div>
+                </div>
+
+                <div>
+                    <label className="text-xs font-bold text-gray-400 uppercase tracking-wider ml-1 mb-2 block">Question</label>
+                    <textarea
+                        value={question}
+                        readOnly={fromPaper}
+                        onChange={(e) => setQuestion(e.target.value)}
+                        rows={2}
+                        placeholder="Type or paste the question..."
+                        className="w-full bg-gray-50 dark:bg-gray-900 dark:text-white p-3 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-indigo-500 resize-none placeholder-gray-400"
+                    />
+                </div>
+
+                <div>
+                    <label className="text-xs font-bold text-gray-400 uppercase tracking-wider ml-1 mb-2 block">Marks</label>
+                    <div className="flex gap-2">
+                        {(fromPaper && initialMarks ? [initialMarks] : ANSWER_MARKS).map(m => (
+                            <button
+                                key={m}
+                                onClick={() => setMarks(m)}
+                                className={`flex-1 py-2.5 rounded-xl text-sm font-bold transition-all border-2 ${marks === m ? 'border-indigo-600 bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300' : 'border-transparent bg-gray-50 dark:bg-gray-900 text-gray-500'}`}
+                            >
+                                {m}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div>
+                    <label className="text-xs font-bold text-gray-400 uppercase tracking-wider ml-1 mb-2 block">Your Answer</label>
+                    <textarea
+                        value={studentAnswer}
+                        onChange={(e) => setStudentAnswer(e.target.value)}
+                        rows={8}
+                        placeholder="Write your answer the way you would in the exam..."
+                        className="w-full bg-gray-50 dark:bg-gray-900 dark:text-white p-3 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-indigo-500 placeholder-gray-400"
+                    />
+                </div>
+
+                <button
+                    onClick={handleCheck}
+                    disabled={loading}
+                    className="w-full bg-indigo-600 hover:bg-indigo-700 text-white py-3.5 rounded-xl font-bold text-sm shadow-lg flex items-center justify-center gap-2 active:scale-95 transition-all disabled:opacity-60"
+                >
+                    {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <ClipboardCheck className="w-4 h-4" />}
+                    {loading ? 'Checking...' : 'Check my answer'}
+                </button>
+                {loading && (
+                    <button
+                        onClick={handleCancel}
+                        className="w-full py-3 rounded-xl text-sm font-bold text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 flex items-center justify-center gap-2 transition-colors"
+                    >
+                        <X className="w-4 h-4" /> Cancel
+                    </button>
+                )}
+            </div>
+        ) : (
+            <div className="space-y-4 animate-fade-in-up">
+                <div className="bg-white dark:bg-gray-800 p-6 rounded-3xl shadow-sm border border-gray-100 dark:border-gray-700 text-center">
+                    <p className="text-xs font-bold text-gray-400 uppercase tracking-wider">Your Score</p>
+                    <p className={`text-5xl font-black mt-2 ${percent >= 75 ? 'text-green-600' : percent >= 40 ? 'text-amber-500' : 'text-red-500'}`}>
+                        {result.score}<span className="text-2xl text-gray-400"> / {result.marks}</span>
+                    </p>
+                    {result.feedback && <p className="text-sm text-gray-600 dark:text-gray-300 font-medium mt-3">{result.feedback}</p>}
+                </div>
+
+                {result.missingPoints.length > 0 && (
+                    <div className="bg-amber-50 dark:bg-amber-900/20 p-5 rounded-3xl border border-amber-100 dark:border-amber-900/40">
+                        <h4 className="font-bold text-sm text-amber-800 dark:text-amber-300 flex items-center gap-2 mb-2"><AlertCircle className="w-4 h-4" /> Missing Points</h4>
+                        <ul className="space-y-1.5 text-sm text-amber-900 dark:text-amber-200">
+                            {result.missingPoints.map((p, i) => <li key={i}>- <RichText text={p} inline /></li>)}
+                        </ul>
+                    </div>
+                )}
+
+                <div className="bg-white dark:bg-gray-800 p-5 rounded-3xl shadow-sm border border-gray-100 dark:border-gray-700">
+                    <h4 className="font-bold text-sm text-gray-900 dark:text-white mb-2">Model Answer <span className="text-xs text-indigo-500 font-bold ml-1">({mode})</span></h4>
+                    <RichText text={result.modelAnswer} className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed" />
+                </div>
+
+                <button
+                    onClick={() => setResult(null)}
+                    className="w-full bg-white dark:bg-gray-800 text-gray-700 dark:text-white border border-gray-200 dark:border-gray-700 py-3 rounded-xl font-bold text-sm flex items-center justify-center gap-2 hover:bg-gray-50 transition-colors"
+                >
+                    <RotateCcw className="w-4 h-4" /> Improve my answer
+                </button>
+            </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AnswerChecker;
@@ -0,0 +1,143 @@
+import React, { useState, useEffect } from 'react';
+import { SUBJECTS, MODES } from '../constants';
+import { Subject, AnswerMode, AskRecord, Bookmark } from '../types';
+import { db } from '../services/db';
+import TranslateMenu from './TranslateMenu';
+import RichText from './RichText';
+import { ArrowLeft, Search, History, Bookmark as BookmarkIcon, RefreshCw, Trash, Loader2 } from 'lucide-react';
+
+interface AskHistoryProps {
+  username: string;
+  onBack: () => void;
+  onReask: (record: AskRecord, mode: AnswerMode) => void;
+  onBookmark: (b: Bookmark) => void;
+}
+
+const AskHistory: React.FC<AskHistoryProps> = ({ username, onBack, onReask, onBookmark }) => {
+  const [records, setRecords] = useState<AskRecord[]>([]);
+  const [query, setQuery] = useState('');
+  const [subjectFilter, setSubjectFilter] = useState<Subject | ''>('');
+  const [loading, setLoading] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Debounced search so we don't hit the DB on every keystroke
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      const results = await db.getAskHistory(username, { query, subject: subjectFilter || undefined });
+      if (!cancelled) {
+        setRecords(results);
+        setLoading(false);
+      }
+    }, 250);
+    return () => { cancelled = true; clearTimeout(timer); };
+  }, [username, query, subjectFilter]);
+
+  const handlePromote = (r: AskRecord) => {
+    onBookmark({
+      id: Date.now().toString(),
+      type: 'qa',
+      title: r.question,
+      content: r.answer,
+      image: r.image,
+      subject: r.subject,
+      timestamp: Date.now()
+    });
+    alert('Answer saved to Bookmarks!');
+  };
+
+  const handleDelete = async (id: string) => {
+    const previous = records;
+    setRecords(prev => prev.filter(r => r.id !== id));
+    try {
+      await db.deleteAskRecord(username, id);
+    } catch (err) {
+      console.error("History delete failed", err);
+      setRecords(previous);
+      alert("⚠️ Couldn't delete this question. Please try again.");
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-gray-50 dark:bg-gray-950 overflow-hidden">
+      <div className="bg-white dark:bg-gray-900 px-4 py-4 shadow-sm border-b border-gray-100 dark:border-gray-800 shrink-0 space-y-3">
+          <div className="flex items-center gap-3">
+             <button onClick={onBack} className="p-2 bg-gray-100 dark:bg-gray-800 rounded-full hover:bg-gray-200"><ArrowLeft className="w-5 h-5 dark:text-white"/></button>
+             <h2 className="text-xl font-black text-gray-900 dark:text-white tracking-tight">Ask History</h2>
+          </div>
+          <div className="relative">
+             <Search className="absolute left-3 top-3 w-4 h-4 text-gray-400" />
+             <input
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder="Search questions and answers..."
+                className="w-full bg-gray-50 dark:bg-gray-800 dark:text-white pl-9 pr-3 py-2.5 rounded-xl text-sm font-medium outline-none focus:ring-2 focus:ring-indigo-500 placeholder-gray-400"
+             />
+          </div>
+          <div className="flex gap-2 overflow-x-auto no-scrollbar">
+             <button onClick={() => setSubjectFilter('')} className={`shrink-0 px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${subjectFilter === '' ? 'bg-indigo-600 text-white' : 'bg-gray-100 dark:bg-gray-800 text-gray-500'}`}>All</button>
+             {SUBJECTS.map(s => (
+                <button key={s} onClick={() => setSubjectFilter(s)} className={`shrink-0 px-3 py-1.5 rounded-lg text-xs font-bold transition-colors ${subjectFilter === s ? 'bg-indigo-600 text-white' : 'bg-gray-100 dark:bg-gray-800 text-gray-500'}`}>{s}</button>
+             ))}
+          </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4 pb-28">
+        {loading ? (
+            <div className="flex justify-center py-16"><Loader2 className="w-6 h-6 animate-spin text-indigo-600" /></div>
+        ) : records.length === 0 ? (
+            <div className="text-center py-20 flex flex-col items-center opacity-50">
+                <History className="w-12 h-12 mb-4 text-gray-400"/>
+                <p className="text-gray-500 font-bold">{query || subjectFilter ? 'No matching questions.' : 'No questions asked yet.'}</p>
+            </div>
+        ) : (
+            records.map(r => (
+                <div key={r.id} className="bg-white dark:bg-gray-800 p-5 rounded-3xl shadow-sm border border-gray-100 dark:border-gray-700">
+                    <div className="flex justify-between items-start gap-3 mb-2">
+                        <div className="flex flex-wrap gap-1.5">
+                            <span className="text-[10px] uppercase font-bold px-2 py-0.5 rounded-md tracking-wider bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300">{r.subject}</span>
+                            <span className="text-[10px] uppercase font-bold px-2 py-0.5 rounded-md tracking-wider bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300">Class {r.classLevel}</span>
+                            <span className="text-[10px] uppercase font-bold px-2 py-0.5 rounded-md tracking-wider bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300">{r.mode}</span>
+                            {r.evaluation && <span className="text-[10px] uppercase font-bold px-2 py-0.5 rounded-md tracking-wider bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300">Checked {r.evaluation.score}/{r.evaluation.marks}</span>}
+                        </div>
+                        <button onClick={() => handleDelete(r.id)} className="text-gray-300 hover:text-red-500 p-1.5 rounded-lg transition-colors"><Trash className="w-4 h-4"/></button>
+                    </div>
+                    {r.image && <img src={r.image} alt="Question photo" className="h-24 rounded-xl mb-2 object-contain" />}
+                    <h3 className="font-bold text-sm dark:text-white leading-snug">{r.question}</h3>
+                    <p className="text-[10px] text-gray-400 font-bold mt-1">{new Date(r.timestamp).toLocaleString()}</p>
+                    <button onClick={() => setExpandedId(expandedId === r.id ? null : r.id)} className="w-full text-left mt-3 p-3 bg-gray-50 dark:bg-gray-900/50 rounded-2xl">
+                        {r.evaluation && expandedId === r.id && (
+                            <p className="whitespace-pre-wrap text-xs text-gray-600 dark:text-gray-400 leading-relaxed mb-3 pb-3 border-b border-gray-200 dark:border-gray-700">
+                                <span className="font-bold">Your answer: </span>{r.evaluation.studentAnswer}
+                                {r.evaluation.missingPoints.length > 0 && <><br /><span className="font-bold">Missing: </span>{r.evaluation.missingPoints.join('; ')}</>}
+                            </p>
+                        )}
+                        <RichText text={r.answer} className={`text-xs text-gray-600 dark:text-gray-400 leading-relaxed ${expandedId === r.id ? '' : 'line-clamp-3'}`} />
+                    </button>
+                    <div className="mt-3 flex flex-wrap items-center justify-end gap-2">
+                        <TranslateMenu text={r.answer} classLevel={r.classLevel} subject={r.subject} />
+                        <div className="relative">
+                            <select
+                                value=""
+                                onChange={(e) => e.target.value && onReask(r, e.target.value as AnswerMode)}
+                                className="appearance-none bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300 pl-7 pr-3 py-1.5 rounded-lg text-xs font-bold outline-none cursor-pointer"
+                            >
+                                <option value="">Re-ask as...</option>
+                                {MODES.filter(m => m !== r.mode).map(m => <option key={m} value={m}>{m}</option>)}
+                            </select>
+                            <RefreshCw className="absolute left-2 top-2 w-3 h-3 text-gray-400 pointer-events-none" />
+                        </div>
+                        <button onClick={() => handlePromote(r)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-50 dark:bg-indigo-900/30 hover:bg-indigo-100 text-xs font-bold text-indigo-700 dark:text-indigo-300 transition-colors">
+                            <BookmarkIcon className="w-3.5 h-3.5" /> Bookmark
+                        </button>
+                    </div>
+                </div>
+            ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AskHistory;
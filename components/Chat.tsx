@@ -1,12 +1,38 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useLayoutEffect, useRef } from 'react';
 import { UserSettings, ChatMessage, ChatRequest, PrivateChat, ChatGroup, DirectoryUser } from '../types';
 import { db } from '../services/db';
-import { Send, Users, UserPlus, Check, X, Reply, User, ArrowLeft, MoreHorizontal, MessageSquare, CheckCheck, Smile, Circle, ChevronRight } from 'lucide-react';
+import { GLOBAL_CHAT_ID, MESSAGE_PAGE_SIZE, ChatEvent, ConnectionStatus, compareMessages } from '../services/storageAdapter';
+import { Send, Users, UserPlus, Check, X, Reply, User, ArrowLeft, MoreHorizontal, MessageSquare, CheckCheck, Smile, Circle, ChevronRight, Loader2 } from 'lucide-react';
 
 interface ChatProps {
   user: UserSettings;
 }
 
+// Loaded part of one conversation: the newest pages, extended backwards on scroll
+interface ConversationState {
+  messages: ChatMessage[];
+  hasMore: boolean;
+  loadingOlder: boolean;
+}
+
+// Start loading older messages when the reader gets this close to the top
+const SCROLL_BACK_THRESHOLD = 120;
+
+// Dedupe by id (a stored copy replaces the optimistic one) and keep log order
+const mergeMessages = (current: ChatMessage[], incoming: ChatMessage[]) => {
+  const byId = new Map(current.map(m => [m.id, m]));
+  incoming.forEach(m => byId.set(m.id, m));
+  return [...byId.values()].sort(compareMessages);
+};
+
+// Replace by id, or add at the end
+const upsertById = <T extends { id: string }>(list: T[], item: T) =>
+  list.some(x => x.id === item.id) ? list.map(x => x.id === item.id ? item : x) : [...list, item];
+
+// Chat list previews only ever move forward
+const newer = (current: ChatMessage | undefined, msg: ChatMessage) =>
+  !current || compareMessages(current, msg) <= 0 ? msg : current;
+
 // Curated School Emojis
 const SCHOOL_EMOJIS = [
     '📚', '✏️', '🧠', '✅', '❌', '💯', '🎒', '🏫', '🔬', '🎨', 
@@ -18,7 +44,11 @@ export default function Chat({ user }: ChatProps) {
   const [showChatView, setShowChatView] = useState(false);
 
   // Data State
-  const [globalMessages, setGlobalMessages] = useState<ChatMessage[]>([]);
+  const [globalLastMessage, setGlobalLastMessage] = useState<ChatMessage | undefined>();
+  const [conversations, setConversations] = useState<Record<string, ConversationState>>({});
+  // Reply counts from the store, by parent message id; loaded pages may hold only some replies
+  const [replyCounts, setReplyCounts] = useState<Record<string, number>>({});
+  const [connection, setConnection] = useState<ConnectionStatus>('connected');
   const [requests, setRequests] = useState<ChatRequest[]>([]);
   const [privateChats, setPrivateChats] = useState<PrivateChat[]>([]);
   const [groups, setGroups] = useState<ChatGroup[]>([]);
@@ -43,6 +73,9 @@ export default function Chat({ user }: ChatProps) {
   const [searchTerm, setSearchTerm] = useState('');
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const messagesAreaRef = useRef<HTMLDivElement>(null);
+  const restoreScrollRef = useRef<number | null>(null); // scrollHeight before older messages were prepended
+  const wasDisconnectedRef = useRef(false);
   const threadEndRef = useRef<HTMLDivElement>(null); // New ref for thread scroll
   const inputRef = useRef<HTMLInputElement>(null);
 
@@ -50,13 +83,13 @@ export default function Chat({ user }: ChatProps) {
   const loadData = async () => {
     try {
       const [gl, reqs, priv, grps, dir] = await Promise.all([
-          db.getGlobalMessages(),
+          db.getMessages(GLOBAL_CHAT_ID, undefined, 1),
           db.getRequests(user.username),
           db.getPrivateChats(user.username),
           db.getGroups(user.username),
           db.getDirectory()
       ]);
-      setGlobalMessages(gl);
+      setGlobalLastMessage(gl[0]);
       setRequests(reqs);
       setPrivateChats(priv);
       setGroups(grps);
@@ -66,25 +99,136 @@ export default function Chat({ user }: ChatProps) {
     } 
   };
 
+  // --- Realtime ---
+  // Updates are merged as they arrive; nothing is refetched while the connection is up
+  const handleChatEvent = (event: ChatEvent) => {
+      switch (event.type) {
+          case 'message':
+              // Only conversations already on screen; others load their page when opened
+              setConversations(prev => prev[event.conversationId]
+                  ? { ...prev, [event.conversationId]: { ...prev[event.conversationId], messages: mergeMessages(prev[event.conversationId].messages, [event.message]) } }
+                  : prev);
+              setLastMessage(event.conversationId, event.message);
+              if (event.message.replyTo) loadReplyCounts(event.conversationId, [event.message.replyTo.id]);
+              break;
+          case 'request':
+              setRequests(prev => upsertById(prev, event.request));
+              // A new request is usually from someone this tab hasn't seen in the directory yet
+              if (event.request.toUsername === user.username && event.request.status === 'pending') {
+                  db.getDirectory().then(setDirectory).catch(e => console.error("Failed to load directory", e));
+              }
+              break;
+          case 'privateChat':
+              setPrivateChats(prev => prev.some(c => c.id === event.chat.id) ? prev : [...prev, event.chat]);
+              break;
+          case 'group':
+              setGroups(prev => {
+                  if (!event.group.members.includes(user.username)) return prev.filter(g => g.id !== event.group.id);
+                  const existing = prev.find(g => g.id === event.group.id);
+                  return upsertById(prev, { ...event.group, lastMessage: existing?.lastMessage });
+              });
+              break;
+      }
+  };
+
   useEffect(() => {
     loadData();
-    const interval = setInterval(() => loadData(), 5000); 
-    return () => clearInterval(interval);
+    return db.subscribe(user.username, handleChatEvent, setConnection);
   }, [user.username]);
 
+  // Polling only as a fallback while realtime is down; one full resync once it's back
+  useEffect(() => {
+    if (connection === 'connected') {
+        if (wasDisconnectedRef.current) {
+            loadData();
+            if (activeChatId) loadLatestMessages(activeChatId);
+        }
+        wasDisconnectedRef.current = false;
+        return;
+    }
+    wasDisconnectedRef.current = true;
+    const interval = setInterval(() => {
+        loadData();
+        if (activeChatId) loadLatestMessages(activeChatId);
+    }, 5000);
+    return () => clearInterval(interval);
+  }, [connection, activeChatId]);
+
+  // --- Conversation Paging ---
+  const mergeIntoConversation = (id: string, incoming: ChatMessage[], hasMore?: boolean) => {
+      setConversations(prev => {
+          const current = prev[id];
+          return {
+              ...prev,
+              [id]: {
+                  messages: mergeMessages(current?.messages || [], incoming),
+                  hasMore: hasMore ?? current?.hasMore ?? incoming.length === MESSAGE_PAGE_SIZE,
+                  loadingOlder: false
+              }
+          };
+      });
+  };
+
+  const loadReplyCounts = (id: string, messageIds: string[]) => db.getReplyCounts(id, messageIds)
+      .then(counts => setReplyCounts(prev => ({ ...prev, ...Object.fromEntries(messageIds.map(m => [m, counts[m] || 0])) })))
+      .catch(e => console.error("Failed to load reply counts", e));
+
+  // Newest page of a conversation, merged so scrolled-back history stays loaded
+  const loadLatestMessages = (id: string) => db.getMessages(id)
+      .then(page => {
+          mergeIntoConversation(id, page);
+          loadReplyCounts(id, page.map(m => m.id));
+      })
+      .catch(e => console.error("Failed to load messages", e));
+
   useEffect(() => {
-    // Scroll handling for main chat
+    if (activeChatId) loadLatestMessages(activeChatId);
+  }, [activeChatId]);
+
+  const loadOlderMessages = async () => {
+      const id = activeChatId;
+      const current = id ? conversations[id] : undefined;
+      if (!id || !current || !current.hasMore || current.loadingOlder || current.messages.length === 0) return;
+      setConversations(prev => ({ ...prev, [id]: { ...prev[id], loadingOlder: true } }));
+      try {
+          const page = await db.getMessages(id, current.messages[0]);
+          if (messagesAreaRef.current) restoreScrollRef.current = messagesAreaRef.current.scrollHeight;
+          mergeIntoConversation(id, page, page.length === MESSAGE_PAGE_SIZE);
+          loadReplyCounts(id, page.map(m => m.id));
+      } catch (e) {
+          console.error("Failed to load older messages", e);
+          setConversations(prev => ({ ...prev, [id]: { ...prev[id], loadingOlder: false } }));
+      }
+  };
+
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+      if (e.currentTarget.scrollTop < SCROLL_BACK_THRESHOLD) loadOlderMessages();
+  };
+
+  // Keep the reader's place when older messages are added above
+  useLayoutEffect(() => {
+    const area = messagesAreaRef.current;
+    if (restoreScrollRef.current === null || !area) return;
+    area.scrollTop += area.scrollHeight - restoreScrollRef.current;
+    restoreScrollRef.current = null;
+  }, [conversations]);
+
+  const currentMessages = activeChatId ? conversations[activeChatId]?.messages || [] : [];
+  const lastMessageId = currentMessages[currentMessages.length - 1]?.id;
+
+  useEffect(() => {
+    // Scroll handling for main chat: only when a newer message arrives, not when history is prepended
     if (showChatView && !threadParent && messagesEndRef.current) {
         messagesEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [globalMessages, privateChats, groups, activeChatId, showChatView, threadParent]);
+  }, [lastMessageId, activeChatId, showChatView, threadParent]);
 
   useEffect(() => {
     // Scroll handling for thread view
     if (threadParent && threadEndRef.current) {
         threadEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
-  }, [threadParent, globalMessages, privateChats, groups]); // Re-scroll when messages update in thread
+  }, [threadParent, lastMessageId]); // Re-scroll when messages update in thread
 
   // --- Helpers ---
   const getOnlineUsers = () => {
@@ -98,15 +242,19 @@ export default function Chat({ user }: ChatProps) {
        return all.filter(u => u.username.length % 2 !== 0);
   };
 
-  const getCurrentMessages = () => {
-      if (activeChatType === 'global') return globalMessages;
-      if (activeChatType === 'group') return groups.find(g => g.id === activeChatId)?.messages || [];
-      if (activeChatType === 'private') return privateChats.find(c => c.id === activeChatId)?.messages || [];
-      return [];
+  const getCurrentMessages = () => currentMessages;
+
+  // Chat list previews
+  const setLastMessage = (conversationId: string, msg: ChatMessage) => {
+      if (conversationId === GLOBAL_CHAT_ID) setGlobalLastMessage(prev => newer(prev, msg));
+      setGroups(prev => prev.map(g => g.id === conversationId ? { ...g, lastMessage: newer(g.lastMessage, msg) } : g));
+      setPrivateChats(prev => prev.map(c => c.id === conversationId ? { ...c, lastMessage: newer(c.lastMessage, msg) } : c));
   };
 
+  // A reply sent or received since the last count is already loaded, so take whichever is higher
   const getReplyCount = (msgId: string) => {
-    return getCurrentMessages().filter(m => m.replyTo?.id === msgId).length;
+    const loaded = getCurrentMessages().filter(m => m.replyTo?.id === msgId).length;
+    return Math.max(replyCounts[msgId] || 0, loaded);
   };
 
   // --- Actions ---
@@ -119,8 +267,12 @@ export default function Chat({ user }: ChatProps) {
     // Determine reply context: forceReplyTo (Thread Parent) takes precedence, then local replyTo state
     const parent = forceReplyTo || null; 
 
+    const conversationId = activeChatId;
+    if (!conversationId) return;
+
     const msg: ChatMessage = {
-      id: Date.now().toString(),
+      // Random suffix: two students sending in the same millisecond must not collide
+      id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
       senderName: user.name,
       senderUsername: user.username,
       content: text,
@@ -128,20 +280,20 @@ export default function Chat({ user }: ChatProps) {
       replyTo: parent ? { id: parent.id, senderName: parent.senderName, content: parent.content } : undefined
     };
 
-    // Optimistic Update
-    if (activeChatType === 'global') {
-        setGlobalMessages(prev => [...prev, msg]);
-        await db.sendGlobalMessage(msg);
-    } else if (activeChatType === 'group' && activeChatId) {
-        setGroups(prev => prev.map(g => g.id === activeChatId ? {...g, messages: [...g.messages, msg]} : g));
-        await db.sendGroupMessage(activeChatId, msg);
-    } else if (activeChatType === 'private' && activeChatId) {
-        setPrivateChats(prev => prev.map(c => c.id === activeChatId ? {...c, messages: [...c.messages, msg]} : c));
-        await db.sendPrivateMessage(activeChatId, msg);
-    }
-
+    // Optimistic Update, then swapped for the stored copy (which carries the store's timestamp)
+    mergeIntoConversation(conversationId, [msg]);
     setInputText('');
     setShowEmojiPicker(false);
+
+    const stored = await db.sendMessage(conversationId, msg);
+    if (!stored) {
+        setConversations(prev => ({ ...prev, [conversationId]: { ...prev[conversationId], messages: prev[conversationId].messages.filter(m => m.id !== msg.id) } }));
+        setInputText(text);
+        alert("⚠️ Message not sent. Please check your connection and try again.");
+        return;
+    }
+    mergeIntoConversation(conversationId, [stored]);
+    setLastMessage(conversationId, stored);
   };
 
   const sendFriendRequest = async (targetUsername: string) => {
@@ -163,8 +315,8 @@ export default function Chat({ user }: ChatProps) {
     setRequests(prev => prev.map(r => r.id === reqId ? { ...r, status: action } : r));
     const updated = await db.updateRequestStatus(reqId, action);
     if (updated && action === 'accepted') {
+        // The new chat arrives as a realtime event
         await db.createPrivateChat([updated.fromUsername, updated.toUsername]);
-        loadData();
     }
   };
 
@@ -174,14 +326,13 @@ export default function Chat({ user }: ChatProps) {
           id: Date.now().toString(),
           name: newGroupName,
           adminUsername: user.username,
-          members: [...selectedGroupMembers, user.username],
-          messages: []
+          members: [...selectedGroupMembers, user.username]
       };
       await db.createGroup(newGroup);
+      setGroups(prev => upsertById(prev, newGroup));
       setNewGroupName('');
       setSelectedGroupMembers([]);
       setIsCreatingGroup(false);
-      loadData();
   };
   
   const enterChat = (id: string | null, type: 'global' | 'private' | 'group') => {
@@ -333,16 +484,16 @@ export default function Chat({ user }: ChatProps) {
               <div className="flex-1 overflow-y-auto custom-scrollbar px-4 pt-4 pb-28">
                   {activeTab === 'chats' ? (
                       <div className="space-y-3">
-                          <div onClick={() => enterChat(null, 'global')} className="group flex items-center gap-4 p-4 bg-white dark:bg-gray-900 hover:bg-indigo-50 dark:hover:bg-gray-800 cursor-pointer rounded-3xl transition-all border border-gray-100 dark:border-gray-800 hover:border-indigo-100 dark:hover:border-gray-700 shadow-sm">
+                          <div onClick={() => enterChat(GLOBAL_CHAT_ID, 'global')} className="group flex items-center gap-4 p-4 bg-white dark:bg-gray-900 hover:bg-indigo-50 dark:hover:bg-gray-800 cursor-pointer rounded-3xl transition-all border border-gray-100 dark:border-gray-800 hover:border-indigo-100 dark:hover:border-gray-700 shadow-sm">
                               <div className="w-14 h-14 rounded-2xl bg-gradient-to-br from-indigo-500 to-purple-600 flex items-center justify-center text-white shadow-md shadow-indigo-200 dark:shadow-none group-hover:scale-105 transition-transform">
                                   <Users className="w-6 h-6"/>
                               </div>
                               <div className="flex-1 min-w-0">
                                   <div className="flex justify-between items-baseline mb-1">
                                       <h3 className="font-bold text-gray-900 dark:text-white text-base">Global Community</h3>
-                                      <span className="text-[10px] text-gray-400 font-bold">{globalMessages.length > 0 ? new Date(globalMessages[globalMessages.length-1].timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}) : ''}</span>
+                                      <span className="text-[10px] text-gray-400 font-bold">{globalLastMessage ? new Date(globalLastMessage.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}) : ''}</span>
                                   </div>
-                                  <p className="text-sm text-gray-500 dark:text-gray-400 truncate font-medium">{globalMessages.length > 0 ? (globalMessages[globalMessages.length-1].senderUsername === user.username ? 'You: ' : '') + globalMessages[globalMessages.length-1].content : "Join the conversation"}</p>
+                                  <p className="text-sm text-gray-500 dark:text-gray-400 truncate font-medium">{globalLastMessage ? (globalLastMessage.senderUsername === user.username ? 'You: ' : '') + globalLastMessage.content : "Join the conversation"}</p>
                               </div>
                           </div>
                           {groups.map(g => (
@@ -353,15 +504,15 @@ export default function Chat({ user }: ChatProps) {
                                   <div className="flex-1 min-w-0">
                                       <div className="flex justify-between items-baseline mb-1">
                                           <h3 className="font-bold text-gray-900 dark:text-white text-base">{g.name}</h3>
-                                          <span className="text-[10px] text-gray-400 font-bold">{g.messages.length > 0 ? new Date(g.messages[g.messages.length-1].timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}) : ''}</span>
+                                          <span className="text-[10px] text-gray-400 font-bold">{g.lastMessage ? new Date(g.lastMessage.timestamp).toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'}) : ''}</span>
                                       </div>
-                                      <p className="text-sm text-gray-500 dark:text-gray-400 truncate font-medium">{g.messages.length > 0 ? (g.messages[g.messages.length-1].senderUsername === user.username ? 'You: ' : '') + g.messages[g.messages.length-1].content : "No messages"}</p>
+                                      <p className="text-sm text-gray-500 dark:text-gray-400 truncate font-medium">{g.lastMessage ? (g.lastMessage.senderUsername === user.username ? 'You: ' : '') + g.lastMessage.content : "No messages"}</p>
                                   </div>
                               </div>
                           ))}
                           {privateChats.map(c => {
                               const other = c.participants.find(p => p !== user.username);
-                              const lastMsg = c.messages[c.messages.length-1];
+                              const lastMsg = c.lastMessage;
                               return (
                                   <div key={c.id} onClick={() => enterChat(c.id, 'private')} className="group flex items-center gap-4 p-4 bg-white dark:bg-gray-900 hover:bg-indigo-50 dark:hover:bg-gray-800 cursor-pointer rounded-3xl transition-all border border-gray-100 dark:border-gray-800 hover:border-indigo-100 dark:hover:border-gray-700 shadow-sm">
                                       <div className="w-14 h-14 rounded-2xl bg-gray-100 dark:bg-gray-700 flex items-center justify-center text-gray-500 dark:text-gray-300 group-hover:bg-indigo-200 dark:group-hover:bg-gray-600 group-hover:text-indigo-700 dark:group-hover:text-white transition-colors">
@@ -469,6 +620,7 @@ export default function Chat({ user }: ChatProps) {
   // -- THREAD VIEW OVERLAY --
   if (threadParent) {
      const threadMessages = getCurrentMessages().filter(m => m.replyTo?.id === threadParent.id);
+     const threadReplyCount = getReplyCount(threadParent.id);
      
      return (
         <div className="h-full flex flex-col bg-gray-50 dark:bg-gray-950 relative z-30 overflow-hidden animate-fade-in">
@@ -493,7 +645,8 @@ export default function Chat({ user }: ChatProps) {
                 {/* Replies */}
                 <div className="space-y-2 pb-4">
                     <div className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-4 text-center">
-                        {threadMessages.length} Replies
+                        {threadReplyCount} Replies
+                        {threadMessages.length < threadReplyCount && ` · ${threadMessages.length} loaded`}
                     </div>
                     {threadMessages.map(msg => (
                         <MessageBubble key={msg.id} msg={msg} isThreadView={true} />
@@ -619,10 +772,21 @@ export default function Chat({ user }: ChatProps) {
           </div>
 
           {/* Messages Area */}
-          <div className="flex-1 overflow-y-auto p-4 custom-scrollbar relative">
+          <div ref={messagesAreaRef} onScroll={handleMessagesScroll} className="flex-1 overflow-y-auto p-4 custom-scrollbar relative">
               <div className="absolute inset-0 bg-[url('https://www.transparenttextures.com/patterns/cross-stripes.png')] opacity-[0.04] dark:opacity-[0.05] pointer-events-none fixed"></div>
               
               <div className="space-y-2 pb-40">
+                  {activeChatId && conversations[activeChatId]?.hasMore && (
+                      <div className="flex justify-center pb-2">
+                          {conversations[activeChatId].loadingOlder ? (
+                              <Loader2 className="w-5 h-5 text-gray-400 animate-spin" />
+                          ) : (
+                              <button onClick={loadOlderMessages} className="text-xs font-bold text-indigo-600 dark:text-indigo-400 bg-white dark:bg-gray-800 px-4 py-1.5 rounded-full shadow-sm border border-gray-100 dark:border-gray-700">
+                                  Load earlier messages
+                              </button>
+                          )}
+                      </div>
+                  )}
                   {getCurrentMessages()
                     .filter(msg => !msg.replyTo) // Filter out replies from main view
                     .map((msg) => {
@@ -1,31 +1,64 @@
 import React, { useState } from 'react';
-import { UserSettings, ClassLevel } from '../types';
-import { GraduationCap, ArrowRight, Mail, User, AlertCircle, Lock, BookOpen } from 'lucide-react';
+import { ClassLevel } from '../types';
+import { ArrowRight, Mail, User, AlertCircle, Lock, BookOpen, KeyRound, Info } from 'lucide-react';
 import { CLASSES } from '../constants';
+import { SignUpDetails, MIN_PASSWORD_LENGTH } from '../services/storageAdapter';
 
 interface LoginProps {
-  onLogin: (name: string, email: string, username: string, classLevel: ClassLevel, password: string) => void;
+  onSignUp: (details: SignUpDetails) => Promise<void>;
+  onSignIn: (identifier: string, password: string) => Promise<void>;
+  onRequestReset: (email: string) => Promise<{ demoCode?: string }>;
+  onResetPassword: (email: string, code: string, newPassword: string) => Promise<void>;
 }
 
-const Login: React.FC<LoginProps> = ({ onLogin }) => {
+type Mode = 'signin' | 'signup' | 'reset';
+
+const inputClass = "w-full p-4 pl-12 rounded-xl bg-gray-50 dark:bg-gray-700/50 dark:text-white outline-none focus:ring-2 focus:ring-indigo-500 border border-transparent dark:border-gray-700 font-semibold text-sm transition-all placeholder-gray-400";
+const iconClass = "absolute left-4 top-4 w-5 h-5 text-gray-400 group-focus-within:text-indigo-500 transition-colors";
+
+const Login: React.FC<LoginProps> = ({ onSignUp, onSignIn, onRequestReset, onResetPassword }) => {
+  const [mode, setMode] = useState<Mode>('signin');
   const [name, setName] = useState('');
   const [email, setEmail] = useState('');
   const [username, setUsername] = useState('');
+  const [identifier, setIdentifier] = useState(''); // Sign in: username or email
   const [password, setPassword] = useState('');
   const [classLevel, setClassLevel] = useState<ClassLevel>('10');
+  const [resetCode, setResetCode] = useState('');
+  const [codeSent, setCodeSent] = useState(false);
   const [error, setError] = useState('');
+  const [info, setInfo] = useState('');
   const [loading, setLoading] = useState(false);
 
+  const switchMode = (next: Mode) => {
+    setMode(next);
+    setError('');
+    setInfo('');
+    setPassword('');
+    setResetCode('');
+    setCodeSent(false);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
     setLoading(true);
 
     try {
-      const cleanUsername = username.trim().toLowerCase();
-      if (cleanUsername.length < 3) throw new Error("Username too short.");
-      if (name.trim() && email.trim()) {
-        await onLogin(name, email, cleanUsername, classLevel, password || 'default');
+      if (mode === 'signin') {
+        await onSignIn(identifier, password);
+      } else if (mode === 'signup') {
+        const cleanUsername = username.trim().toLowerCase();
+        if (cleanUsername.length < 3) throw new Error("Username too short.");
+        await onSignUp({ name: name.trim(), email, username: cleanUsername, classLevel, password });
+      } else if (!codeSent) {
+        const { demoCode } = await onRequestReset(email);
+        setCodeSent(true);
+        setInfo(demoCode
+          ? `Offline mode can't send email. Your reset code is ${demoCode}.`
+          : "If an account uses this email, we've sent it a 6-digit reset code.");
+      } else {
+        await onResetPassword(email, resetCode, password);
       }
     } catch (err: any) {
       setError(err.message || "Login failed");
@@ -34,6 +67,10 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
     }
   };
 
+  const submitLabel = mode === 'signin' ? "Sign In"
+    : mode === 'signup' ? "Start Learning"
+    : codeSent ? "Set New Password" : "Send Reset Code";
+
   return (
     <div className="h-full flex flex-col bg-white dark:bg-gray-900 overflow-y-auto">
         {/* Modern Header */}
@@ -60,88 +97,155 @@ const Login: React.FC<LoginProps> = ({ onLogin }) => {
                 </div>
             )}
             
+            {info && (
+                <div className="bg-indigo-50 dark:bg-indigo-900/30 border border-indigo-100 dark:border-indigo-900/50 p-3 rounded-xl flex items-center gap-2 text-indigo-700 dark:text-indigo-300 text-xs font-bold">
+                    <Info className="w-4 h-4 shrink-0" /> {info}
+                </div>
+            )}
+
             <div className="space-y-4">
-              <div className="relative group">
-                <User className="absolute left-4 top-4 w-5 h-5 text-gray-400 group-focus-within:text-indigo-500 transition-colors" />
-                <input
-                  type="text"
-                  required
-                  value={name}
-                  onChange={(e) => setName(e.target.value)}
-                  placeholder="Full Name"
-                  className="w-full p-4 pl-12 rounded-xl bg-gray-50 dark:bg-gray-700/50 dark:text-white outline-none focus:ring-2 focus:ring-indigo-500 border border-transparent dark:border-gray-700 font-semibold text-sm transition-all placeholder-gray-400"
-                />
-              </div>
-              
-              <div className="relative group">
-                <div className="absolute left-4 top-4 w-5 h-5 flex items-center justify-center font-black text-gray-400 group-focus-within:text-indigo-500 transition-colors">@</div>
-                <input
-                  type="text"
-                  required
-                  value={username}
-                  onChange={(e) => setUsername(e.target.value.toLowerCase())}
-                  placeholder="Username"
-                  className="w-full p-4 pl-12 rounded-xl bg-gray-50 dark:bg-gray-700/50 dark:text-white outline-none focus:ring-2 focus:ring-indigo-500 border border-transparent dark:border-gray-700 font-semibold text-sm transition-all placeholder-gray-400"
-                />
-              </div>
-              
-              <div className="relative group">
-                <Mail className="absolute left-4 top-4 w-5 h-5 text-gray-400 group-focus-within:text-indigo-500 transition-colors" />
-                <input
-                  type="email"
-                  required
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  placeholder="Email Address"
-                  className="w-full p-4 pl-12 rounded-xl bg-gray-50 dark:bg-gray-700/50 dark:text-white outline-none focus:ring-2 focus:ring-indigo-500 border border-transparent dark:border-gray-700 font-semibold text-sm transition-all placeholder-gray-400"
-                />
-              </div>
+              {mode === 'signin' && (
+                <div className="relative group">
+                  <User className={iconClass} />
+                  <input
+                    type="text"
+                    required
+                    autoComplete="username"
+                    value={identifier}
+                    onChange={(e) => setIdentifier(e.target.value)}
+                    placeholder="Username or Email"
+                    className={inputClass}
+                  />
+                </div>
+              )}
+
+              {mode === 'signup' && (
+                <>
+                  <div className="relative group">
+                    <User className={iconClass} />
+                    <input
+                      type="text"
+                      required
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="Full Name"
+                      className={inputClass}
+                    />
+                  </div>
 
-              <div className="relative group">
-                 <Lock className="absolute left-4 top-4 w-5 h-5 text-gray-400 group-focus-within:text-indigo-500 transition-colors" />
-                 <input
-                    type="password"
+                  <div className="relative group">
+                    <div className="absolute left-4 top-4 w-5 h-5 flex items-center justify-center font-black text-gray-400 group-focus-within:text-indigo-500 transition-colors">@</div>
+                    <input
+                      type="text"
+                      required
+                      autoComplete="username"
+                      value={username}
+                      onChange={(e) => setUsername(e.target.value.toLowerCase())}
+                      placeholder="Username"
+                      className={inputClass}
+                    />
+                  </div>
+                </>
+              )}
+
+              {mode !== 'signin' && (
+                <div className="relative group">
+                  <Mail className={iconClass} />
+                  <input
+                    type="email"
                     required
-                    value={password}
-                    onChange={(e) => setPassword(e.target.value)}
-                    placeholder="Password"
-                    className="w-full p-4 pl-12 rounded-xl bg-gray-50 dark:bg-gray-700/50 dark:text-white outline-none focus:ring-2 focus:ring-indigo-500 border border-transparent dark:border-gray-700 font-semibold text-sm transition-all placeholder-gray-400"
+                    autoComplete="email"
+                    disabled={mode === 'reset' && codeSent}
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="Email Address"
+                    className={`${inputClass} disabled:opacity-60`}
                   />
-              </div>
+                </div>
+              )}
+
+              {mode === 'reset' && codeSent && (
+                <div className="relative group">
+                  <KeyRound className={iconClass} />
+                  <input
+                    type="text"
+                    required
+                    inputMode="numeric"
+                    autoComplete="one-time-code"
+                    value={resetCode}
+                    onChange={(e) => setResetCode(e.target.value)}
+                    placeholder="6-digit Reset Code"
+                    className={inputClass}
+                  />
+                </div>
+              )}
+
+              {(mode !== 'reset' || codeSent) && (
+                <div className="relative group">
+                   <Lock className={iconClass} />
+                   <input
+                      type="password"
+                      required
+                      minLength={mode === 'signin' ? undefined : MIN_PASSWORD_LENGTH}
+                      autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder={mode === 'signin' ? "Password" : mode === 'reset' ? "New Password" : `Password (${MIN_PASSWORD_LENGTH}+ characters)`}
+                      className={inputClass}
+                    />
+                </div>
+              )}
+
+              {mode === 'signin' && (
+                <button type="button" onClick={() => switchMode('reset')} className="text-xs font-bold text-indigo-600 dark:text-indigo-400 ml-1">
+                  Forgot password?
+                </button>
+              )}
             </div>
 
-            <div>
-              <p className="text-xs font-bold text-gray-400 mb-3 uppercase tracking-wider ml-1">Select Class</p>
-              <div className="flex justify-between gap-2">
-                {CLASSES.map((cls) => (
-                  <button
-                    type="button"
-                    key={cls}
-                    onClick={() => setClassLevel(cls)}
-                    className={`flex-1 py-3 rounded-xl font-bold text-sm transition-all duration-200 ${
-                      classLevel === cls
-                        ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-200 dark:shadow-none'
-                        : 'bg-gray-50 dark:bg-gray-700/50 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700'
-                    }`}
-                  >
-                    {cls}
-                  </button>
-                ))}
+            {mode === 'signup' && (
+              <div>
+                <p className="text-xs font-bold text-gray-400 mb-3 uppercase tracking-wider ml-1">Select Class</p>
+                <div className="flex justify-between gap-2">
+                  {CLASSES.map((cls) => (
+                    <button
+                      type="button"
+                      key={cls}
+                      onClick={() => setClassLevel(cls)}
+                      className={`flex-1 py-3 rounded-xl font-bold text-sm transition-all duration-200 ${
+                        classLevel === cls
+                          ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-200 dark:shadow-none'
+                          : 'bg-gray-50 dark:bg-gray-700/50 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-700'
+                      }`}
+                    >
+                      {cls}
+                    </button>
+                  ))}
+                </div>
               </div>
-            </div>
+            )}
 
             <button
               type="submit"
               disabled={loading}
               className="w-full bg-gray-900 dark:bg-white text-white dark:text-gray-900 font-bold py-4 rounded-xl shadow-xl active:scale-95 transition-all mt-4 flex items-center justify-center gap-2 text-base hover:opacity-90"
             >
-              {loading ? "Creating Profile..." : <>Start Learning <ArrowRight className="w-5 h-5"/></>}
+              {loading ? "Please wait..." : <>{submitLabel} <ArrowRight className="w-5 h-5"/></>}
             </button>
           </form>
-          
-          <p className="text-center text-xs text-gray-400 mt-6 font-medium">
-             By joining, you agree to become a Study Buddy.
+
+          <p className="text-center text-sm text-gray-500 dark:text-gray-400 mt-6 font-medium">
+             {mode === 'signin' ? "New here? " : mode === 'signup' ? "Already have an account? " : "Remembered it? "}
+             <button type="button" onClick={() => switchMode(mode === 'signin' ? 'signup' : 'signin')} className="font-bold text-indigo-600 dark:text-indigo-400">
+               {mode === 'signin' ? "Create an account" : "Sign in"}
+             </button>
           </p>
+          
+          {mode === 'signup' && (
+            <p className="text-center text-xs text-gray-400 mt-3 font-medium">
+               By joining, you agree to become a Study Buddy.
+            </p>
+          )}
         </div>
     </div>
   );
@@ -1,52 +1,201 @@
-import React, { useState } from 'react';
-import { Subject, ProjectType, ClassLevel, Bookmark } from '../types';
-import { SUBJECTS } from '../constants';
-import { getProjectContent } from '../services/geminiService';
-import { Loader2, FileText, ArrowRight, Printer, Bookmark as BookmarkIcon, Download, RefreshCcw } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Subject, ProjectType, ClassLevel, OutputLanguage, Bookmark, ProjectDocument, ProjectSection } from '../types';
+import { SUBJECTS, PROJECT_TYPES } from '../constants';
+import { ai } from '../services/ai';
+import { responseCache, cacheKeys } from '../services/responseCache';
+import { withRebuiltIndex, projectToText } from '../services/projectDocument';
+import { compressDataUrl } from '../services/imageService';
+import { defaultLanguageFor } from '../services/language';
+import { trackRefusal } from '../services/aiCall';
+import { escapeHtml, richTextToHtml } from '../services/richText';
+import RichText from './RichText';
+import { Loader2, FileText, ArrowRight, Printer, Bookmark as BookmarkIcon, Download, RefreshCcw, Database, RefreshCw, Pencil, Check, X, ListOrdered, ImagePlus } from 'lucide-react';
 
 interface ProjectHelperProps {
   classLevel: ClassLevel;
   onBookmark: (b: Bookmark) => void;
+  language?: OutputLanguage;
 }
 
-const PROJECT_TYPES: ProjectType[] = ['ASL', 'Practical File', 'School Project / Assignment'];
+type RequestSlot = 'project' | 'section' | 'image';
 
-const ProjectHelper: React.FC<ProjectHelperProps> = ({ classLevel, onBookmark }) => {
+const ProjectHelper: React.FC<ProjectHelperProps> = ({ classLevel, onBookmark, language }) => {
   const [step, setStep] = useState<1 | 2 | 3 | 4>(1);
   const [subject, setSubject] = useState<Subject | ''>('');
   const [type, setType] = useState<ProjectType | ''>('');
   const [topic, setTopic] = useState('');
   const [loading, setLoading] = useState(false);
-  const [result, setResult] = useState('');
+  const [project, setProject] = useState<ProjectDocument | null>(null);
+  const [resultCached, setResultCached] = useState(false);
+
+  // Per-section editing / regeneration
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [draftContent, setDraftContent] = useState('');
+  const [regeneratingId, setRegeneratingId] = useState<string | null>(null);
+  const [imageBusyId, setImageBusyId] = useState<string | null>(null);
   
+  // One in-flight request per slot (whole project, section rewrite, image) so each has its own Cancel
+  const requestsRef = useRef(new Map<RequestSlot, AbortController>());
+  useEffect(() => () => requestsRef.current.forEach(controller => controller.abort()), []);
+
+  const beginRequest = (slot: RequestSlot) => {
+    requestsRef.current.get(slot)?.abort();
+    const controller = new AbortController();
+    requestsRef.current.set(slot, controller);
+    return controller;
+  };
+
+  const endRequest = (slot: RequestSlot, controller: AbortController) => {
+    if (requestsRef.current.get(slot) === controller) requestsRef.current.delete(slot);
+  };
+
+  const cancelRequest = (slot: RequestSlot) => {
+    requestsRef.current.get(slot)?.abort();
+    requestsRef.current.delete(slot);
+    if (slot === 'project') {
+      setLoading(false);
+      setStep(3);
+    }
+    if (slot === 'section') setRegeneratingId(null);
+    if (slot === 'image') setImageBusyId(null);
+  };
+
   const nextStep = () => setStep(prev => (prev < 4 ? prev + 1 : prev) as any);
   
-  const generate = async () => {
+  const generate = async (fresh = false) => {
     if (!subject || !type) return;
+    const controller = beginRequest('project');
     setLoading(true);
     setStep(4);
-    const content = await getProjectContent(subject, type, topic || 'General', classLevel);
-    setResult(content);
+    setEditingId(null);
+    const outputLanguage = defaultLanguageFor(subject, language);
+    const key = cacheKeys.project(subject, type, topic || 'General', classLevel, outputLanguage);
+    const cached = fresh ? null : await responseCache.get<ProjectDocument>(key);
+    if (controller.signal.aborted) return;
+    if (cached) {
+      endRequest('project', controller);
+      setProject(cached);
+      setResultCached(true);
+    } else {
+      const refusal = trackRefusal();
+      const generated = await ai.getProjectContent(subject, type, topic || 'General', classLevel, outputLanguage, { signal: controller.signal, onRefused: refusal.onRefused });
+      // Cancelled: cancelRequest already took the student back a step
+      if (controller.signal.aborted) return;
+      endRequest('project', controller);
+      if (refusal.message()) {
+        alert(refusal.message());
+        setStep(3);
+      } else if (generated) {
+        responseCache.set(key, 'project', generated);
+        setProject(generated);
+        const cover = generated.sections.find(s => s.kind === 'cover');
+        if (cover) generateImage(generated, cover);
+      } else {
+        alert("⚠️ High Traffic: Unable to generate project right now. Please try again later.");
+        setStep(3);
+      }
+      setResultCached(false);
+    }
     setLoading(false);
   };
 
+  // Every edit goes through here so the Index always matches the section titles,
+  // and the cached copy keeps the student's edits. Functional update because
+  // image and text requests can finish while other edits are happening.
+  const updateSection = (id: string, patch: Partial<ProjectSection>) => {
+    setProject(prev => {
+      if (!prev) return prev;
+      const updated = { ...prev, sections: withRebuiltIndex(prev.sections.map(s => s.id === id ? { ...s, ...patch } : s)) };
+      responseCache.set(cacheKeys.project(updated.subject, updated.type, updated.topic, updated.classLevel, updated.language || 'English'), 'project', updated);
+      return updated;
+    });
+  };
+
+  const startEditing = (section: ProjectSection) => {
+    setEditingId(section.id);
+    setDraftTitle(section.title);
+    setDraftContent(section.content);
+  };
+
+  const saveEditing = () => {
+    if (!project || !editingId) return;
+    const current = project.sections.find(s => s.id === editingId);
+    updateSection(editingId, { title: draftTitle.trim() || current?.title, content: draftContent });
+    setEditingId(null);
+  };
+
+  const regenerateSection = async (section: ProjectSection) => {
+    if (!project || regeneratingId) return;
+    const controller = beginRequest('section');
+    const refusal = trackRefusal();
+    setRegeneratingId(section.id);
+    const content = await ai.getProjectSection(project, section.id, { signal: controller.signal, onRefused: refusal.onRefused });
+    endRequest('section', controller);
+    if (controller.signal.aborted) return;
+    setRegeneratingId(null);
+    if (refusal.message()) {
+      alert(refusal.message());
+      return;
+    }
+    if (!content || content.startsWith('⚠️') || content.startsWith('Error:')) {
+      alert(content || "Could not rewrite this section.");
+      return;
+    }
+    updateSection(section.id, { content });
+  };
+
+  // Cover illustration or a chapter diagram, downscaled before it is stored
+  const generateImage = async (doc: ProjectDocument, section: ProjectSection) => {
+    const controller = beginRequest('image');
+    const refusal = trackRefusal();
+    setImageBusyId(section.id);
+    const raw = await ai.getProjectImage(doc, section.kind === 'cover' ? undefined : section.id, { signal: controller.signal, onRefused: refusal.onRefused });
+    endRequest('image', controller);
+    if (controller.signal.aborted) return;
+    if (refusal.message()) {
+      alert(refusal.message());
+    } else if (raw) {
+      updateSection(section.id, { image: await compressDataUrl(raw) });
+    } else {
+      alert("Couldn't create an image right now. Please try again later.");
+    }
+    setImageBusyId(null);
+  };
+
   const reset = () => {
+    requestsRef.current.forEach(controller => controller.abort());
+    requestsRef.current.clear();
+    setImageBusyId(null);
+    setRegeneratingId(null);
     setStep(1);
     setSubject('');
     setType('');
     setTopic('');
-    setResult('');
+    setProject(null);
+    setResultCached(false);
+    setEditingId(null);
+  };
+
+  // Word and print share one HTML rendering; every section starts on a new page
+  const projectToHtml = (p: ProjectDocument) => {
+    return p.sections.map((s, i) => `
+      <div class="section" style="${i > 0 ? 'page-break-before: always;' : ''}">
+        <h2 style="text-align: center;">${escapeHtml(s.title)}</h2>
+        ${s.image ? `<p style="text-align: center;"><img src="${s.image}" style="max-width: 100%; max-height: ${s.kind === 'cover' ? '600px' : '400px'};" /></p>` : ''}
+        <div>${richTextToHtml(s.content)}</div>
+      </div>`).join('');
   };
 
   const handleExportDoc = () => {
-      if (!result) return;
+      if (!project) return;
       const header = `<html xmlns:o='urn:schemas-microsoft-com:office:office' xmlns:w='urn:schemas-microsoft-com:office:word' xmlns='http://www.w3.org/TR/REC-html40'><head><meta charset='utf-8'><title>${subject} Project</title></head><body>`;
       const footer = "</body></html>";
       
       const sourceHTML = header + 
-          `<div style="font-family: 'Times New Roman', serif; white-space: pre-wrap;">
+          `<div style="font-family: 'Times New Roman', serif;">
               <h1 style="text-align: center;">${subject} - ${type}</h1>
-              ${result.replace(/\n/g, '<br/>')}
+              ${projectToHtml(project)}
           </div>` + footer;
       const source = 'data:application/vnd.ms-word;charset=utf-8,' + encodeURIComponent(sourceHTML);
       const fileDownload = document.createElement("a");
@@ -58,7 +207,7 @@ const ProjectHelper: React.FC<ProjectHelperProps> = ({ classLevel, onBookmark })
   };
 
   const handlePrintPDF = () => {
-    if (!result) return;
+    if (!project) return;
     const printWindow = window.open('', '', 'width=800,height=600');
     if (!printWindow) return;
     
@@ -69,7 +218,8 @@ const ProjectHelper: React.FC<ProjectHelperProps> = ({ classLevel, onBookmark })
           <style>
             body { font-family: 'Times New Roman', serif; padding: 40px; line-height: 1.6; color: #000; }
             h1 { text-align: center; margin-bottom: 20px; text-transform: uppercase; }
-            pre { white-space: pre-wrap; font-family: inherit; font-size: 14px; }
+            h2 { text-transform: uppercase; font-size: 18px; }
+            .section { font-size: 14px; }
             .header { text-align: center; border-bottom: 1px solid #ccc; padding-bottom: 10px; margin-bottom: 30px; }
           </style>
         </head>
@@ -78,7 +228,7 @@ const ProjectHelper: React.FC<ProjectHelperProps> = ({ classLevel, onBookmark })
             <h1>${subject} - ${type}</h1>
             <p>Topic: ${topic} | Class: ${classLevel}</p>
           </div>
-          <pre>${result}</pre>
+          ${projectToHtml(project)}
           <script>
             window.onload = function() { window.print(); window.close(); }
           </script>
@@ -89,12 +239,14 @@ const ProjectHelper: React.FC<ProjectHelperProps> = ({ classLevel, onBookmark })
   };
 
   const handleSave = () => {
-      if(result) {
+      if(project) {
           onBookmark({
               id: Date.now().toString(),
               type: 'project',
               title: `${subject}: ${topic || type}`,
-              content: result,
+              content: projectToText(project),
+              image: project.sections.find(s => s.kind === 'cover')?.image,
+              subject: project.subject,
               timestamp: Date.now()
           });
           alert('Saved!');
@@ -156,7 +308,7 @@ const ProjectHelper: React.FC<ProjectHelperProps> = ({ classLevel, onBookmark })
                      className="w-full p-4 text-lg bg-gray-50 dark:bg-gray-700/50 rounded-xl outline-none focus:ring-2 focus:ring-indigo-500 dark:text-white font-medium border-transparent transition-all placeholder-gray-400"
                    />
                </div>
-               <button onClick={generate} className="w-full bg-indigo-600 text-white font-bold py-4 rounded-xl shadow-lg shadow-indigo-200 dark:shadow-none active:scale-95 transition-transform hover:bg-indigo-700 flex justify-center items-center gap-2">
+               <button onClick={() => generate()} className="w-full bg-indigo-600 text-white font-bold py-4 rounded-xl shadow-lg shadow-indigo-200 dark:shadow-none active:scale-95 transition-transform hover:bg-indigo-700 flex justify-center items-center gap-2">
                  Generate Content <ArrowRight className="w-5 h-5"/>
                </button>
              </div>
@@ -173,6 +325,9 @@ const ProjectHelper: React.FC<ProjectHelperProps> = ({ classLevel, onBookmark })
                         </div>
                     </div>
                     <p className="mt-6 font-bold text-gray-500">Crafting your project...</p>
+                    <button onClick={() => cancelRequest('project')} className="mt-4 px-4 py-2 rounded-xl bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 text-xs font-bold flex items-center gap-1.5 hover:bg-red-100 transition-colors">
+                        <X className="w-3.5 h-3.5" /> Cancel
+                    </button>
                   </div>
                 ) : (
                   <>
@@ -183,9 +338,70 @@ const ProjectHelper: React.FC<ProjectHelperProps> = ({ classLevel, onBookmark })
                         <button onClick={reset} className="shrink-0 text-gray-400 px-4 py-2.5 text-xs font-bold hover:text-gray-600 flex items-center gap-1"><RefreshCcw className="w-3 h-3"/> New</button>
                      </div>
 
-                     <div className="bg-white dark:bg-gray-800 p-6 rounded-[2rem] shadow-sm border border-gray-100 dark:border-gray-700">
-                        <pre className="whitespace-pre-wrap font-serif text-gray-800 dark:text-gray-300 text-sm leading-relaxed">{result}</pre>
-                     </div>
+                     {resultCached && (
+                        <div className="flex items-center justify-between gap-2 px-4 py-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 text-xs font-bold">
+                            <span className="flex items-center gap-1.5"><Database className="w-3.5 h-3.5" /> Cached project</span>
+                            <button onClick={() => generate(true)} className="flex items-center gap-1 hover:underline"><RefreshCw className="w-3 h-3" /> Regenerate?</button>
+                        </div>
+                     )}
+
+                     {project?.sections.map(section => {
+                        const isEditing = editingId === section.id;
+                        const isRegenerating = regeneratingId === section.id;
+                        return (
+                          <div key={section.id} className="bg-white dark:bg-gray-800 p-5 rounded-[1.5rem] shadow-sm border border-gray-100 dark:border-gray-700">
+                            <div className="flex items-center justify-between gap-2 mb-3">
+                              {isEditing && section.kind === 'chapter' ? (
+                                <input
+                                  value={draftTitle}
+                                  onChange={(e) => setDraftTitle(e.target.value)}
+                                  className="flex-1 px-3 py-1.5 rounded-lg bg-gray-50 dark:bg-gray-700/50 dark:text-white text-sm font-black outline-none focus:ring-2 focus:ring-indigo-500"
+                                />
+                              ) : (
+                                <h3 className="text-sm font-black uppercase tracking-wider text-gray-900 dark:text-white flex items-center gap-2">
+                                  {section.kind === 'index' && <ListOrdered className="w-4 h-4 text-indigo-500" />}{section.title}
+                                </h3>
+                              )}
+                              {section.kind === 'index' ? (
+                                <span className="text-[10px] font-bold uppercase text-gray-400">Auto</span>
+                              ) : isEditing ? (
+                                <div className="flex gap-1 shrink-0">
+                                  <button onClick={saveEditing} title="Save" className="p-2 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-600 hover:bg-green-100"><Check className="w-3.5 h-3.5" /></button>
+                                  <button onClick={() => setEditingId(null)} title="Cancel" className="p-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-500 hover:bg-gray-200"><X className="w-3.5 h-3.5" /></button>
+                                </div>
+                              ) : (
+                                <div className="flex gap-1 shrink-0">
+                                  {(section.kind === 'cover' || section.kind === 'chapter') && (
+                                    <button onClick={() => imageBusyId === section.id ? cancelRequest('image') : generateImage(project, section)} disabled={!!imageBusyId && imageBusyId !== section.id} title={imageBusyId === section.id ? 'Cancel' : section.kind === 'cover' ? 'Generate cover illustration' : 'Generate diagram'} className="p-2 rounded-lg bg-emerald-50 dark:bg-emerald-900/20 text-emerald-600 dark:text-emerald-300 hover:bg-emerald-100 disabled:opacity-50">
+                                      {imageBusyId === section.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <ImagePlus className="w-3.5 h-3.5" />}
+                                    </button>
+                                  )}
+                                  <button onClick={() => startEditing(section)} disabled={!!regeneratingId} title="Edit" className="p-2 rounded-lg bg-gray-100 dark:bg-gray-700 text-gray-500 dark:text-gray-300 hover:bg-gray-200 disabled:opacity-50"><Pencil className="w-3.5 h-3.5" /></button>
+                                  <button onClick={() => isRegenerating ? cancelRequest('section') : regenerateSection(section)} disabled={!!regeneratingId && !isRegenerating} title={isRegenerating ? 'Cancel' : 'Regenerate this section'} className="p-2 rounded-lg bg-indigo-50 dark:bg-indigo-900/20 text-indigo-600 dark:text-indigo-300 hover:bg-indigo-100 disabled:opacity-50">
+                                    {isRegenerating ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <RefreshCw className="w-3.5 h-3.5" />}
+                                  </button>
+                                </div>
+                              )}
+                            </div>
+                            {section.image && (
+                              <div className="relative mb-3">
+                                <img src={section.image} alt={section.title} className={`w-full rounded-xl object-contain bg-gray-50 dark:bg-gray-900 ${section.kind === 'cover' ? 'max-h-96' : 'max-h-64'} ${imageBusyId === section.id ? 'opacity-40' : ''}`} />
+                                <button onClick={() => updateSection(section.id, { image: undefined })} title="Remove image" className="absolute top-2 right-2 p-1.5 rounded-full bg-black/50 text-white hover:bg-black/70"><X className="w-3 h-3" /></button>
+                              </div>
+                            )}
+                            {isEditing ? (
+                              <textarea
+                                value={draftContent}
+                                onChange={(e) => setDraftContent(e.target.value)}
+                                rows={Math.min(20, Math.max(6, draftContent.split('\n').length + 1))}
+                                className="w-full p-3 rounded-xl bg-gray-50 dark:bg-gray-700/50 dark:text-gray-200 font-serif text-sm leading-relaxed outline-none focus:ring-2 focus:ring-indigo-500 resize-y"
+                              />
+                            ) : (
+                              <RichText text={section.content || 'Empty section. Tap regenerate to write it.'} className={`font-serif text-gray-800 dark:text-gray-300 text-sm leading-relaxed ${isRegenerating ? 'opacity-40' : ''}`} />
+                            )}
+                          </div>
+                        );
+                     })}
                   </>
                 )}
              </div>
@@ -1,22 +1,33 @@
-import React, { useState } from 'react';
-import { Subject, ClassLevel, QuizQuestion, QuizResult, Bookmark } from '../types';
-import { SUBJECTS } from '../constants';
-import { getQuizQuestions, getSamplePaper } from '../services/geminiService';
-import { Loader2, BrainCircuit, RefreshCw, CheckCircle, XCircle, Trophy, History, FileText, Download, Printer, Bookmark as BookmarkIcon, ChevronDown, ArrowLeft, HelpCircle } from 'lucide-react';
+import React, { useState, useEffect, useRef } from 'react';
+import { Subject, ClassLevel, OutputLanguage, QuizQuestion, QuizResult, Bookmark, QuizConfig, QuizFormat, SamplePaper, PaperQuestionBody } from '../types';
+import { SUBJECTS, QUIZ_COUNTS, QUIZ_DIFFICULTIES, QUIZ_FORMATS, DEFAULT_QUIZ_CONFIG } from '../constants';
+import { ai } from '../services/ai';
+import { responseCache, cacheKeys } from '../services/responseCache';
+import { checkQuizAnswer, formatCorrectAnswer } from '../services/quizValidation';
+import { paperToText } from '../services/paperValidation';
+import { defaultLanguageFor } from '../services/language';
+import { trackRefusal } from '../services/aiCall';
+import { escapeHtml, richTextToHtml } from '../services/richText';
+import AnswerChecker from './AnswerChecker';
+import RichText from './RichText';
+import { Loader2, BrainCircuit, RefreshCw, CheckCircle, XCircle, Trophy, History, FileText, Download, Printer, Bookmark as BookmarkIcon, ChevronDown, ArrowLeft, HelpCircle, Database, Repeat, Eye, EyeOff, ClipboardCheck, X } from 'lucide-react';
 
 interface QuizMakerProps {
   classLevel: ClassLevel;
+  username: string;
   onQuizComplete: (result: QuizResult) => void;
   onBookmark: (b: Bookmark) => void;
   history: QuizResult[];
+  language?: OutputLanguage;
 }
 
 type Mode = 'mcq' | 'paper';
 
-const QuizMaker: React.FC<QuizMakerProps> = ({ classLevel, onQuizComplete, history, onBookmark }) => {
+const QuizMaker: React.FC<QuizMakerProps> = ({ classLevel, username, onQuizComplete, history, onBookmark, language }) => {
   const [mode, setMode] = useState<Mode>('mcq');
   const [subject, setSubject] = useState<Subject>('Mathematics');
   const [topic, setTopic] = useState('');
+  const [quizConfig, setQuizConfig] = useState<QuizConfig>(DEFAULT_QUIZ_CONFIG);
   const [loading, setLoading] = useState(false);
   
   // MCQ State
@@ -25,42 +36,155 @@ const QuizMaker: React.FC<QuizMakerProps> = ({ classLevel, onQuizComplete, histo
   const [score, setScore] = useState(0);
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
   const [isAnswered, setIsAnswered] = useState(false);
+  const [blankInput, setBlankInput] = useState('');
   
   // Paper State
-  const [paperContent, setPaperContent] = useState<string | null>(null);
+  const [paper, setPaper] = useState<SamplePaper | null>(null);
+  const [paperCached, setPaperCached] = useState(false);
+  const [showAnswers, setShowAnswers] = useState(false);
+  // Paper question the student is writing their own answer to
+  const [checkTarget, setCheckTarget] = useState<{ question: string; marks: number; answer: string } | null>(null);
 
-  const [view, setView] = useState<'setup' | 'quiz' | 'result' | 'history' | 'paper_view'>('setup');
+  // Last generated set for this subject/topic, offered as "Repeat last set"
+  const [repeatSet, setRepeatSet] = useState<QuizQuestion[] | null>(null);
 
+  const [view, setView] = useState<'setup' | 'quiz' | 'result' | 'history' | 'paper_view' | 'check'>('setup');
+
+  const outputLanguage = defaultLanguageFor(subject, language);
+
+  // In-flight quiz/paper request, so Cancel and leaving the screen can stop it
+  const abortRef = useRef<AbortController | null>(null);
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const beginRequest = () => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return controller;
+  };
+
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    if (view !== 'setup' || mode !== 'mcq') return;
+    let cancelled = false;
+    responseCache.get<QuizQuestion[]>(cacheKeys.quiz(subject, classLevel, topic, quizConfig, outputLanguage)).then(qs => {
+      if (!cancelled) setRepeatSet(qs && qs.length > 0 ? qs : null);
+    });
+    return () => { cancelled = true; };
+  }, [view, mode, subject, classLevel, topic, quizConfig, outputLanguage]);
+
+  // At least one format must stay selected
+  const toggleFormat = (format: QuizFormat) => {
+    setQuizConfig(prev => {
+      const formats = prev.formats.includes(format)
+        ? prev.formats.filter(f => f !== format)
+        : QUIZ_FORMATS.map(f => f.value).filter(f => f === format || prev.formats.includes(f));
+      return formats.length > 0 ? { ...prev, formats } : prev;
+    });
+  };
+
+  const startQuiz = (qs: QuizQuestion[]) => {
+    setQuestions(qs);
+    setCurrentQIndex(0);
+    setScore(0);
+    setView('quiz');
+    setSelectedOption(null);
+    setIsAnswered(false);
+    setBlankInput('');
+  };
+
+  // Quizzes are always fresh; the cache only remembers the last set so it can be repeated
   const handleGenerate = async () => {
     if (!subject) return;
+    const controller = beginRequest();
     setLoading(true);
     
     if (mode === 'mcq') {
-        const qs = await getQuizQuestions(subject, classLevel, topic || undefined);
-        if (qs && qs.length > 0) {
-            setQuestions(qs);
-            setCurrentQIndex(0);
-            setScore(0);
-            setView('quiz');
-            setSelectedOption(null);
-            setIsAnswered(false);
+        const refusal = trackRefusal();
+        const qs = await ai.getQuizQuestions(subject, classLevel, topic || undefined, quizConfig, outputLanguage, { signal: controller.signal, onRefused: refusal.onRefused });
+        // Cancelled: the Cancel button already reset the screen
+        if (controller.signal.aborted) return;
+        if (refusal.message()) {
+            alert(refusal.message());
+        } else if (qs && qs.length > 0) {
+            responseCache.set(cacheKeys.quiz(subject, classLevel, topic, quizConfig, outputLanguage), 'quiz', qs);
+            startQuiz(qs);
         } else {
             alert("Failed to generate valid questions. Please try again.");
         }
     } else {
-        const content = await getSamplePaper(subject, classLevel);
-        setPaperContent(content);
-        setView('paper_view');
+        await loadPaper(false, controller.signal);
+        if (controller.signal.aborted) return;
     }
     
     setLoading(false);
   };
 
+  const loadPaper = async (fresh: boolean, signal: AbortSignal) => {
+    const key = cacheKeys.paper(subject, classLevel, outputLanguage);
+    const cached = fresh ? null : await responseCache.get<SamplePaper>(key);
+    if (signal.aborted) return;
+    if (cached) {
+        setPaper(cached);
+        setPaperCached(true);
+    } else {
+        const refusal = trackRefusal();
+        const generated = await ai.getSamplePaper(subject, classLevel, outputLanguage, { signal, onRefused: refusal.onRefused });
+        if (signal.aborted) return;
+        if (refusal.message()) {
+            alert(refusal.message());
+            return;
+        }
+        if (!generated) {
+            alert("⚠️ High Traffic: Unable to generate a complete paper right now. Please try again later.");
+            return;
+        }
+        responseCache.set(key, 'paper', generated);
+        setPaper(generated);
+        setPaperCached(false);
+    }
+    setShowAnswers(false);
+    setView('paper_view');
+  };
+
+  const regeneratePaper = async () => {
+    const controller = beginRequest();
+    setLoading(true);
+    await loadPaper(true, controller.signal);
+    if (!controller.signal.aborted) setLoading(false);
+  };
+
+  // Word and print share one HTML rendering of the structured paper
+  const paperToHtml = (p: SamplePaper, withAnswers: boolean) => {
+    const options = (opts?: string[]) => opts ? `<ol type="a">${opts.map(o => `<li>${richTextToHtml(o)}</li>`).join('')}</ol>` : '';
+    const answer = (body: PaperQuestionBody) => withAnswers ? `<div class="answer"><strong>Answer:</strong> ${richTextToHtml(body.answer)}</div>` : '';
+    return `
+      <h1>CBSE Sample Question Paper (${p.session})</h1>
+      <div class="meta">Subject: ${p.subject} | Class: ${p.classLevel} | Time: ${p.duration} | Maximum Marks: ${p.totalMarks}</div>
+      <p><strong>General Instructions:</strong></p>
+      <ol>${p.generalInstructions.map(g => `<li>${escapeHtml(g)}</li>`).join('')}</ol>
+      ${p.sections.map(s => `
+        <h2>Section ${s.id} - ${escapeHtml(s.title)} (${s.questions.length} &times; ${s.marksPerQuestion} = ${s.questions.length * s.marksPerQuestion} marks)</h2>
+        ${s.questions.map(q => `
+          <div class="question">
+            <p><strong>Q${q.number}.</strong> ${richTextToHtml(q.text)} <span class="marks">[${q.marks}]</span></p>
+            ${options(q.options)}${answer(q)}
+            ${q.alternative ? `<p class="or">OR</p><p>${richTextToHtml(q.alternative.text)}</p>${options(q.alternative.options)}${answer(q.alternative)}` : ''}
+          </div>`).join('')}
+      `).join('')}
+    `;
+  };
+
   const handleExportDoc = () => {
-      if (!paperContent) return;
+      if (!paper) return;
       const header = `<html xmlns:o='urn:schemas-microsoft-com:office:office' xmlns:w='urn:schemas-microsoft-com:office:word' xmlns='http://www.w3.org/TR/REC-html40'><head><meta charset='utf-8'><title>${subject} Sample Paper</title></head><body>`;
       const footer = "</body></html>";
-      const sourceHTML = header + `<div style="font-family: 'Times New Roman', serif; white-space: pre-wrap;"><h1 style="text-align: center;">Study Buddy - Sample Paper</h1><p style="text-align: center;"><strong>Subject:</strong> ${subject} | <strong>Class:</strong> ${classLevel}</p><hr/>${paperContent.replace(/\n/g, '<br/>')}</div>` + footer;
+      const sourceHTML = header + `<div style="font-family: 'Times New Roman', serif;">${paperToHtml(paper, showAnswers)}</div>` + footer;
       const source = 'data:application/vnd.ms-word;charset=utf-8,' + encodeURIComponent(sourceHTML);
       const fileDownload = document.createElement("a");
       document.body.appendChild(fileDownload);
@@ -71,7 +195,7 @@ const QuizMaker: React.FC<QuizMakerProps> = ({ classLevel, onQuizComplete, histo
   };
 
   const handlePrintPDF = () => {
-    if (!paperContent) return;
+    if (!paper) return;
     const printWindow = window.open('', '', 'width=800,height=600');
     if (!printWindow) return;
     
@@ -82,14 +206,16 @@ const QuizMaker: React.FC<QuizMakerProps> = ({ classLevel, onQuizComplete, histo
           <style>
             body { font-family: 'Times New Roman', serif; padding: 40px; line-height: 1.6; color: #000; }
             h1 { text-align: center; margin-bottom: 10px; text-transform: uppercase; }
+            h2 { font-size: 16px; margin-top: 28px; border-bottom: 1px solid #000; }
             .meta { text-align: center; margin-bottom: 30px; font-weight: bold; border-bottom: 2px solid #000; padding-bottom: 10px; }
-            pre { white-space: pre-wrap; font-family: inherit; font-size: 14px; }
+            .question { font-size: 14px; page-break-inside: avoid; }
+            .marks { float: right; font-weight: bold; }
+            .or { text-align: center; font-weight: bold; }
+            .answer { color: #166534; font-style: italic; }
           </style>
         </head>
         <body>
-          <h1>Study Buddy Sample Paper</h1>
-          <div class="meta">Subject: ${subject} | Class: ${classLevel}</div>
-          <pre>${paperContent}</pre>
+          ${paperToHtml(paper, showAnswers)}
           <script>
             window.onload = function() { window.print(); window.close(); }
           </script>
@@ -100,24 +226,26 @@ const QuizMaker: React.FC<QuizMakerProps> = ({ classLevel, onQuizComplete, histo
   };
 
   const handleSavePaper = () => {
-      if(paperContent) {
+      if(paper) {
           onBookmark({
               id: Date.now().toString(),
               type: 'paper',
               title: `Sample Paper: ${subject}`,
-              content: paperContent,
+              content: paperToText(paper, true),
+              subject: paper.subject,
               timestamp: Date.now()
           });
           alert("Sample Paper saved to Bookmarks!");
       }
   };
 
-  // ... MCQ Logic ...
-  const handleOptionClick = (option: string) => {
-    if (isAnswered) return;
-    setSelectedOption(option);
+  // ... Quiz Logic ...
+  // `response` is the chosen option, "True"/"False", or the typed blank
+  const submitAnswer = (response: string) => {
+    if (isAnswered || !response.trim()) return;
+    setSelectedOption(response);
     setIsAnswered(true);
-    if (option === questions[currentQIndex].correctAnswer) setScore(prev => prev + 1);
+    if (checkQuizAnswer(questions[currentQIndex], response)) setScore(prev => prev + 1);
   };
 
   const nextQuestion = () => {
@@ -125,6 +253,7 @@ const QuizMaker: React.FC<QuizMakerProps> = ({ classLevel, onQuizComplete, histo
       setCurrentQIndex(prev => prev + 1);
       setSelectedOption(null);
       setIsAnswered(false);
+      setBlankInput('');
     } else {
       const finalScore = score + (selectedOption === questions[currentQIndex].correctAnswer ? 0 : 0);
       const result: QuizResult = {
@@ -141,18 +270,113 @@ const QuizMaker: React.FC<QuizMakerProps> = ({ classLevel, onQuizComplete, histo
 
   // ... Views ...
 
+  const renderPaperBody = (body: PaperQuestionBody, label: string, marks: number) => (
+      <>
+          <p className="flex justify-between gap-3">
+              <span>{label && <span className="font-bold mr-1">{label}</span>}<RichText text={body.text} inline /></span>
+              <span className="font-bold text-xs text-gray-500 shrink-0">[{marks}]</span>
+          </p>
+          {body.options && (
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1 mt-1.5 ml-5 text-gray-700 dark:text-gray-300">
+                  {body.options.map((o, i) => <span key={i}>({String.fromCharCode(97 + i)}) <RichText text={o} inline /></span>)}
+              </div>
+          )}
+          {showAnswers && (
+              <div className="mt-2 ml-5 px-3 py-2 rounded-lg bg-green-50 dark:bg-green-900/20 text-green-800 dark:text-green-300 text-xs font-sans font-medium">
+                  <span className="font-bold">Answer:</span>
+                  <RichText text={body.answer} />
+              </div>
+          )}
+          {!body.options && (
+              <button
+                  onClick={() => { setCheckTarget({ question: body.text, marks, answer: body.answer }); setView('check'); }}
+                  className="mt-2 ml-5 flex items-center gap-1 text-xs font-sans font-bold text-indigo-600 dark:text-indigo-400 hover:underline"
+              >
+                  <ClipboardCheck className="w-3.5 h-3.5" /> Check my answer
+              </button>
+          )}
+      </>
+  );
+
+  if (view === 'check' && checkTarget && paper) {
+      return (
+          <AnswerChecker
+              username={username}
+              classLevel={paper.classLevel}
+              subject={paper.subject}
+              language={language}
+              question={checkTarget.question}
+              marks={checkTarget.marks}
+              markingScheme={checkTarget.answer}
+              onBack={() => { setCheckTarget(null); setView('paper_view'); }}
+          />
+      );
+  }
+
   if (view === 'paper_view') {
       return (
           <div className="flex flex-col h-full overflow-hidden bg-white dark:bg-gray-900">
                <div className="p-4 sticky top-0 z-30 border-b border-gray-100 dark:border-gray-800 flex items-center gap-4 bg-white/90 dark:bg-gray-900/90 backdrop-blur-md">
                   <button onClick={() => setView('setup')} className="p-2 bg-gray-100 dark:bg-gray-800 rounded-full hover:bg-gray-200"><ArrowLeft className="w-5 h-5 dark:text-white"/></button>
-                  <h2 className="text-lg font-bold dark:text-white">Paper Preview</h2>
+                  <h2 className="text-lg font-bold dark:text-white flex-1">Paper Preview</h2>
+                  <button onClick={() => setShowAnswers(prev => !prev)} className={`px-3 py-2 rounded-xl text-xs font-bold flex items-center gap-1.5 transition-colors ${showAnswers ? 'bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300' : 'bg-gray-100 dark:bg-gray-800 text-gray-600 dark:text-gray-300'}`}>
+                      {showAnswers ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />} Answer Key
+                  </button>
               </div>
               
               <div className="flex-1 overflow-y-auto p-4 custom-scrollbar pb-28">
-                  <div className="bg-gray-50 dark:bg-gray-800 p-8 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700 min-h-[500px] text-gray-900 dark:text-gray-200 font-serif text-base leading-relaxed mb-6">
-                      <pre className="whitespace-pre-wrap">{paperContent}</pre>
+                  {(paperCached || loading) && (
+                      <div className="mb-4 flex items-center justify-between gap-2 px-4 py-3 rounded-xl bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 text-xs font-bold">
+                          <span className="flex items-center gap-1.5"><Database className="w-3.5 h-3.5" /> {loading ? 'Generating a fresh paper...' : 'Cached paper'}</span>
+                          {loading ? (
+                              <button onClick={handleCancel} className="flex items-center gap-1 hover:underline">
+                                  <Loader2 className="w-3 h-3 animate-spin" /> Cancel
+                              </button>
+                          ) : (
+                              <button onClick={regeneratePaper} className="flex items-center gap-1 hover:underline">
+                                  <RefreshCw className="w-3 h-3" /> Regenerate?
+                              </button>
+                          )}
+                      </div>
+                  )}
+                  {paper && (
+                  <div className="bg-gray-50 dark:bg-gray-800 p-6 rounded-2xl shadow-sm border border-gray-200 dark:border-gray-700 text-gray-900 dark:text-gray-200 font-serif text-base leading-relaxed mb-6">
+                      <div className="text-center border-b-2 border-gray-900 dark:border-gray-500 pb-3 mb-4">
+                          <h3 className="font-black uppercase tracking-wide">CBSE Sample Question Paper ({paper.session})</h3>
+                          <p className="text-sm font-bold mt-1">Class {paper.classLevel} · {paper.subject}</p>
+                          <p className="text-xs font-bold mt-1 flex justify-between"><span>Time: {paper.duration}</span><span>Maximum Marks: {paper.totalMarks}</span></p>
+                      </div>
+                      {paper.generalInstructions.length > 0 && (
+                          <div className="mb-6 text-sm">
+                              <p className="font-bold mb-1">General Instructions:</p>
+                              <ol className="list-decimal ml-5 space-y-0.5">
+                                  {paper.generalInstructions.map((g, i) => <li key={i}>{g}</li>)}
+                              </ol>
+                          </div>
+                      )}
+                      {paper.sections.map(section => (
+                          <div key={section.id} className="mb-6">
+                              <h4 className="font-black text-sm uppercase tracking-wider border-b border-gray-300 dark:border-gray-600 pb-1 mb-3 flex justify-between gap-2">
+                                  <span>Section {section.id} · {section.title}</span>
+                                  <span className="shrink-0">{section.questions.length} × {section.marksPerQuestion} = {section.questions.length * section.marksPerQuestion}</span>
+                              </h4>
+                              <div className="space-y-4">
+                                  {section.questions.map(q => (
+                                      <div key={q.number} className="text-sm">
+                                          {renderPaperBody(q, `Q${q.number}.`, q.marks)}
+                                          {q.alternative && (
+                                              <>
+                                                  <p className="text-center font-bold text-xs my-2">OR</p>
+                                                  {renderPaperBody(q.alternative, '', q.marks)}
+                                              </>
+                                          )}
+                                      </div>
+                                  ))}
+                              </div>
+                          </div>
+                      ))}
                   </div>
+                  )}
                   
                   <div className="flex gap-3 justify-center overflow-x-auto no-scrollbar py-2">
                       <button onClick={handleSavePaper} className="px-5 py-3 text-sm font-bold text-white bg-indigo-600 hover:bg-indigo-700 rounded-xl flex items-center gap-2 shadow-lg transition-all active:scale-95 shrink-0">
@@ -215,6 +439,7 @@ const QuizMaker: React.FC<QuizMakerProps> = ({ classLevel, onQuizComplete, histo
            
            <div className="flex gap-4 justify-center">
              <button onClick={() => setView('setup')} className="bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 font-bold py-3.5 px-8 rounded-2xl transition-colors">Done</button>
+             <button onClick={() => startQuiz(questions)} title="Repeat this set" className="bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 text-gray-700 dark:text-gray-200 font-bold py-3.5 px-4 rounded-2xl transition-colors"><Repeat className="w-5 h-5" /></button>
              <button onClick={handleGenerate} className="bg-indigo-600 text-white font-bold py-3.5 px-8 rounded-2xl shadow-lg hover:bg-indigo-700 transition-colors">Retry</button>
            </div>
         </div>
@@ -224,41 +449,78 @@ const QuizMaker: React.FC<QuizMakerProps> = ({ classLevel, onQuizComplete, histo
 
   if (view === 'quiz') {
     const q = questions[currentQIndex];
+    const choices = q.format === 'true-false' ? ['True', 'False'] : q.format === 'fill-blank' ? [] : q.options;
+    const formatLabel = QUIZ_FORMATS.find(f => f.value === q.format)?.label;
     return (
       <div className="flex flex-col h-full p-4 overflow-hidden relative">
         <div className="flex justify-between items-center mb-6 px-2 shrink-0 z-20">
-             <span className="text-xs font-bold uppercase tracking-widest text-gray-400 bg-gray-100 dark:bg-gray-800 px-3 py-1 rounded-full">Q{currentQIndex + 1} of {questions.length}</span>
+             <span className="text-xs font-bold uppercase tracking-widest text-gray-400 bg-gray-100 dark:bg-gray-800 px-3 py-1 rounded-full">Q{currentQIndex + 1} of {questions.length} · {formatLabel}</span>
              <span className="bg-indigo-100 dark:bg-indigo-900/30 text-indigo-700 dark:text-indigo-300 px-3 py-1 rounded-full text-xs font-bold">Score: {score}</span>
         </div>
 
         <div className="bg-white dark:bg-gray-800 p-6 rounded-[2rem] shadow-xl border border-gray-100 dark:border-gray-700 flex-1 flex flex-col overflow-y-auto custom-scrollbar relative z-10">
-          <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-8 leading-snug">{q.question}</h3>
+          {q.format === 'case-based' && (
+            <div className="p-4 mb-6 bg-gray-50 dark:bg-gray-900/50 rounded-xl border-l-4 border-indigo-400 text-sm text-gray-700 dark:text-gray-300 leading-relaxed">
+              <span className="font-bold block mb-1 uppercase text-xs tracking-wider text-gray-400">Read the case</span>
+              <RichText text={q.passage} />
+            </div>
+          )}
+          {q.format === 'assertion-reason' && (
+            <div className="space-y-2 mb-6 text-sm text-gray-800 dark:text-gray-200">
+              <p><span className="font-black text-indigo-600 dark:text-indigo-400">Assertion (A):</span> <RichText text={q.assertion} inline /></p>
+              <p><span className="font-black text-indigo-600 dark:text-indigo-400">Reason (R):</span> <RichText text={q.reason} inline /></p>
+            </div>
+          )}
+          <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-8 leading-snug"><RichText text={q.question} inline /></h3>
           
+          {q.format === 'fill-blank' ? (
+            <div className="mb-8">
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={blankInput}
+                  onChange={(e) => setBlankInput(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') submitAnswer(blankInput); }}
+                  disabled={isAnswered}
+                  placeholder="Type your answer..."
+                  className={`flex-1 p-4 rounded-xl border-2 outline-none text-sm font-bold dark:text-white transition-all ${!isAnswered ? 'border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/30 focus:border-indigo-500' : checkQuizAnswer(q, blankInput) ? 'bg-green-100 border-green-500 text-green-800 dark:bg-green-900/40 dark:text-green-200' : 'bg-red-100 border-red-500 text-red-800 dark:bg-red-900/40 dark:text-red-200'}`}
+                />
+                {!isAnswered && (
+                  <button onClick={() => submitAnswer(blankInput)} disabled={!blankInput.trim()} className="px-5 rounded-xl bg-indigo-600 hover:bg-indigo-700 text-white font-bold text-sm disabled:opacity-50 transition-colors">Check</button>
+                )}
+              </div>
+              {isAnswered && !checkQuizAnswer(q, blankInput) && (
+                <p className="mt-3 text-sm font-bold text-green-700 dark:text-green-300">Correct answer: <RichText text={formatCorrectAnswer(q)} inline /></p>
+              )}
+            </div>
+          ) : (
           <div className="space-y-3 mb-8">
-            {q.options.map((opt, idx) => {
+            {choices.map((opt, idx) => {
+              const isCorrect = checkQuizAnswer(q, opt);
               let btnClass = "w-full p-4 rounded-xl border-2 text-left transition-all relative text-sm font-bold ";
               if (!isAnswered) {
                 btnClass += "border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/30 dark:text-white hover:border-indigo-200 hover:bg-indigo-50 dark:hover:bg-indigo-900/20";
               } else {
-                if (opt === q.correctAnswer) btnClass += "bg-green-100 border-green-500 text-green-800 dark:bg-green-900/40 dark:text-green-200 dark:border-green-500/50";
+                if (isCorrect) btnClass += "bg-green-100 border-green-500 text-green-800 dark:bg-green-900/40 dark:text-green-200 dark:border-green-500/50";
                 else if (opt === selectedOption) btnClass += "bg-red-100 border-red-500 text-red-800 dark:bg-red-900/40 dark:text-red-200 dark:border-red-500/50";
                 else btnClass += "opacity-40 bg-gray-50 dark:bg-gray-800 border-transparent dark:text-gray-400";
               }
               return (
-                <button key={idx} onClick={() => handleOptionClick(opt)} disabled={isAnswered} className={btnClass}>
+                <button key={idx} onClick={() => submitAnswer(opt)} disabled={isAnswered} className={btnClass}>
                   <div className="flex items-center gap-3">
-                      <span className={`w-8 h-8 rounded-lg flex items-center justify-center text-xs font-black ${isAnswered && opt === q.correctAnswer ? 'bg-green-600 text-white' : 'bg-white dark:bg-gray-600 text-gray-500 dark:text-gray-300 shadow-sm'}`}>{String.fromCharCode(65 + idx)}</span>
-                      <span>{opt}</span>
+                      <span className={`w-8 h-8 rounded-lg flex items-center justify-center text-xs font-black ${isAnswered && isCorrect ? 'bg-green-600 text-white' : 'bg-white dark:bg-gray-600 text-gray-500 dark:text-gray-300 shadow-sm'}`}>{q.format === 'true-false' ? opt[0] : String.fromCharCode(65 + idx)}</span>
+                      <RichText text={opt} inline />
                   </div>
                 </button>
               );
             })}
           </div>
+          )}
           
           {isAnswered && (
             <div className="mt-auto animate-fade-in-up pb-20">
               <div className="p-4 bg-blue-50 dark:bg-blue-900/20 rounded-xl mb-4 text-sm text-blue-800 dark:text-blue-200 border border-blue-100 dark:border-blue-900/30">
-                <span className="font-bold block mb-1 uppercase text-xs tracking-wider opacity-70">Explanation</span> {q.explanation}
+                <span className="font-bold block mb-1 uppercase text-xs tracking-wider opacity-70">Explanation</span> <RichText text={q.explanation} inline />
               </div>
               <button onClick={nextQuestion} className="w-full bg-gray-900 dark:bg-white text-white dark:text-gray-900 font-bold py-4 rounded-xl shadow-lg text-lg hover:opacity-90 transition-opacity">
                 {currentQIndex < questions.length - 1 ? "Next Question" : "See Results"}
@@ -294,7 +556,7 @@ const QuizMaker: React.FC<QuizMakerProps> = ({ classLevel, onQuizComplete, histo
                     onClick={() => setMode('mcq')}
                     className={`flex-1 py-3 text-center rounded-xl font-bold transition-all text-sm ${mode === 'mcq' ? 'bg-white dark:bg-gray-700 shadow-sm text-indigo-600 dark:text-white' : 'text-gray-500 dark:text-gray-400'}`}
                 >
-                    MCQ Challenge
+                    Quiz Challenge
                 </button>
                 <button 
                     onClick={() => setMode('paper')}
@@ -330,6 +592,39 @@ const QuizMaker: React.FC<QuizMakerProps> = ({ classLevel, onQuizComplete, histo
                     />
                   </div>
               )}
+              {mode === 'mcq' && (
+                  <>
+                    <div>
+                      <label className="block text-xs font-bold uppercase text-gray-400 dark:text-gray-500 mb-2 ml-1">Questions</label>
+                      <div className="flex gap-2">
+                        {QUIZ_COUNTS.map(n => (
+                          <button key={n} onClick={() => setQuizConfig(prev => ({ ...prev, count: n }))} className={`flex-1 py-2.5 rounded-xl text-sm font-bold transition-all ${quizConfig.count === n ? 'bg-indigo-600 text-white shadow-sm' : 'bg-gray-50 dark:bg-gray-800 text-gray-500 dark:text-gray-400 hover:bg-gray-100'}`}>{n}</button>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold uppercase text-gray-400 dark:text-gray-500 mb-2 ml-1">Difficulty</label>
+                      <div className="flex p-1 bg-gray-100 dark:bg-gray-800 rounded-xl">
+                        {QUIZ_DIFFICULTIES.map(d => (
+                          <button key={d.value} onClick={() => setQuizConfig(prev => ({ ...prev, difficulty: d.value }))} className={`flex-1 py-2 rounded-lg text-xs font-bold transition-all ${quizConfig.difficulty === d.value ? 'bg-white dark:bg-gray-700 shadow-sm text-indigo-600 dark:text-white' : 'text-gray-500 dark:text-gray-400'}`}>{d.label}</button>
+                        ))}
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-xs font-bold uppercase text-gray-400 dark:text-gray-500 mb-2 ml-1">Question Types</label>
+                      <div className="flex flex-wrap gap-2">
+                        {QUIZ_FORMATS.map(f => {
+                          const active = quizConfig.formats.includes(f.value);
+                          return (
+                            <button key={f.value} onClick={() => toggleFormat(f.value)} className={`px-3 py-2 rounded-xl text-xs font-bold border transition-all ${active ? 'bg-indigo-50 dark:bg-indigo-900/30 border-indigo-500 text-indigo-700 dark:text-indigo-300' : 'border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-800'}`}>
+                              {active && <CheckCircle className="w-3 h-3 inline mr-1 -mt-0.5" />}{f.label}
+                            </button>
+                          );
+                        })}
+                      </div>
+                    </div>
+                  </>
+              )}
             </div>
 
             <button
@@ -340,6 +635,24 @@ const QuizMaker: React.FC<QuizMakerProps> = ({ classLevel, onQuizComplete, histo
               {loading ? <Loader2 className="animate-spin w-5 h-5" /> : (mode === 'mcq' ? <BrainCircuit className="w-5 h-5"/> : <FileText className="w-5 h-5"/>)}
               {loading ? "Generating..." : (mode === 'mcq' ? "Start Quiz" : "Generate Paper")}
             </button>
+
+            {loading && (
+              <button
+                onClick={handleCancel}
+                className="w-full mt-3 py-3 rounded-xl text-sm font-bold text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 hover:bg-red-100 flex justify-center items-center gap-2 transition-colors"
+              >
+                <X className="w-4 h-4" /> Cancel
+              </button>
+            )}
+
+            {mode === 'mcq' && repeatSet && !loading && (
+              <button
+                onClick={() => startQuiz(repeatSet)}
+                className="w-full mt-3 py-3 rounded-xl text-sm font-bold text-indigo-600 dark:text-indigo-300 bg-indigo-50 dark:bg-indigo-900/20 hover:bg-indigo-100 flex justify-center items-center gap-2 transition-colors"
+              >
+                <Repeat className="w-4 h-4" /> Repeat last set ({repeatSet.length} Qs)
+              </button>
+            )}
           </div>
       </div>
     </div>
@@ -0,0 +1,60 @@
+import React from 'react';
+import { parseRichText, parseInline, InlineNode } from '../services/richText';
+
+interface RichTextProps {
+  text: string;
+  inline?: boolean; // Single-line content (quiz options, paper questions): no block spacing
+  className?: string;
+}
+
+const renderInline = (nodes: InlineNode[]): React.ReactNode[] => nodes.map((node, i) => {
+  switch (node.type) {
+    case 'text': return <React.Fragment key={i}>{node.text}</React.Fragment>;
+    case 'sup': return <sup key={i}>{renderInline(node.children)}</sup>;
+    case 'sub': return <sub key={i}>{renderInline(node.children)}</sub>;
+    case 'frac':
+      return (
+        <span key={i} className="inline-flex flex-col items-center align-middle mx-0.5 text-[0.85em] leading-tight">
+            <span className="px-0.5">{renderInline(node.num)}</span>
+            <span className="px-0.5 border-t border-current">{renderInline(node.den)}</span>
+        </span>
+      );
+    case 'sqrt': return <span key={i}>√<span className="border-t border-current">{renderInline(node.children)}</span></span>;
+    case 'bold': return <strong key={i}>{renderInline(node.children)}</strong>;
+    case 'math': return <span key={i} className="font-serif">{renderInline(node.children)}</span>;
+  }
+});
+
+// Renders the maths / chemistry / table subset from services/richText as React elements
+const RichText: React.FC<RichTextProps> = ({ text, inline, className }) => {
+  if (inline) return <span className={className}>{renderInline(parseInline(text))}</span>;
+
+  return (
+    <div className={className}>
+        {parseRichText(text).map((block, i) => {
+            switch (block.type) {
+                case 'blank': return <div key={i} className="h-2" />;
+                case 'line': return <div key={i} className="mb-2">{renderInline(block.children)}</div>;
+                case 'display': return <div key={i} className="my-3 text-center font-serif text-base">{renderInline(block.children)}</div>;
+                case 'table':
+                    return (
+                        <div key={i} className="my-3 overflow-x-auto">
+                            <table className="text-xs border-collapse">
+                                <thead>
+                                    <tr>{block.header.map((cell, c) => <th key={c} className="border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-900/50 px-3 py-1.5 text-left font-bold">{renderInline(cell)}</th>)}</tr>
+                                </thead>
+                                <tbody>
+                                    {block.rows.map((row, r) => (
+                                        <tr key={r}>{row.map((cell, c) => <td key={c} className="border border-gray-200 dark:border-gray-700 px-3 py-1.5">{renderInline(cell)}</td>)}</tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    );
+            }
+        })}
+    </div>
+  );
+};
+
+export default RichText;
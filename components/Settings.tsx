@@ -1,7 +1,26 @@
 import React from 'react';
-import { CREATOR_CREDIT, CLASSES } from '../constants';
+import { CREATOR_CREDIT, CLASSES, OUTPUT_LANGUAGES } from '../constants';
 import { UserSettings, ClassLevel } from '../types';
-import { Moon, Sun, User, Save, LogOut, Mail, Award, BookOpen, Heart } from 'lucide-react';
+import { UsageSummary } from '../services/usageQuota';
+import { fetchProxyUsage } from '../services/proxyProvider';
+import AIDiagnostics from './AIDiagnostics';
+import AICallLog from './AICallLog';
+import { Moon, Sun, User, Save, LogOut, Mail, Award, BookOpen, Heart, Activity, ChevronDown, Gauge, ListTree } from 'lucide-react';
+
+const UsageBar: React.FC<{ label: string; used: number; limit: number }> = ({ label, used, limit }) => {
+  const percent = Math.min(100, Math.round((used / limit) * 100));
+  return (
+    <div>
+      <div className="flex justify-between text-xs font-bold mb-1">
+          <span className="text-gray-500">{label}</span>
+          <span className={percent >= 100 ? 'text-red-500' : 'text-gray-700 dark:text-gray-300'}>{used} / {limit}</span>
+      </div>
+      <div className="h-2 rounded-full bg-gray-100 dark:bg-gray-900 overflow-hidden">
+          <div className={`h-full rounded-full transition-all ${percent >= 100 ? 'bg-red-500' : percent >= 75 ? 'bg-amber-500' : 'bg-indigo-500'}`} style={{ width: `${percent}%` }}></div>
+      </div>
+    </div>
+  );
+};
 
 interface SettingsProps {
   settings: UserSettings;
@@ -11,6 +30,18 @@ interface SettingsProps {
 
 const Settings: React.FC<SettingsProps> = ({ settings, updateSettings, onLogout }) => {
   const [localName, setLocalName] = React.useState(settings.name);
+  const [showDiagnostics, setShowDiagnostics] = React.useState(false);
+  const [showCallLog, setShowCallLog] = React.useState(false);
+  const [usage, setUsage] = React.useState<UsageSummary | null>(null);
+
+  // Refresh while open so the per-minute bar drains as requests age out. The AI server
+  // keeps the count; without one (mock AI) there is no meter.
+  React.useEffect(() => {
+    const load = () => fetchProxyUsage().then(setUsage);
+    load();
+    const timer = setInterval(load, 10000);
+    return () => clearInterval(timer);
+  }, [settings.username]);
 
   const handleSave = () => {
     updateSettings({ name: localName });
@@ -57,6 +88,21 @@ const Settings: React.FC<SettingsProps> = ({ settings, updateSettings, onLogout
                      ))}
                  </div>
              </div>
+             <div>
+                 <label className="text-xs font-bold text-gray-400 uppercase tracking-wider ml-1 mb-2 block">Answer Language</label>
+                 <div className="grid grid-cols-3 gap-2">
+                     {OUTPUT_LANGUAGES.map(l => (
+                         <button 
+                            key={l.value}
+                            onClick={() => updateSettings({language: l.value})}
+                            className={`py-3 rounded-xl text-sm font-bold transition-all border-2 ${(settings.language || 'English') === l.value ? 'border-indigo-600 bg-indigo-50 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300' : 'border-transparent bg-gray-50 dark:bg-gray-900 text-gray-500 hover:bg-gray-100 dark:hover:bg-gray-800'}`}
+                         >
+                             {l.label}
+                         </button>
+                     ))}
+                 </div>
+                 <p className="text-[11px] text-gray-400 font-medium mt-2 ml-1">Hindi and Sanskrit are always answered in Devanagari unless you pick a language for a question.</p>
+             </div>
           </div>
       </div>
 
@@ -80,13 +126,61 @@ const Settings: React.FC<SettingsProps> = ({ settings, updateSettings, onLogout
               </button>
           </div>
           
-          <div className="p-6 flex items-center gap-4">
+          <div className="p-6 flex items-center gap-4 border-b border-gray-50 dark:border-gray-700/50">
               <div className="p-3 bg-emerald-100 dark:bg-emerald-900/30 text-emerald-600 rounded-2xl"><Mail className="w-5 h-5"/></div>
               <div>
                   <h4 className="font-bold text-gray-900 dark:text-white text-base">Linked Email</h4>
                   <p className="text-xs text-gray-500 font-medium">{settings.email}</p>
               </div>
           </div>
+
+          <div className="p-6 border-b border-gray-50 dark:border-gray-700/50">
+              <div className="flex items-center gap-4 mb-4">
+                  <div className="p-3 bg-amber-100 dark:bg-amber-900/30 text-amber-600 rounded-2xl"><Gauge className="w-5 h-5"/></div>
+                  <div>
+                      <h4 className="font-bold text-gray-900 dark:text-white text-base">AI Usage</h4>
+                      <p className="text-xs text-gray-500 font-medium">Credits refill at midnight. Cached answers and failed requests are free.</p>
+                  </div>
+              </div>
+              {usage && (
+                  <div className="space-y-3">
+                      <UsageBar label="Today" used={usage.usedToday} limit={usage.dailyLimit} />
+                      <UsageBar label="This minute" used={usage.usedThisMinute} limit={usage.minuteLimit} />
+                  </div>
+              )}
+          </div>
+
+          <button onClick={() => setShowDiagnostics(!showDiagnostics)} className="w-full p-6 flex items-center justify-between text-left">
+              <div className="flex items-center gap-4">
+                  <div className="p-3 bg-sky-100 dark:bg-sky-900/30 text-sky-600 rounded-2xl"><Activity className="w-5 h-5"/></div>
+                  <div>
+                      <h4 className="font-bold text-gray-900 dark:text-white text-base">AI Diagnostics</h4>
+                      <p className="text-xs text-gray-500 font-medium">Key pool health</p>
+                  </div>
+              </div>
+              <ChevronDown className={`w-5 h-5 text-gray-400 transition-transform ${showDiagnostics ? 'rotate-180' : ''}`} />
+          </button>
+          {showDiagnostics && (
+              <div className="px-6 pb-6 animate-fade-in">
+                  <AIDiagnostics />
+              </div>
+          )}
+
+          <button onClick={() => setShowCallLog(!showCallLog)} className="w-full p-6 flex items-center justify-between text-left border-t border-gray-50 dark:border-gray-700/50">
+              <div className="flex items-center gap-4">
+                  <div className="p-3 bg-violet-100 dark:bg-violet-900/30 text-violet-600 rounded-2xl"><ListTree className="w-5 h-5"/></div>
+                  <div>
+                      <h4 className="font-bold text-gray-900 dark:text-white text-base">AI Call Log</h4>
+                      <p className="text-xs text-gray-500 font-medium">Models, fallbacks, latency and tokens</p>
+                  </div>
+              </div>
+              <ChevronDown className={`w-5 h-5 text-gray-400 transition-transform ${showCallLog ? 'rotate-180' : ''}`} />
+          </button>
+          {showCallLog && (
+              <div className="px-6 pb-6 animate-fade-in">
+                  <AICallLog />
+              </div>
+          )}
       </div>
 
       {/* Logout */}
@@ -1,69 +1,334 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { SUBJECTS, MODES } from '../constants';
-import { Subject, ClassLevel, AnswerMode, Bookmark } from '../types';
-import { getStudyAnswer } from '../services/geminiService';
-import { Send, Sparkles, AlertCircle, Trash2, Bookmark as BookmarkIcon, ChevronDown, GraduationCap, BookOpen, User, Bot, Loader2 } from 'lucide-react';
+import { SUBJECTS, MODES, OUTPUT_LANGUAGES } from '../constants';
+import { Subject, ClassLevel, AnswerMode, OutputLanguage, Bookmark, StudySession, StudyThread, AskRecord } from '../types';
+import { ai } from '../services/ai';
+import { db } from '../services/db';
+import { compressImage } from '../services/imageService';
+import { responseCache, cacheKeys, isCacheable } from '../services/responseCache';
+import { defaultLanguageFor, resolveLanguage } from '../services/language';
+import { trackRefusal } from '../services/aiCall';
+import AskHistory from './AskHistory';
+import AnswerChecker from './AnswerChecker';
+import TranslateMenu from './TranslateMenu';
+import RichText from './RichText';
+import { copyAsPlainText } from '../services/richText';
+import { Send, Sparkles, AlertCircle, Trash2, Bookmark as BookmarkIcon, ChevronDown, GraduationCap, BookOpen, User, Bot, Loader2, Square, Plus, Pencil, GitBranch, History, ImagePlus, X, RefreshCw, Database, ClipboardCheck, Copy } from 'lucide-react';
 
 interface StudyBuddyProps {
   classLevel: ClassLevel;
+  username: string;
+  language?: OutputLanguage; // Preference from Settings
   onBookmark: (b: Bookmark) => void;
 }
 
-const StudyBuddy: React.FC<StudyBuddyProps> = ({ classLevel, onBookmark }) => {
+const StudyBuddy: React.FC<StudyBuddyProps> = ({ classLevel, username, language, onBookmark }) => {
   const [subject, setSubject] = useState<Subject>('Mathematics');
   const [mode, setMode] = useState<AnswerMode>('Exam Ready');
+  // Applies to the next question only, then falls back to the subject default
+  const [languageOverride, setLanguageOverride] = useState<OutputLanguage | null>(null);
   const [question, setQuestion] = useState('');
-  const [answer, setAnswer] = useState<string | null>(null);
-  const [lastQuestion, setLastQuestion] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  const [streaming, setStreaming] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  
+  const [view, setView] = useState<'chat' | 'history' | 'check'>('chat');
+
+  // Threads (all subjects) + the one currently open
+  const [threads, setThreads] = useState<StudyThread[]>([]);
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(null);
+
+  // The in-flight turn, shown below the thread until it is committed
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const [pendingImage, setPendingImage] = useState<string | null>(null);
+  const [answer, setAnswer] = useState<string | null>(null);
+
+  // Photo waiting to be sent with the next question
+  const [attachment, setAttachment] = useState<string | null>(null);
+  const [attaching, setAttaching] = useState(false);
+
   const scrollRef = useRef<HTMLDivElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const unmountedRef = useRef(false);
+
+  // Keys tailored to username
+  const THREADS_KEY = `study_buddy_threads_${username}`;
+
+  // Load Threads
+  useEffect(() => {
+    if (!username) return;
+    const saved = localStorage.getItem(THREADS_KEY);
+    setThreads(saved ? JSON.parse(saved) : []);
+    setActiveThreadId(null);
+  }, [username]);
+
+  // Save Threads
+  useEffect(() => {
+    if (username) localStorage.setItem(THREADS_KEY, JSON.stringify(threads));
+  }, [threads, username]);
+
+  // Cancel any in-flight stream if the component goes away
+  useEffect(() => () => {
+    unmountedRef.current = true;
+    abortRef.current?.abort();
+  }, []);
+
+  const subjectThreads = threads
+    .filter(t => t.subject === subject)
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+  const activeThread = subjectThreads.find(t => t.id === activeThreadId) || null;
+  const turns = activeThread?.turns || [];
+
+  // Switching subject reopens the most recent thread for that subject
+  useEffect(() => {
+    if (!activeThread) setActiveThreadId(subjectThreads[0]?.id || null);
+  }, [subject, threads]);
 
   useEffect(() => {
     // Scroll to bottom when answer arrives or loading starts
-    if ((answer || loading) && scrollRef.current) {
+    if ((answer || loading || turns.length) && scrollRef.current) {
         scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
     }
-  }, [answer, loading]);
+  }, [answer, loading, turns.length, activeThreadId]);
+
+  const updateThread = (id: string, patch: (t: StudyThread) => StudyThread) => {
+    setThreads(prev => prev.map(t => t.id === id ? patch(t) : t));
+  };
+
+  const createThread = (title: string, seedTurns: StudySession[] = [], threadSubject: Subject = subject): StudyThread => {
+    const thread: StudyThread = {
+      id: Date.now().toString(),
+      subject: threadSubject,
+      title,
+      turns: seedTurns,
+      updatedAt: Date.now()
+    };
+    setThreads(prev => [thread, ...prev]);
+    setActiveThreadId(thread.id);
+    return thread;
+  };
 
   const handleAsk = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!question.trim()) {
+    if (loading || streaming || attaching) return;
+    if (!question.trim() && !attachment) {
       setError("Please enter a question.");
       return;
     }
+    const override = languageOverride;
+    setLanguageOverride(null);
+    await ask(question.trim() || "Explain this image.", subject, mode, activeThread, attachment || undefined, false, override);
+  };
+
+  const commitTurn = (thread: StudyThread, turn: StudySession, askSubject: Subject, askMode: AnswerMode) => {
+    updateThread(thread.id, t => ({ ...t, turns: [...t.turns, turn], updatedAt: turn.timestamp }));
+    // Service errors come back as a friendly "⚠️" string; only real answers go to history
+    if (!turn.answer.startsWith('⚠️')) {
+      const { cached, ...session } = turn;
+      const record: AskRecord = { ...session, id: turn.timestamp.toString(), subject: askSubject, classLevel, mode: askMode };
+      db.saveAskRecord(username, record).catch(err => {
+        console.error("History save failed", err);
+        setError("⚠️ This answer couldn't be saved to your Ask History.");
+      });
+    }
+  };
+
+  const ask = async (asked: string, askSubject: Subject, askMode: AnswerMode, existing: StudyThread | null, image?: string, fresh = false, override?: OutputLanguage | null) => {
+    const thread = existing || createThread(asked.length > 40 ? asked.slice(0, 40) + '…' : asked, [], askSubject);
+    const history = thread.turns;
+    const askLanguage = resolveLanguage(askSubject, language, override);
+
+    // Only stand-alone text questions are cacheable; follow-ups and photos depend on context
+    const cacheKey = history.length === 0 && !image ? cacheKeys.answer(asked, askSubject, classLevel, askMode, askLanguage) : null;
+    if (cacheKey && !fresh) {
+      const cachedAnswer = await responseCache.get<string>(cacheKey);
+      if (cachedAnswer) {
+        setQuestion('');
+        setError(null);
+        commitTurn(thread, { question: asked, answer: cachedAnswer, cached: true, mode: askMode, language: askLanguage, timestamp: Date.now() }, askSubject, askMode);
+        return;
+      }
+    }
+
     setError(null);
     setLoading(true);
     setAnswer(null);
-    setLastQuestion(question);
-    
+    setPendingQuestion(asked);
+    setPendingImage(image || null);
+
     // Clear input immediately for better UX
     setQuestion('');
+    setAttachment(null);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const refusal = trackRefusal();
 
-    const result = await getStudyAnswer(question, subject, classLevel, mode);
-    setAnswer(result);
+    const result = await ai.streamStudyAnswer(asked, askSubject, classLevel, askMode, history, (partial) => {
+      if (controller.signal.aborted) return;
+      setLoading(false);
+      setStreaming(true);
+      setAnswer(partial);
+    }, image, askLanguage, { signal: controller.signal, onRefused: refusal.onRefused });
+
+    if (abortRef.current === controller) abortRef.current = null;
+    // Left the screen mid-answer: nothing to show it in
+    if (unmountedRef.current) return;
+
+    const refused = refusal.message();
+    if (refused) {
+      // Out of AI credits or signed out: give the question back so it can be sent later
+      setError(refused);
+      setQuestion(asked);
+      setAttachment(image || null);
+    } else if (result) {
+      commitTurn(thread, { question: asked, answer: result, image, mode: askMode, language: askLanguage, timestamp: Date.now() }, askSubject, askMode);
+      // Partial answers from a Stop are not worth reusing
+      if (cacheKey && isCacheable(result) && !controller.signal.aborted) {
+        responseCache.set(cacheKey, 'answer', result);
+      }
+    } else {
+      // An empty result means the user stopped before the first word arrived
+      setError("Stopped before an answer was written.");
+    }
+    setPendingQuestion(null);
+    setPendingImage(null);
+    setAnswer(null);
     setLoading(false);
+    setStreaming(false);
   };
 
-  const handleSave = () => {
-    if (answer && lastQuestion) {
-      onBookmark({
-        id: Date.now().toString(),
-        type: 'qa',
-        title: lastQuestion,
-        content: answer,
-        timestamp: Date.now()
-      });
-      alert('Answer saved to Bookmarks!');
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  // Drop a cached turn and ask the AI again, bypassing the cache
+  const regenerate = (index: number) => {
+    if (!activeThread || loading || streaming) return;
+    const turn = activeThread.turns[index];
+    const trimmed = { ...activeThread, turns: activeThread.turns.slice(0, index) };
+    updateThread(activeThread.id, () => trimmed);
+    // The turn's own mode and language, not whatever is selected now; older turns didn't record them
+    ask(turn.question, activeThread.subject, turn.mode || mode, trimmed, turn.image, true, turn.language);
+  };
+
+  const handleReask = (record: AskRecord, newMode: AnswerMode) => {
+    if (loading || streaming) return;
+    setView('chat');
+    setSubject(record.subject);
+    setMode(newMode);
+    ask(record.question, record.subject, newMode, null, record.image);
+  };
+
+  // --- Attachments ---
+
+  const attachImage = async (file: Blob) => {
+    setAttaching(true);
+    setError(null);
+    try {
+      setAttachment(await compressImage(file));
+    } catch (err: any) {
+      setError(err.message || "Could not attach that image.");
+    } finally {
+      setAttaching(false);
     }
   };
 
-  const clear = () => {
-    setQuestion('');
-    setAnswer(null);
-    setLastQuestion(null);
+  const handleFilePick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) attachImage(file);
+    e.target.value = '';
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files: File[] = Array.from(e.clipboardData.files as ArrayLike<File>);
+    const file = files.find(f => f.type.startsWith('image/'));
+    if (file) {
+      e.preventDefault();
+      attachImage(file);
+    }
+  };
+
+  const handleSave = (turn: StudySession) => {
+    onBookmark({
+      id: Date.now().toString(),
+      type: 'qa',
+      title: turn.question,
+      content: turn.answer,
+      image: turn.image,
+      subject: activeThread?.subject,
+      timestamp: Date.now()
+    });
+    alert('Answer saved to Bookmarks!');
+  };
+
+  const handleCopy = (text: string) => {
+    copyAsPlainText(text)
+      .then(() => alert('Answer copied!'))
+      .catch(() => alert('Could not copy. Please select the text and copy it manually.'));
+  };
+
+  // --- Thread Actions ---
+
+  const newThread = () => {
+    if (loading || streaming) return;
+    setActiveThreadId(null);
     setError(null);
+  };
+
+  const branchFrom = (index: number) => {
+    if (!activeThread || loading || streaming) return;
+    createThread(`${activeThread.title} (branch)`, activeThread.turns.slice(0, index + 1));
+  };
+
+  const renameThread = () => {
+    if (!activeThread) return;
+    const title = prompt("Rename this thread", activeThread.title);
+    if (title && title.trim()) updateThread(activeThread.id, t => ({ ...t, title: title.trim() }));
+  };
+
+  const clearThread = () => {
+    if (!activeThread || loading || streaming) return;
+    if (!confirm("Clear all messages in this thread?")) return;
+    updateThread(activeThread.id, t => ({ ...t, turns: [], updatedAt: Date.now() }));
+    setError(null);
+  };
+
+  const renderAnswer = (text: string) => (
+    <div className="prose dark:prose-invert max-w-none prose-p:text-gray-700 dark:prose-p:text-gray-300 prose-headings:text-gray-900 dark:prose-headings:text-white text-sm leading-relaxed">
+        <RichText text={text} />
+    </div>
+  );
+
+  const renderQuestion = (text: string, image?: string | null) => (
+    <div className="flex justify-end animate-fade-in-up">
+        <div className="bg-indigo-600 text-white px-5 py-3 rounded-2xl rounded-tr-sm max-w-[85%] shadow-md text-sm font-medium leading-relaxed">
+            {image && <img src={image} alt="Attached question" className="rounded-xl mb-2 max-h-48 w-auto object-contain bg-white/10" />}
+            {text}
+        </div>
+    </div>
+  );
+
+  const renderAnswerCard = (children: React.ReactNode) => (
+    <div className="flex justify-start animate-fade-in-up w-full pb-4">
+        <div className="flex gap-3 max-w-full items-start">
+            <div className="w-8 h-8 rounded-xl bg-gradient-to-br from-purple-500 to-indigo-600 flex items-center justify-center shrink-0 shadow-sm mt-1">
+                <Sparkles className="w-4 h-4 text-white" />
+            </div>
+            <div className="bg-white dark:bg-gray-800 rounded-2xl rounded-tl-sm shadow-sm border border-gray-100 dark:border-gray-700 p-6 flex-1 min-w-0">
+                {children}
+            </div>
+        </div>
+    </div>
+  );
+
+  const busy = loading || streaming;
+
+  if (view === 'history') {
+    return <AskHistory username={username} onBack={() => setView('chat')} onReask={handleReask} onBookmark={onBookmark} />;
+  }
+
+  if (view === 'check') {
+    return <AnswerChecker username={username} classLevel={classLevel} subject={subject} language={language} onBack={() => setView('chat')} />;
   }
 
   return (
@@ -77,11 +342,18 @@ const StudyBuddy: React.FC<StudyBuddyProps> = ({ classLevel, onBookmark }) => {
             </h1>
             <p className="text-gray-500 text-xs font-semibold">Class {classLevel} Assistant</p>
           </div>
-          
+
           <div className="flex gap-2">
+             <button onClick={() => setView('history')} title="Ask history" className="p-2 bg-gray-100 dark:bg-gray-800 rounded-xl hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors">
+                <History className="w-4 h-4 text-gray-600 dark:text-gray-300" />
+             </button>
+             <button onClick={() => setView('check')} disabled={busy} title="Check my answer" className="p-2 bg-gray-100 dark:bg-gray-800 rounded-xl hover:bg-gray-200 dark:hover:bg-gray-700 transition-colors disabled:opacity-50">
+                <ClipboardCheck className="w-4 h-4 text-gray-600 dark:text-gray-300" />
+             </button>
              <div className="relative group">
                 <select
                     value={subject}
+                    disabled={busy}
                     onChange={(e) => setSubject(e.target.value as Subject)}
                     className="appearance-none bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 pl-3 pr-8 py-2 rounded-xl text-xs font-bold outline-none transition-all cursor-pointer border border-transparent hover:border-gray-300 dark:hover:border-gray-600"
                 >
@@ -99,14 +371,46 @@ const StudyBuddy: React.FC<StudyBuddyProps> = ({ classLevel, onBookmark }) => {
                 </select>
                 <ChevronDown className="absolute right-2 top-2.5 w-3 h-3 text-indigo-400 pointer-events-none" />
              </div>
+             <div className="relative group">
+                <select
+                    value={languageOverride || ''}
+                    disabled={busy}
+                    onChange={(e) => setLanguageOverride((e.target.value || null) as OutputLanguage | null)}
+                    title="Answer language for the next question"
+                    className="appearance-none bg-gray-100 dark:bg-gray-800 hover:bg-gray-200 dark:hover:bg-gray-700 text-gray-700 dark:text-gray-200 pl-3 pr-8 py-2 rounded-xl text-xs font-bold outline-none transition-all cursor-pointer"
+                >
+                    <option value="">Auto ({defaultLanguageFor(subject, language)})</option>
+                    {OUTPUT_LANGUAGES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+                </select>
+                <ChevronDown className="absolute right-2 top-2.5 w-3 h-3 text-gray-400 pointer-events-none" />
+             </div>
           </div>
       </div>
 
+      {/* Thread Bar */}
+      <div className="bg-white dark:bg-gray-900 px-4 py-2 border-b border-gray-100 dark:border-gray-800 flex items-center gap-2 shrink-0 z-10">
+          <div className="relative flex-1 min-w-0">
+             <select
+                value={activeThread?.id || ''}
+                disabled={busy}
+                onChange={(e) => setActiveThreadId(e.target.value || null)}
+                className="w-full appearance-none bg-gray-50 dark:bg-gray-800 text-gray-700 dark:text-gray-200 pl-3 pr-8 py-2 rounded-xl text-xs font-bold outline-none cursor-pointer truncate"
+             >
+                <option value="">New conversation</option>
+                {subjectThreads.map(t => <option key={t.id} value={t.id}>{t.title} ({t.turns.length})</option>)}
+             </select>
+             <ChevronDown className="absolute right-2 top-2.5 w-3 h-3 text-gray-400 pointer-events-none" />
+          </div>
+          <button onClick={newThread} disabled={busy} title="New thread" className="p-2 rounded-xl bg-indigo-50 dark:bg-indigo-900/30 text-indigo-600 dark:text-indigo-300 hover:bg-indigo-100 disabled:opacity-50 transition-colors"><Plus className="w-4 h-4" /></button>
+          <button onClick={renameThread} disabled={!activeThread} title="Rename thread" className="p-2 rounded-xl bg-gray-50 dark:bg-gray-800 text-gray-500 hover:bg-gray-100 disabled:opacity-40 transition-colors"><Pencil className="w-4 h-4" /></button>
+          <button onClick={clearThread} disabled={!activeThread || busy} title="Clear thread" className="p-2 rounded-xl bg-gray-50 dark:bg-gray-800 text-gray-500 hover:text-red-500 hover:bg-red-50 disabled:opacity-40 transition-colors"><Trash2 className="w-4 h-4" /></button>
+      </div>
+
       {/* 2. Chat Area - Independent Scroll */}
       <div ref={scrollRef} className="flex-1 overflow-y-auto custom-scrollbar p-4 flex flex-col gap-6 relative">
-        
+
         {/* Empty State */}
-        {!answer && !loading && !lastQuestion && (
+        {turns.length === 0 && !pendingQuestion && (
             <div className="flex flex-col items-center justify-center h-full opacity-100 space-y-4">
                 <div className="w-20 h-20 bg-gradient-to-tr from-indigo-500 to-purple-500 rounded-3xl flex items-center justify-center shadow-lg shadow-indigo-200 dark:shadow-none animate-fade-in-up">
                     <Sparkles className="w-10 h-10 text-white" />
@@ -118,63 +422,102 @@ const StudyBuddy: React.FC<StudyBuddyProps> = ({ classLevel, onBookmark }) => {
             </div>
         )}
 
-        {/* User Question */}
-        {lastQuestion && (
-            <div className="flex justify-end animate-fade-in-up">
-                <div className="bg-indigo-600 text-white px-5 py-3 rounded-2xl rounded-tr-sm max-w-[85%] shadow-md text-sm font-medium leading-relaxed">
-                    {lastQuestion}
-                </div>
-            </div>
-        )}
-
-        {/* AI Answer */}
-        {(loading || answer) && (
-            <div className="flex justify-start animate-fade-in-up w-full pb-4">
-                <div className="flex gap-3 max-w-full items-start">
-                    <div className="w-8 h-8 rounded-xl bg-gradient-to-br from-purple-500 to-indigo-600 flex items-center justify-center shrink-0 shadow-sm mt-1">
-                        <Sparkles className="w-4 h-4 text-white" />
+        {/* Previous Turns */}
+        {turns.map((turn, index) => (
+            <React.Fragment key={turn.timestamp}>
+                {renderQuestion(turn.question, turn.image)}
+                {renderAnswerCard(<>
+                    {turn.cached && (
+                        <div className="mb-4 flex items-center justify-between gap-2 px-3 py-2 rounded-xl bg-amber-50 dark:bg-amber-900/20 text-amber-700 dark:text-amber-300 text-xs font-bold">
+                            <span className="flex items-center gap-1.5"><Database className="w-3.5 h-3.5" /> Cached answer</span>
+                            {index === turns.length - 1 && (
+                                <button onClick={() => regenerate(index)} disabled={busy} className="flex items-center gap-1 hover:underline disabled:opacity-50">
+                                    <RefreshCw className="w-3 h-3" /> Regenerate?
+                                </button>
+                            )}
+                        </div>
+                    )}
+                    {renderAnswer(turn.answer)}
+                    <div className="mt-4 pt-4 border-t border-gray-100 dark:border-gray-700 flex flex-wrap justify-end items-center gap-3">
+                         <TranslateMenu text={turn.answer} classLevel={classLevel} subject={activeThread?.subject} />
+                         <button onClick={() => handleCopy(turn.answer)} title="Copy as plain text" className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 text-xs font-bold text-gray-600 dark:text-gray-400 transition-colors">
+                            <Copy className="w-3.5 h-3.5" /> Copy
+                         </button>
+                         <button onClick={() => handleSave(turn)} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-50 dark:bg-indigo-900/30 hover:bg-indigo-100 text-xs font-bold text-indigo-700 dark:text-indigo-300 transition-colors">
+                            <BookmarkIcon className="w-3.5 h-3.5" /> Save
+                         </button>
+                         <button onClick={() => branchFrom(index)} disabled={busy} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 text-xs font-bold text-gray-600 dark:text-gray-400 transition-colors disabled:opacity-50">
+                            <GitBranch className="w-3.5 h-3.5" /> Branch
+                         </button>
                     </div>
-                    
-                    <div className="bg-white dark:bg-gray-800 rounded-2xl rounded-tl-sm shadow-sm border border-gray-100 dark:border-gray-700 p-6 flex-1 min-w-0">
-                        {loading ? (
-                            <div className="flex items-center gap-3 text-gray-500">
-                                <Loader2 className="w-5 h-5 animate-spin text-indigo-600" />
-                                <span className="text-sm font-bold animate-pulse text-indigo-600">Thinking...</span>
-                            </div>
-                        ) : (
-                            <>
-                                <div className="prose dark:prose-invert max-w-none prose-p:text-gray-700 dark:prose-p:text-gray-300 prose-headings:text-gray-900 dark:prose-headings:text-white text-sm leading-relaxed">
-                                    {answer?.split('\n').map((line, i) => (
-                                        <div key={i} className={`mb-2 ${line.trim() === '' ? 'h-2' : ''}`}>
-                                            {line}
-                                        </div>
-                                    ))}
-                                </div>
-                                
-                                <div className="mt-4 pt-4 border-t border-gray-100 dark:border-gray-700 flex justify-end gap-3">
-                                     <button onClick={handleSave} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-indigo-50 dark:bg-indigo-900/30 hover:bg-indigo-100 text-xs font-bold text-indigo-700 dark:text-indigo-300 transition-colors">
-                                        <BookmarkIcon className="w-3.5 h-3.5" /> Save
-                                     </button>
-                                     <button onClick={clear} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-gray-50 dark:bg-gray-700 hover:bg-gray-100 text-xs font-bold text-gray-600 dark:text-gray-400 transition-colors">
-                                        <Trash2 className="w-3.5 h-3.5" /> Clear
-                                     </button>
-                                </div>
-                            </>
-                        )}
+                </>)}
+            </React.Fragment>
+        ))}
+
+        {/* In-flight Question */}
+        {pendingQuestion && renderQuestion(pendingQuestion, pendingImage)}
+
+        {/* Streaming Answer */}
+        {(loading || answer) && renderAnswerCard(
+            <>
+                {loading ? (
+                    <div className="flex items-center justify-between gap-3 text-gray-500">
+                        <div className="flex items-center gap-3">
+                            <Loader2 className="w-5 h-5 animate-spin text-indigo-600" />
+                            <span className="text-sm font-bold animate-pulse text-indigo-600">Thinking...</span>
+                        </div>
+                        <button onClick={handleStop} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-red-50 dark:bg-red-900/20 hover:bg-red-100 text-xs font-bold text-red-600 dark:text-red-400 transition-colors">
+                            <Square className="w-3 h-3 fill-current" /> Stop
+                        </button>
                     </div>
-                </div>
-            </div>
+                ) : (
+                    <>
+                        {renderAnswer(answer || '')}
+                        <div className="mt-4 pt-4 border-t border-gray-100 dark:border-gray-700 flex justify-between items-center gap-3">
+                             <span className="flex items-center gap-2 text-xs font-bold text-indigo-600 animate-pulse">
+                                <Loader2 className="w-3.5 h-3.5 animate-spin" /> Writing...
+                             </span>
+                             <button onClick={handleStop} className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-red-50 dark:bg-red-900/20 hover:bg-red-100 text-xs font-bold text-red-600 dark:text-red-400 transition-colors">
+                                <Square className="w-3 h-3 fill-current" /> Stop
+                             </button>
+                        </div>
+                    </>
+                )}
+            </>
         )}
       </div>
 
       {/* 3. Footer Input - Fixed */}
       <div className="shrink-0 z-30 p-4 pb-24 bg-gradient-to-t from-gray-50 via-gray-50 to-transparent dark:from-gray-950 dark:via-gray-950">
         <form onSubmit={handleAsk} className="relative">
+            {(attachment || attaching) && (
+                <div className="mb-2 ml-2 relative inline-block">
+                    {attachment ? (
+                        <img src={attachment} alt="Attachment preview" className="h-20 rounded-xl shadow-md border border-gray-200 dark:border-gray-700" />
+                    ) : (
+                        <div className="h-20 w-20 rounded-xl bg-white dark:bg-gray-800 flex items-center justify-center shadow-md"><Loader2 className="w-5 h-5 animate-spin text-indigo-600" /></div>
+                    )}
+                    {attachment && (
+                        <button type="button" onClick={() => setAttachment(null)} className="absolute -top-2 -right-2 w-6 h-6 rounded-full bg-gray-900 text-white flex items-center justify-center shadow"><X className="w-3 h-3" /></button>
+                    )}
+                </div>
+            )}
+            <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFilePick} className="hidden" />
             <div className="bg-white dark:bg-gray-800 rounded-[2rem] border border-gray-200 dark:border-gray-700 flex items-center p-2 pl-4 transition-all focus-within:ring-2 focus-within:ring-indigo-500/50 focus-within:border-indigo-500 shadow-xl">
+                <button
+                    type="button"
+                    onClick={() => fileInputRef.current?.click()}
+                    disabled={busy || attaching}
+                    title="Attach a photo"
+                    className="w-9 h-9 rounded-full flex items-center justify-center text-gray-400 hover:text-indigo-600 hover:bg-indigo-50 dark:hover:bg-indigo-900/30 transition-colors disabled:opacity-50 shrink-0 -ml-2 mr-1"
+                >
+                    <ImagePlus className="w-5 h-5" />
+                </button>
                 <textarea
                     value={question}
                     onChange={(e) => setQuestion(e.target.value)}
-                    placeholder="Type your question..."
+                    onPaste={handlePaste}
+                    placeholder={turns.length > 0 ? "Ask a follow-up..." : "Type your question..."}
                     className="flex-1 bg-transparent max-h-32 text-sm font-medium text-gray-900 dark:text-white placeholder-gray-400 outline-none resize-none py-3 pr-2"
                     rows={1}
                     onKeyDown={(e) => {
@@ -184,13 +527,24 @@ const StudyBuddy: React.FC<StudyBuddyProps> = ({ classLevel, onBookmark }) => {
                         }
                     }}
                 />
-                <button
-                    type="submit"
-                    disabled={loading || !question.trim()}
-                    className="w-10 h-10 bg-indigo-600 hover:bg-indigo-700 rounded-full flex items-center justify-center text-white shadow-md active:scale-95 transition-all disabled:opacity-50 disabled:active:scale-100 shrink-0"
-                >
-                    {loading ? <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"/> : <Send className="w-4 h-4 ml-0.5" />}
-                </button>
+                {busy ? (
+                    <button
+                        type="button"
+                        onClick={handleStop}
+                        title="Stop generating"
+                        className="w-10 h-10 bg-red-500 hover:bg-red-600 rounded-full flex items-center justify-center text-white shadow-md active:scale-95 transition-all shrink-0"
+                    >
+                        <Square className="w-4 h-4 fill-current" />
+                    </button>
+                ) : (
+                    <button
+                        type="submit"
+                        disabled={(!question.trim() && !attachment) || attaching}
+                        className="w-10 h-10 bg-indigo-600 hover:bg-indigo-700 rounded-full flex items-center justify-center text-white shadow-md active:scale-95 transition-all disabled:opacity-50 disabled:active:scale-100 shrink-0"
+                    >
+                        <Send className="w-4 h-4 ml-0.5" />
+                    </button>
+                )}
             </div>
         </form>
         {error && <p className="text-red-500 text-xs font-bold mt-2 text-center bg-white/80 dark:bg-gray-900/80 backdrop-blur-sm py-1 rounded-lg shadow-sm inline-block mx-auto w-full">{error}</p>}
@@ -199,4 +553,4 @@ const StudyBuddy: React.FC<StudyBuddyProps> = ({ classLevel, onBookmark }) => {
   );
 };
 
-export default StudyBuddy;
\ No newline at end of file
+export default StudyBuddy;
@@ -0,0 +1,78 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { OUTPUT_LANGUAGES } from '../constants';
+import { Subject, ClassLevel, OutputLanguage } from '../types';
+import { ai } from '../services/ai';
+import { trackRefusal } from '../services/aiCall';
+import RichText from './RichText';
+import { Languages, Loader2, X } from 'lucide-react';
+
+interface TranslateMenuProps {
+  text: string;
+  classLevel: ClassLevel;
+  subject?: Subject;
+}
+
+// Renders the "Translate to..." picker plus, once translated, a full-width panel.
+// Meant for a flex-wrap action row: the panel wraps onto its own line below the buttons.
+const TranslateMenu: React.FC<TranslateMenuProps> = ({ text, classLevel, subject }) => {
+  const [busy, setBusy] = useState(false);
+  const [translation, setTranslation] = useState<{ language: OutputLanguage; text: string } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const cancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setBusy(false);
+  };
+
+  const translate = async (language: OutputLanguage) => {
+    const controller = new AbortController();
+    const refusal = trackRefusal();
+    abortRef.current = controller;
+    setBusy(true);
+    const result = await ai.translateText(text, language, classLevel, subject, { signal: controller.signal, onRefused: refusal.onRefused });
+    if (controller.signal.aborted) return;
+    abortRef.current = null;
+    setBusy(false);
+    if (refusal.message() || result.startsWith('⚠️')) {
+      alert(refusal.message() || result);
+      return;
+    }
+    setTranslation({ language, text: result });
+  };
+
+  return (
+    <>
+      <div className="relative">
+        <select
+            value=""
+            disabled={busy}
+            onChange={(e) => e.target.value && translate(e.target.value as OutputLanguage)}
+            className="appearance-none bg-gray-50 dark:bg-gray-700 text-gray-600 dark:text-gray-300 pl-7 pr-3 py-1.5 rounded-lg text-xs font-bold outline-none cursor-pointer disabled:opacity-50"
+        >
+            <option value="">{busy ? 'Translating...' : 'Translate to...'}</option>
+            {OUTPUT_LANGUAGES.map(l => <option key={l.value} value={l.value}>{l.label}</option>)}
+        </select>
+        {busy
+          ? <Loader2 className="absolute left-2 top-2 w-3 h-3 text-indigo-500 animate-spin pointer-events-none" />
+          : <Languages className="absolute left-2 top-2 w-3 h-3 text-gray-400 pointer-events-none" />}
+      </div>
+      {busy && (
+        <button onClick={cancel} title="Cancel translation" className="flex items-center gap-1 px-2 py-1.5 rounded-lg text-xs font-bold text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20"><X className="w-3 h-3" /> Cancel</button>
+      )}
+      {translation && (
+        <div className="basis-full order-last mt-1 p-4 rounded-2xl bg-indigo-50/60 dark:bg-indigo-900/20 border border-indigo-100 dark:border-indigo-900/40 text-left">
+            <div className="flex justify-between items-center mb-2">
+                <span className="text-[10px] uppercase font-bold tracking-wider text-indigo-600 dark:text-indigo-300">Translated · {translation.language}</span>
+                <button onClick={() => setTranslation(null)} title="Close translation" className="text-gray-400 hover:text-gray-600 p-1 rounded-lg"><X className="w-3.5 h-3.5" /></button>
+            </div>
+            <RichText text={translation.text} className="text-sm text-gray-700 dark:text-gray-300 leading-relaxed" />
+        </div>
+      )}
+    </>
+  );
+};
+
+export default TranslateMenu;
@@ -0,0 +1,23 @@
+import { readFileSync } from 'node:fs';
+
+// Imported first by server/index.ts so keys are in process.env before geminiService reads them.
+// Same files Vite reads; variables already set in the shell win.
+
+// process.loadEnvFile needs Node 20.12+; older Nodes get this plain KEY=VALUE reader
+const readEnvFile = (file: string) => {
+  for (const line of readFileSync(file, 'utf8').split(/\r?\n/)) {
+    const match = line.match(/^\s*(?:export\s+)?([\w.-]+)\s*=\s*(.*?)\s*$/);
+    if (!match || match[1] in process.env) continue;
+    process.env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+  }
+};
+
+const loadEnvFile = typeof process.loadEnvFile === 'function' ? process.loadEnvFile.bind(process) : readEnvFile;
+
+for (const file of ['.env.local', '.env']) {
+  try {
+    loadEnvFile(file);
+  } catch {
+    // File is optional
+  }
+}
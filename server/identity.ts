@@ -0,0 +1,59 @@
+import type { IncomingMessage } from 'node:http';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// --- WHO IS CALLING ---
+// AI credits are charged to the Supabase user the proxy can verify. Without Supabase the
+// browser's signed-in username is the best there is (see identifyByUsername).
+
+/** Resolves the caller's ledger key, or null if they must sign in first. */
+export type Identify = (req: IncomingMessage) => Promise<string | null>;
+
+// Verified tokens are remembered briefly so every AI call doesn't cost an Auth round trip
+const TOKEN_CACHE_TTL = 60 * 1000;
+const TOKEN_CACHE_MAX = 1000;
+
+const bearerToken = (req: IncomingMessage) => {
+  const match = (req.headers.authorization || '').match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+};
+
+/** The Supabase user behind the request's access token (`Authorization: Bearer ...`). */
+export const createSupabaseIdentity = (admin: SupabaseClient): Identify => {
+  const verified = new Map<string, { userId: string; expiresAt: number }>();
+
+  return async (req) => {
+    const token = bearerToken(req);
+    if (!token) return null;
+
+    const cached = verified.get(token);
+    if (cached && cached.expiresAt > Date.now()) return cached.userId;
+
+    const { data, error } = await admin.auth.getUser(token);
+    if (error || !data.user) return null;
+
+    if (verified.size >= TOKEN_CACHE_MAX) verified.clear();
+    verified.set(token, { userId: data.user.id, expiresAt: Date.now() + TOKEN_CACHE_TTL });
+    return data.user.id;
+  };
+};
+
+// URI-encoded, since header values can't carry every character a username may have
+const USERNAME_HEADER = 'x-study-buddy-user';
+const USERNAME_MAX = 64;
+
+const decodeHeader = (value: string) => {
+  try { return decodeURIComponent(value); } catch { return ''; }
+};
+
+/**
+ * Without Supabase there are no server-verifiable accounts, so budgets are keyed on the
+ * signed-in username the browser sends (X-Study-Buddy-User, see proxyProvider.ts). The
+ * network address is no use here: behind the Vite dev proxy every student shares it.
+ * The name is taken on trust, so this only fits the offline demo and classroom setups;
+ * deployments that need enforced budgets set the Supabase service role key.
+ */
+export const identifyByUsername: Identify = async (req) => {
+  const given = req.headers[USERNAME_HEADER];
+  const username = typeof given === 'string' ? decodeHeader(given).trim().toLowerCase() : '';
+  return username && username.length <= USERNAME_MAX ? `user:${username}` : null;
+};
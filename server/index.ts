@@ -0,0 +1,52 @@
+import './env';
+import { createServer } from 'node:http';
+import { createClient } from '@supabase/supabase-js';
+import { geminiProvider, hasGeminiKeys } from '../services/geminiService';
+import { mockProvider } from '../services/mockAiProvider';
+import { createProxyHandler } from './proxy';
+import { startTelemetryLog } from './telemetryLog';
+import { createSupabaseIdentity, identifyByUsername } from './identity';
+import { createMemoryLedger, createSupabaseLedger } from './usageLedger';
+
+// --- AI PROXY SERVER ---
+// Holds the Gemini keys so they never reach the browser. Run it next to Vite
+// (`npm run server`); Vite forwards /api to it in development.
+//
+// Environment:
+//   GEMINI_API_KEYS / GEMINI_API_KEY  one or more keys, comma separated
+//   GEMINI_BASE_URL                   optional, e.g. a local stub model server for tests
+//   AI_PROVIDER                       'auto' (default), 'gemini' or 'mock'
+//   PORT                              default 8787
+//   AI_TELEMETRY_FILE                 default logs/ai-telemetry.jsonl
+//   AI_ADMIN_TOKEN                    unlocks /api/health/reset and /api/telemetry (X-Admin-Token header,
+//                                     typed into Settings by the operator; the dev proxy never adds it)
+//   SUPABASE_URL                      with the service role key: AI credits per signed-in user, in the ai_usage table
+//   SUPABASE_SERVICE_ROLE_KEY         server-only; never put it in constants.ts or a VITE_ variable
+
+const PORT = Number(process.env.PORT) || 8787;
+const mode = process.env.AI_PROVIDER || 'auto';
+const useMock = mode === 'mock' || (mode === 'auto' && !hasGeminiKeys);
+
+if (useMock) {
+  console.log('[Proxy] ⚠️ Using Offline Mock Provider. Answers are canned demo content.');
+} else if (!hasGeminiKeys) {
+  console.error('[Proxy] ❌ No valid keys found. Set GEMINI_API_KEY in .env.local.');
+}
+
+startTelemetryLog(process.env.AI_TELEMETRY_FILE || 'logs/ai-telemetry.jsonl');
+
+const supabaseAdmin = process.env.SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(process.env.SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false, autoRefreshToken: false } })
+  : null;
+
+if (!supabaseAdmin) {
+  console.warn('[Proxy] ⚠️ No SUPABASE_URL / SUPABASE_SERVICE_ROLE_KEY: AI credits are counted per signed-in username (unverified), in memory.');
+}
+
+createServer(createProxyHandler(useMock ? mockProvider : geminiProvider, {
+  adminToken: process.env.AI_ADMIN_TOKEN,
+  identify: supabaseAdmin ? createSupabaseIdentity(supabaseAdmin) : identifyByUsername,
+  ledger: supabaseAdmin ? createSupabaseLedger(supabaseAdmin) : createMemoryLedger()
+})).listen(PORT, () => {
+  console.log(`[Proxy] Listening on http://localhost:${PORT}${process.env.GEMINI_BASE_URL ? ` (model server: ${process.env.GEMINI_BASE_URL})` : ''}`);
+});
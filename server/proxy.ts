@@ -0,0 +1,343 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import type { AIFeature, QuizFormat } from '../types';
+import { SUBJECTS, CLASSES, MODES, PROJECT_TYPES, OUTPUT_LANGUAGES, QUIZ_COUNTS, QUIZ_DIFFICULTIES, QUIZ_FORMATS } from '../constants';
+import { FRONT_MATTER, BACK_MATTER } from '../services/projectDocument';
+import { Identify, identifyByUsername } from './identity';
+import { UsageLedger, createMemoryLedger } from './usageLedger';
+import type { AIProvider } from '../services/ai';
+import { keyHealth } from '../services/keyHealth';
+import { aiTelemetry, summarizeTelemetry } from '../services/aiTelemetry';
+
+// --- AI PROXY ROUTES ---
+// Thin JSON layer over an AIProvider: the browser posts the same arguments it used
+// to pass to the provider and gets back `{ result }`. Providers never throw, so every
+// failure the student should see still arrives as a normal result ("⚠️" text, [] or null).
+
+const MAX_BODY_BYTES = 12 * 1024 * 1024; // Photo questions and project images travel as data URLs
+
+class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+const readJson = (req: IncomingMessage): Promise<any> => new Promise((resolve, reject) => {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  req.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      reject(new HttpError(413, 'Request body too large'));
+      req.destroy();
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(chunks.length ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : {});
+    } catch {
+      reject(new HttpError(400, 'Invalid JSON body'));
+    }
+  });
+  req.on('error', reject);
+});
+
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+};
+
+// --- REQUEST VALIDATION ---
+// Bodies come straight from the browser, so each route checks the shape it passes on
+// and answers 400 with the first problem instead of handing the provider junk.
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const requireString = (body: any, ...fields: string[]) => {
+  for (const field of fields) {
+    if (typeof body[field] !== 'string' || !body[field].trim()) throw new HttpError(400, `"${field}" must be a non-empty string`);
+  }
+};
+
+const optionalString = (body: any, ...fields: string[]) => {
+  for (const field of fields) {
+    if (body[field] !== undefined && typeof body[field] !== 'string') throw new HttpError(400, `"${field}" must be a string`);
+  }
+};
+
+const requireOneOf = (body: any, field: string, allowed: readonly unknown[], optional = false) => {
+  if (optional && body[field] === undefined) return;
+  if (!allowed.includes(body[field])) throw new HttpError(400, `"${field}" must be one of: ${allowed.join(', ')}`);
+};
+
+const LANGUAGES = OUTPUT_LANGUAGES.map(l => l.value);
+const DIFFICULTIES = QUIZ_DIFFICULTIES.map(d => d.value);
+const FORMATS = QUIZ_FORMATS.map(f => f.value);
+const SECTION_KINDS = [...FRONT_MATTER.map(s => s.kind), 'chapter', ...BACK_MATTER.map(s => s.kind)];
+
+// subject, classLevel, mode and language as every answer route sends them
+const requireAnswerContext = (body: any) => {
+  requireOneOf(body, 'subject', SUBJECTS);
+  requireOneOf(body, 'classLevel', CLASSES);
+  requireOneOf(body, 'mode', MODES);
+  requireOneOf(body, 'language', LANGUAGES, true);
+};
+
+const requireHistory = (body: any) => {
+  if (body.history === undefined) return;
+  if (!Array.isArray(body.history)) throw new HttpError(400, '"history" must be an array of earlier turns');
+  body.history.forEach((turn: unknown, i: number) => {
+    if (!isObject(turn) || typeof turn.question !== 'string' || typeof turn.answer !== 'string' || (turn.image !== undefined && typeof turn.image !== 'string')) {
+      throw new HttpError(400, `"history[${i}]" must have a string question and answer`);
+    }
+  });
+};
+
+const requireQuizConfig = (body: any) => {
+  if (body.config === undefined) return;
+  const config = body.config;
+  if (!isObject(config)) throw new HttpError(400, '"config" must be an object');
+  if (!Number.isInteger(config.count) || config.count < 1 || config.count > Math.max(...QUIZ_COUNTS)) {
+    throw new HttpError(400, `"config.count" must be a whole number from 1 to ${Math.max(...QUIZ_COUNTS)}`);
+  }
+  requireOneOf(config, 'difficulty', DIFFICULTIES);
+  if (!Array.isArray(config.formats) || !config.formats.length || config.formats.some((f: unknown) => !FORMATS.includes(f as QuizFormat))) {
+    throw new HttpError(400, `"config.formats" must list at least one of: ${FORMATS.join(', ')}`);
+  }
+};
+
+const requireProject = (body: any) => {
+  const project = body.project;
+  if (!isObject(project)) throw new HttpError(400, '"project" must be a project document');
+  requireOneOf(project, 'subject', SUBJECTS);
+  requireOneOf(project, 'type', PROJECT_TYPES);
+  requireOneOf(project, 'classLevel', CLASSES);
+  requireOneOf(project, 'language', LANGUAGES, true);
+  requireString(project, 'topic');
+  optionalString(project, 'session');
+  if (!Array.isArray(project.sections) || !project.sections.length) throw new HttpError(400, '"project.sections" must be a non-empty array');
+  project.sections.forEach((section: unknown, i: number) => {
+    if (!isObject(section) || typeof section.id !== 'string' || typeof section.title !== 'string' || typeof section.content !== 'string'
+      || !SECTION_KINDS.includes(section.kind) || (section.image !== undefined && typeof section.image !== 'string')) {
+      throw new HttpError(400, `"project.sections[${i}]" must have an id, kind, title and content`);
+    }
+  });
+};
+
+const requireMarks = (body: any) => {
+  if (body.marks === undefined) return;
+  if (typeof body.marks !== 'number' || !Number.isFinite(body.marks) || body.marks <= 0) throw new HttpError(400, '"marks" must be a positive number');
+};
+
+const requireAnswer = (body: any) => {
+  requireString(body, 'question');
+  optionalString(body, 'image');
+  requireAnswerContext(body);
+  requireHistory(body);
+};
+
+// Each route names the feature it's charged as, checks its body, then calls the provider
+interface Route {
+  feature: AIFeature;
+  validate: (body: any) => void;
+  call: (body: any, provider: AIProvider, signal: AbortSignal) => Promise<unknown>;
+}
+
+const ROUTES: Record<string, Route> = {
+  '/api/answer': {
+    feature: 'answer',
+    validate: requireAnswer,
+    call: (b, p, signal) => p.getStudyAnswer(b.question, b.subject, b.classLevel, b.mode, b.history, b.image, b.language, { signal })
+  },
+  '/api/quiz': {
+    feature: 'quiz',
+    validate: b => {
+      requireOneOf(b, 'subject', SUBJECTS);
+      requireOneOf(b, 'classLevel', CLASSES);
+      requireOneOf(b, 'language', LANGUAGES, true);
+      optionalString(b, 'topic');
+      requireQuizConfig(b);
+    },
+    call: (b, p, signal) => p.getQuizQuestions(b.subject, b.classLevel, b.topic, b.config, b.language, { signal })
+  },
+  '/api/project': {
+    feature: 'project',
+    validate: b => {
+      requireOneOf(b, 'subject', SUBJECTS);
+      requireOneOf(b, 'type', PROJECT_TYPES);
+      requireOneOf(b, 'classLevel', CLASSES);
+      requireOneOf(b, 'language', LANGUAGES, true);
+      requireString(b, 'topic');
+    },
+    call: (b, p, signal) => p.getProjectContent(b.subject, b.type, b.topic, b.classLevel, b.language, { signal })
+  },
+  '/api/project/section': {
+    feature: 'projectSection',
+    validate: b => {
+      requireProject(b);
+      requireString(b, 'sectionId');
+    },
+    call: (b, p, signal) => p.getProjectSection(b.project, b.sectionId, { signal })
+  },
+  '/api/project/image': {
+    feature: 'image',
+    validate: b => {
+      requireProject(b);
+      optionalString(b, 'sectionId');
+    },
+    call: (b, p, signal) => p.getProjectImage(b.project, b.sectionId, { signal })
+  },
+  '/api/paper': {
+    feature: 'paper',
+    validate: b => {
+      requireOneOf(b, 'subject', SUBJECTS);
+      requireOneOf(b, 'classLevel', CLASSES);
+      requireOneOf(b, 'language', LANGUAGES, true);
+    },
+    call: (b, p, signal) => p.getSamplePaper(b.subject, b.classLevel, b.language, { signal })
+  },
+  '/api/evaluate': {
+    feature: 'evaluate',
+    validate: b => {
+      requireString(b, 'question', 'studentAnswer');
+      optionalString(b, 'markingScheme');
+      requireAnswerContext(b);
+      requireMarks(b);
+    },
+    call: (b, p, signal) => p.evaluateAnswer(b.question, b.studentAnswer, b.marks ?? 1, b.subject, b.classLevel, b.mode, b.language, b.markingScheme, { signal })
+  },
+  '/api/translate': {
+    feature: 'translate',
+    validate: b => {
+      requireString(b, 'text');
+      requireOneOf(b, 'language', LANGUAGES);
+      requireOneOf(b, 'classLevel', CLASSES);
+      requireOneOf(b, 'subject', SUBJECTS, true);
+    },
+    call: (b, p, signal) => p.translateText(b.text, b.language, b.classLevel, b.subject, { signal })
+  },
+};
+
+// Streaming answers are newline-delimited JSON: {"text": answerSoFar} per chunk, then {"done": true, "text": final}
+const STREAM_PATH = '/api/answer/stream';
+
+const streamAnswer = async (body: any, provider: AIProvider, signal: AbortSignal, res: ServerResponse) => {
+  res.writeHead(200, { 'Content-Type': 'application/x-ndjson; charset=utf-8', 'Cache-Control': 'no-store' });
+  const text = await provider.streamStudyAnswer(
+    body.question, body.subject, body.classLevel, body.mode, body.history || [],
+    (soFar) => res.write(JSON.stringify({ text: soFar }) + '\n'),
+    body.image, body.language, { signal }
+  );
+  res.end(JSON.stringify({ done: true, text }) + '\n');
+  return text;
+};
+
+// Only real results cost credits: failures come back as "⚠️" text, [] or null, and a cancelled call is free
+const succeeded = (result: unknown, signal: AbortSignal) => {
+  if (signal.aborted) return false;
+  if (typeof result === 'string') return !!result && !result.startsWith('⚠️');
+  if (Array.isArray(result)) return result.length > 0;
+  return result != null;
+};
+
+// --- ADMIN ROUTES ---
+// Resetting the key pool and reading the call log are operator tools, not student ones:
+// they need an X-Admin-Token header matching AI_ADMIN_TOKEN and stay off while it's unset.
+
+const hashToken = (token: string) => createHash('sha256').update(token).digest();
+
+const requireAdmin = (req: IncomingMessage, adminToken?: string) => {
+  if (!adminToken) throw new HttpError(403, 'Admin routes are off. Set AI_ADMIN_TOKEN on the AI server to use them.');
+  const given = req.headers['x-admin-token'];
+  // Equal-length digests so the comparison time doesn't hint at how much matched
+  if (typeof given !== 'string' || !timingSafeEqual(hashToken(given), hashToken(adminToken))) {
+    throw new HttpError(401, 'Missing or wrong X-Admin-Token');
+  }
+};
+
+export interface ProxyOptions {
+  adminToken?: string; // Unlocks /api/health/reset and /api/telemetry
+  identify?: Identify; // Default: per signed-in username, unverified
+  ledger?: UsageLedger; // Default: in memory
+}
+
+/** Request handler for node:http. Exported separately from the server so tests can mount it with any provider. */
+export const createProxyHandler = (provider: AIProvider, options: ProxyOptions = {}) => {
+  const { identify = identifyByUsername, ledger = createMemoryLedger() } = options;
+
+  const requireUser = async (req: IncomingMessage) => {
+    const user = await identify(req);
+    if (!user) throw new HttpError(401, '🔒 Please sign in again to use the AI features.');
+    return user;
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    const path = (req.url || '/').split('?')[0];
+
+    // The student closed the tab or pressed Cancel: stop retrying on their behalf
+    const controller = new AbortController();
+    res.on('close', () => { if (!res.writableFinished) controller.abort(); });
+
+    try {
+      if (path === '/api/health' && req.method === 'GET') {
+        return sendJson(res, 200, {
+          provider: provider.name,
+          usableKeys: keyHealth.rankKeys().length,
+          entries: keyHealth.snapshot()
+        });
+      }
+      if (path === '/api/health/reset' && req.method === 'POST') {
+        requireAdmin(req, options.adminToken);
+        keyHealth.reset();
+        return sendJson(res, 200, { ok: true });
+      }
+      if (path === '/api/telemetry' && req.method === 'GET') {
+        requireAdmin(req, options.adminToken);
+        const events = aiTelemetry.list();
+        return sendJson(res, 200, { events, summary: summarizeTelemetry(events) });
+      }
+
+      if (path === '/api/usage' && req.method === 'GET') {
+        return sendJson(res, 200, await ledger.summary(await requireUser(req)));
+      }
+
+      const streaming = path === STREAM_PATH;
+      const route = ROUTES[path];
+      if (!route && !streaming) throw new HttpError(404, 'Not found');
+      if (req.method !== 'POST') throw new HttpError(405, 'Use POST');
+
+      const user = await requireUser(req);
+      const body = await readJson(req);
+      if (!isObject(body)) throw new HttpError(400, 'Body must be a JSON object');
+      (streaming ? requireAnswer : route.validate)(body);
+
+      const reservation = await ledger.reserve(user, streaming ? 'answer' : route.feature);
+      if (reservation.ok === false) throw new HttpError(429, reservation.refused);
+
+      let charge = false;
+      try {
+        if (streaming) {
+          charge = succeeded(await streamAnswer(body, provider, controller.signal, res), controller.signal);
+        } else {
+          const result = await route.call(body, provider, controller.signal);
+          charge = succeeded(result, controller.signal);
+          sendJson(res, 200, { result });
+        }
+      } finally {
+        await (charge ? reservation.commit() : reservation.release())
+          .catch(err => console.error('[Proxy] Usage ledger write failed', err));
+      }
+    } catch (error: any) {
+      if (res.headersSent) {
+        res.end();
+        return;
+      }
+      if (error instanceof HttpError) return sendJson(res, error.status, { error: error.message });
+      console.error('[Proxy] Unexpected failure', error);
+      sendJson(res, 500, { error: 'Internal error' });
+    }
+  };
+};
@@ -0,0 +1,33 @@
+import { appendFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { aiTelemetry, AITelemetryEvent } from '../services/aiTelemetry';
+
+// Keeps AI call telemetry across proxy restarts as newline-delimited JSON.
+// Streams are amended after they finish, so an id can appear twice: the later line wins.
+
+const KEEP_EVENTS = 500;
+
+export const startTelemetryLog = async (file: string) => {
+  try {
+    const byId = new Map<string, AITelemetryEvent>();
+    for (const line of (await readFile(file, 'utf8')).split('\n')) {
+      if (!line.trim()) continue;
+      try {
+        const event = JSON.parse(line) as AITelemetryEvent;
+        byId.set(event.id, event);
+      } catch {
+        // Half-written line from a crash
+      }
+    }
+    const previous = [...byId.values()].slice(-KEEP_EVENTS);
+    aiTelemetry.load(previous);
+    // Compact on start so the file doesn't grow forever
+    await writeFile(file, previous.map(e => JSON.stringify(e) + '\n').join(''));
+  } catch {
+    await mkdir(dirname(file), { recursive: true });
+  }
+
+  aiTelemetry.subscribe(event => {
+    appendFile(file, JSON.stringify(event) + '\n').catch(error => console.warn('[Proxy] Could not write telemetry', error));
+  });
+};
@@ -0,0 +1,120 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { AIFeature, AIUsageEvent } from '../types';
+import { AI_USAGE_COSTS, AI_USAGE_LIMITS } from '../constants';
+import { usageQuota, UsageSummary } from '../services/usageQuota';
+
+// --- AI CREDIT LEDGER ---
+// The proxy reserves a call's credits before running it, in the same step as the budget
+// check, so parallel calls can't all squeeze through. Reserved credits count against the
+// budget while the call runs; they're charged if it succeeds and handed back if it fails
+// or is cancelled.
+
+// A reservation this old belongs to a call that died with the server; stop counting it
+const STALE_RESERVATION = 15 * 60 * 1000;
+
+export type Reservation =
+  | { ok: false; refused: string }
+  | { ok: true; commit: () => Promise<void>; release: () => Promise<void> };
+
+export interface UsageLedger {
+  /** Holds the feature's credits for `userId`, or says why not. */
+  reserve(userId: string, feature: AIFeature): Promise<Reservation>;
+  summary(userId: string): Promise<UsageSummary>;
+}
+
+interface LedgerEntry extends AIUsageEvent {
+  charged: boolean;
+}
+
+/** Single-process ledger for development and the offline demo; forgets everything on restart. */
+export const createMemoryLedger = (): UsageLedger => {
+  const entries = new Map<string, LedgerEntry[]>();
+
+  // Today's entries only; older ones are dropped as they're read
+  const today = (userId: string, now: number) => {
+    const since = usageQuota.startOfToday(now);
+    const kept = (entries.get(userId) || []).filter(e => e.timestamp >= since);
+    entries.set(userId, kept);
+    return kept;
+  };
+
+  return {
+    async reserve(userId, feature) {
+      // Check and reserve without an await in between, so no other request runs in the gap
+      const now = Date.now();
+      const events = today(userId, now);
+      const refused = usageQuota.refusal(events, feature, now);
+      if (refused) return { ok: false, refused };
+
+      const entry: LedgerEntry = { feature, cost: AI_USAGE_COSTS[feature], timestamp: now, charged: false };
+      events.push(entry);
+      return {
+        ok: true,
+        commit: async () => { entry.charged = true; },
+        release: async () => {
+          const list = entries.get(userId) || [];
+          entries.set(userId, list.filter(e => e !== entry));
+        }
+      };
+    },
+
+    async summary(userId) {
+      const now = Date.now();
+      return usageQuota.summarize(today(userId, now), now);
+    }
+  };
+};
+
+/**
+ * Ledger in the `ai_usage` table, shared by every proxy instance. Needs a service-role client:
+ * the table has no policies for signed-in users. See supabase/migrations/*_ai_usage.sql.
+ */
+export const createSupabaseLedger = (admin: SupabaseClient): UsageLedger => {
+  const events = async (userId: string, now: number): Promise<AIUsageEvent[]> => {
+    const { data, error } = await admin.from('ai_usage')
+      .select('feature, cost, timestamp')
+      .eq('user_id', userId)
+      .gte('timestamp', usageQuota.startOfToday(now))
+      .or(`status.eq.charged,timestamp.gte.${now - STALE_RESERVATION}`);
+    if (error) throw new Error(error.message);
+    return (data || []).map((e: any) => ({ feature: e.feature, cost: e.cost, timestamp: Number(e.timestamp) }));
+  };
+
+  const write = async (request: PromiseLike<{ error: { message: string } | null }>) => {
+    const { error } = await request;
+    if (error) throw new Error(error.message);
+  };
+
+  return {
+    async reserve(userId, feature) {
+      const now = Date.now();
+      // The function locks the user's rows, sums them and inserts in one transaction
+      const { data: id, error } = await admin.rpc('reserve_ai_credits', {
+        p_user_id: userId,
+        p_feature: feature,
+        p_cost: AI_USAGE_COSTS[feature],
+        p_now: now,
+        p_day_start: usageQuota.startOfToday(now),
+        p_stale_before: now - STALE_RESERVATION,
+        p_daily_limit: AI_USAGE_LIMITS.daily,
+        p_minute_limit: AI_USAGE_LIMITS.perMinute
+      });
+      if (error) throw new Error(error.message);
+      if (id === null) {
+        // Refused; work out which budget ran out for the message
+        const refused = usageQuota.refusal(await events(userId, now), feature, now);
+        return { ok: false, refused: refused || "⏳ Slow down a little! That's a lot of AI requests in one minute. Please try again in a few seconds." };
+      }
+      return {
+        ok: true,
+        commit: () => write(admin.from('ai_usage').update({ status: 'charged' }).eq('id', id)),
+        release: () => write(admin.from('ai_usage').delete().eq('id', id))
+      };
+    },
+
+    async summary(userId) {
+      const now = Date.now();
+      return usageQuota.summarize(await events(userId, now), now);
+    }
+  };
+};
@@ -0,0 +1,11 @@
+// CBSE sessions run April to March, e.g. "2025-26"
+export const getCurrentSession = () => {
+  const now = new Date();
+  const year = now.getFullYear();
+  const month = now.getMonth(); 
+  if (month >= 3) {
+    return `${year}-${(year + 1).toString().slice(-2)}`;
+  } else {
+    return `${year - 1}-${year.toString().slice(-2)}`;
+  }
+};
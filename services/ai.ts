@@ -0,0 +1,65 @@
+import { AI_PROVIDER } from '../constants';
+import { Subject, ClassLevel, AnswerMode, OutputLanguage, AnswerEvaluation, ProjectType, QuizQuestion, QuizConfig, StudySession, SamplePaper, ProjectDocument } from '../types';
+import { proxyProvider } from './proxyProvider';
+import { mockProvider } from './mockAiProvider';
+import type { AICallOptions } from './aiCall';
+
+/**
+ * Everything the UI needs from an AI backend. Implementations must never throw
+ * for ordinary failures; they return a friendly "⚠️" message ([] for quizzes, null for papers,
+ * projects and answer checks) exactly like the original Gemini functions did.
+ * Every call takes trailing `options` (see aiCall.ts). A call cancelled through
+ * `options.signal` returns quietly ("" / [] / null), so callers check their own
+ * signal before reporting an error.
+ */
+export interface AIProvider {
+  name: string;
+  getStudyAnswer(
+    question: string,
+    subject: Subject,
+    classLevel: ClassLevel,
+    mode: AnswerMode,
+    history?: StudySession[],
+    image?: string,
+    language?: OutputLanguage,
+    options?: AICallOptions
+  ): Promise<string>;
+  streamStudyAnswer(
+    question: string,
+    subject: Subject,
+    classLevel: ClassLevel,
+    mode: AnswerMode,
+    history: StudySession[],
+    onChunk: (textSoFar: string) => void,
+    image?: string,
+    language?: OutputLanguage,
+    options?: AICallOptions
+  ): Promise<string>;
+  getQuizQuestions(subject: Subject, classLevel: ClassLevel, topic?: string, config?: QuizConfig, language?: OutputLanguage, options?: AICallOptions): Promise<QuizQuestion[]>;
+  getProjectContent(subject: Subject, type: ProjectType, topic: string, classLevel: ClassLevel, language?: OutputLanguage, options?: AICallOptions): Promise<ProjectDocument | null>;
+  getProjectSection(project: ProjectDocument, sectionId: string, options?: AICallOptions): Promise<string>;
+  getProjectImage(project: ProjectDocument, sectionId?: string, options?: AICallOptions): Promise<string | null>;
+  getSamplePaper(subject: Subject, classLevel: ClassLevel, language?: OutputLanguage, options?: AICallOptions): Promise<SamplePaper | null>;
+  evaluateAnswer(
+    question: string,
+    studentAnswer: string,
+    marks: number,
+    subject: Subject,
+    classLevel: ClassLevel,
+    mode: AnswerMode,
+    language?: OutputLanguage,
+    markingScheme?: string,
+    options?: AICallOptions
+  ): Promise<AnswerEvaluation | null>;
+  translateText(text: string, language: OutputLanguage, classLevel: ClassLevel, subject?: Subject, options?: AICallOptions): Promise<string>;
+}
+
+// The Gemini provider (geminiService.ts) runs only inside the AI proxy server;
+// the browser talks to the proxy, or to the mock when running on its own
+const isMockAI = AI_PROVIDER === 'mock';
+
+if (isMockAI) {
+  console.log("[AI] ⚠️ Using Offline Mock Provider. Answers are canned demo content.");
+}
+
+export const ai: AIProvider = isMockAI ? mockProvider : proxyProvider;
@@ -0,0 +1,97 @@
+import { AIFeature } from "../types";
+
+// --- CANCELLATION & DEADLINES ---
+// Every AI call takes an optional caller signal (Cancel button, unmount) and runs
+// under an overall deadline, so retries and backoff sleeps can't outlive the screen
+// that asked for them.
+
+export interface AICallOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number; // Overrides the feature's default deadline
+  // The AI server declined the call (out of AI credits, or signed out). The call then
+  // returns the same quiet value as a cancel, and this gets the message to show instead.
+  onRefused?: (message: string) => void;
+}
+
+// Papers and projects make several calls (section repairs, quiz top-ups), so they get longer
+export const DEFAULT_TIMEOUTS: Record<AIFeature, number> = {
+  answer: 60_000,
+  quiz: 60_000,
+  project: 120_000,
+  projectSection: 45_000,
+  image: 60_000,
+  paper: 150_000,
+  evaluate: 45_000,
+  translate: 60_000
+};
+
+export const TIMEOUT_MESSAGE = "⚠️ Timed Out: This is taking longer than usual. Please try again.";
+
+export class AITimeoutError extends Error {
+  constructor() {
+    super('AI call deadline exceeded');
+    this.name = 'TimeoutError';
+  }
+}
+
+export const abortError = () => new DOMException("Aborted", "AbortError");
+
+export const isAbortError = (error: any) => error?.name === 'AbortError' || error?.name === 'TimeoutError';
+
+export interface AICall {
+  feature: AIFeature;
+  signal: AbortSignal;
+  cancelled: () => boolean; // The caller aborted
+  timedOut: () => boolean;  // The deadline passed first
+  done: () => void;         // Clears the deadline timer; call in `finally`
+}
+
+/** Links the caller's signal with the feature deadline into one signal for the whole call. */
+export const startCall = (feature: AIFeature, options: AICallOptions = {}): AICall => {
+  const controller = new AbortController();
+  const parent = options.signal;
+  let timedOut = false;
+
+  const onAbort = () => controller.abort(parent?.reason);
+  if (parent?.aborted) onAbort();
+  else parent?.addEventListener('abort', onAbort, { once: true });
+
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort(new AITimeoutError());
+  }, options.timeoutMs ?? DEFAULT_TIMEOUTS[feature]);
+
+  return {
+    feature,
+    signal: controller.signal,
+    cancelled: () => !!parent?.aborted,
+    timedOut: () => timedOut && !parent?.aborted,
+    done: () => {
+      clearTimeout(timer);
+      parent?.removeEventListener('abort', onAbort);
+    }
+  };
+};
+
+/** Remembers a refusal for one call: pass `onRefused` in its options, then check `message()`. */
+export const trackRefusal = () => {
+  let message: string | null = null;
+  return {
+    onRefused: (text: string) => { message = text; },
+    message: () => message
+  };
+};
+
+/** setTimeout that rejects as soon as the signal aborts, for backoff and simulated latency. */
+export const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
@@ -0,0 +1,134 @@
+import { AIFeature } from '../types';
+import type { FailureKind } from './keyHealth';
+
+// --- AI CALL TELEMETRY ---
+// One structured event per generateWithRetry run: which key/model finally answered,
+// how many attempts it took to get there, latency, token usage and why it failed.
+// Lives on the AI proxy next to keyHealth; the diagnostics panel reads it over /api/telemetry.
+
+// 'exhausted' = every key/model was tried or cooling down; 'unknown' = an error we don't retry
+export type TelemetryErrorClass = FailureKind | 'exhausted' | 'unknown';
+
+export type TelemetryOutcome = 'success' | 'error' | 'cancelled' | 'timeout';
+
+export interface TokenUsage {
+  prompt: number;
+  output: number;
+  total: number;
+}
+
+export interface TelemetryAttempt {
+  keyIndex: number; // Position in the key pool, never the key itself
+  model: string;
+  errorClass?: TelemetryErrorClass; // Missing on the attempt that succeeded
+}
+
+export interface AITelemetryEvent {
+  id: string;
+  feature: AIFeature;
+  timestamp: number; // Start of the call, epoch ms
+  outcome: TelemetryOutcome;
+  model?: string;     // The model that answered
+  keyIndex?: number;
+  attempts: TelemetryAttempt[];
+  latencyMs: number;
+  tokens?: TokenUsage;
+  errorClass?: TelemetryErrorClass;
+  errorMessage?: string;
+}
+
+export interface TelemetrySummary {
+  calls: number;
+  failures: number;
+  fellThrough: number; // Calls that needed more than one attempt
+  averageLatencyMs: number;
+  totalTokens: number;
+  byModel: Record<string, number>; // Successful calls per answering model
+}
+
+const MAX_EVENTS = 500;
+
+let events: AITelemetryEvent[] = [];
+const listeners = new Set<(event: AITelemetryEvent) => void>();
+
+/** Reads Gemini's `usageMetadata` (from a response or the last stream chunk). */
+export const tokensFrom = (usage: any): TokenUsage | undefined => {
+  if (!usage) return undefined;
+  const prompt = usage.promptTokenCount || 0;
+  const output = usage.candidatesTokenCount || 0;
+  return { prompt, output, total: usage.totalTokenCount || prompt + output };
+};
+
+export const summarizeTelemetry = (list: AITelemetryEvent[]): TelemetrySummary => {
+  const byModel: Record<string, number> = {};
+  list.forEach(e => {
+    if (e.outcome === 'success' && e.model) byModel[e.model] = (byModel[e.model] || 0) + 1;
+  });
+  return {
+    calls: list.length,
+    failures: list.filter(e => e.outcome === 'error' || e.outcome === 'timeout').length,
+    fellThrough: list.filter(e => e.attempts.length > 1).length,
+    averageLatencyMs: list.length ? Math.round(list.reduce((sum, e) => sum + e.latencyMs, 0) / list.length) : 0,
+    totalTokens: list.reduce((sum, e) => sum + (e.tokens?.total || 0), 0),
+    byModel
+  };
+};
+
+export const aiTelemetry = {
+  record(event: Omit<AITelemetryEvent, 'id'>): AITelemetryEvent {
+    const stored = { ...event, id: `${event.timestamp}-${Math.random().toString(36).slice(2, 8)}` };
+    events = [...events, stored].slice(-MAX_EVENTS);
+    listeners.forEach(l => l(stored));
+    return stored;
+  },
+
+  /** Streams only know their token usage and full latency once the last chunk arrives. */
+  amend(id: string, patch: Partial<Pick<AITelemetryEvent, 'tokens' | 'latencyMs'>>) {
+    const event = events.find(e => e.id === id);
+    if (!event) return;
+    Object.assign(event, patch);
+    listeners.forEach(l => l(event));
+  },
+
+  /** Restores events persisted by an earlier run (see server/telemetryLog.ts). */
+  load(previous: AITelemetryEvent[]) {
+    events = [...previous, ...events].slice(-MAX_EVENTS);
+  },
+
+  /** Newest first. */
+  list(): AITelemetryEvent[] {
+    return [...events].reverse();
+  },
+
+  subscribe(listener: (event: AITelemetryEvent) => void): () => void {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  }
+};
+
+const CSV_COLUMNS = ['time', 'feature', 'outcome', 'model', 'key', 'attempts', 'latencyMs', 'promptTokens', 'outputTokens', 'totalTokens', 'errorClass', 'errorMessage', 'fallbacks'];
+
+const csvCell = (value: unknown) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** Spreadsheet-friendly export; `fallbacks` lists every attempt as "#key model:error". */
+export const telemetryToCsv = (list: AITelemetryEvent[]): string => [
+  CSV_COLUMNS.join(','),
+  ...list.map(e => [
+    new Date(e.timestamp).toISOString(),
+    e.feature,
+    e.outcome,
+    e.model,
+    e.keyIndex === undefined ? undefined : e.keyIndex + 1,
+    e.attempts.length,
+    e.latencyMs,
+    e.tokens?.prompt,
+    e.tokens?.output,
+    e.tokens?.total,
+    e.errorClass,
+    e.errorMessage,
+    e.attempts.map(a => `#${a.keyIndex + 1} ${a.model}${a.errorClass ? `:${a.errorClass}` : ''}`).join(' > ')
+  ].map(csvCell).join(','))
+].join('\n');
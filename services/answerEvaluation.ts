@@ -0,0 +1,29 @@
+import { AnswerEvaluation } from "../types";
+
+// --- ANSWER EVALUATION ---
+// The model marks a student's own answer; its score is clamped to the question's
+// weight and rounded to half marks like a CBSE examiner would, before the UI sees it.
+
+const cleanString = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+export const roundToHalf = (value: number) => Math.round(value * 2) / 2;
+
+/** Returns null if the model didn't give a usable score or model answer. */
+export const repairEvaluation = (raw: any, studentAnswer: string, marks: number): AnswerEvaluation | null => {
+  const score = Number(raw?.score);
+  const modelAnswer = cleanString(raw?.modelAnswer);
+  if (!Number.isFinite(score) || !modelAnswer) return null;
+
+  const missingPoints = Array.isArray(raw.missingPoints)
+    ? raw.missingPoints.map(cleanString).filter(Boolean)
+    : [];
+
+  return {
+    studentAnswer,
+    marks,
+    score: Math.min(marks, Math.max(0, roundToHalf(score))),
+    feedback: cleanString(raw.feedback),
+    missingPoints,
+    modelAnswer
+  };
+};
@@ -0,0 +1,44 @@
+import { ChatEvent, ConnectionStatus } from './storageAdapter';
+
+// --- MOCK MODE REALTIME ---
+// The offline adapters have no server to push changes, so every write is announced on a
+// BroadcastChannel. Other tabs of this browser (and other listeners in this tab) receive it;
+// that is as far as "other users" reach in mock mode.
+
+const CHANNEL_NAME = 'study_buddy_chat';
+
+// Only events that concern `username`; message events go through (see StorageAdapter.subscribe)
+const concerns = (event: ChatEvent, username: string) => {
+  switch (event.type) {
+    case 'message': return true;
+    case 'request': return event.request.fromUsername === username || event.request.toUsername === username;
+    case 'privateChat': return event.chat.participants.includes(username);
+    case 'group': return event.group.members.includes(username);
+  }
+};
+
+export const createBroadcastBus = () => {
+  const supported = typeof BroadcastChannel !== 'undefined';
+  // BroadcastChannel never delivers to the instance that posted, so subscribers get their own
+  const sender = supported ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+  return {
+    publish(event: ChatEvent) {
+      sender?.postMessage(event);
+    },
+
+    subscribe(username: string, onEvent: (event: ChatEvent) => void, onStatus?: (status: ConnectionStatus) => void) {
+      if (!supported) {
+        // Nothing will arrive; let the caller fall back to polling
+        onStatus?.('disconnected');
+        return () => {};
+      }
+      const channel = new BroadcastChannel(CHANNEL_NAME);
+      channel.onmessage = (e: MessageEvent<ChatEvent>) => {
+        if (concerns(e.data, username)) onEvent(e.data);
+      };
+      onStatus?.('connected');
+      return () => channel.close();
+    }
+  };
+};
@@ -0,0 +1,68 @@
+// --- CLIENT-SIDE IMAGE PREP ---
+// Phone photos are routinely 4000px / 5MB. Gemini only needs ~1024px to read a
+// worksheet, and anything bigger bloats localStorage and the request payload.
+
+const MAX_DIMENSION = 1024;
+const JPEG_QUALITY = 0.8;
+
+const loadImage = (src: string): Promise<HTMLImageElement> => new Promise((resolve, reject) => {
+  const img = new Image();
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("Could not read that image. Try a JPG or PNG."));
+  img.src = src;
+});
+
+const drawAsJpeg = async (src: string, maxDimension: number, quality: number): Promise<string> => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, maxDimension / Math.max(img.width, img.height));
+  const width = Math.round(img.width * scale);
+  const height = Math.round(img.height * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Image processing is not supported in this browser.");
+
+  // White background so transparent PNGs don't turn black as JPEG
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+/**
+ * Downscales an image so its longest side is at most MAX_DIMENSION and
+ * re-encodes it as JPEG. Returns a data URL ready to store or send.
+ */
+export const compressImage = async (file: Blob, maxDimension = MAX_DIMENSION, quality = JPEG_QUALITY): Promise<string> => {
+  if (!file.type.startsWith('image/')) throw new Error("Only image files can be attached.");
+
+  const objectUrl = URL.createObjectURL(file);
+  try {
+    return await drawAsJpeg(objectUrl, maxDimension, quality);
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+};
+
+/**
+ * Same as compressImage for images that are already data URLs (e.g. generated
+ * project art). Falls back to the original if the browser can't re-encode it.
+ */
+export const compressDataUrl = async (dataUrl: string, maxDimension = MAX_DIMENSION, quality = JPEG_QUALITY): Promise<string> => {
+  try {
+    return await drawAsJpeg(dataUrl, maxDimension, quality);
+  } catch {
+    return dataUrl;
+  }
+};
+
+/**
+ * Splits a data URL into the { mimeType, data } pair Gemini expects for inlineData.
+ */
+export const dataUrlToInlineData = (dataUrl: string): { mimeType: string; data: string } => {
+  const match = dataUrl.match(/^data:([^;]+);base64,(.*)$/);
+  if (!match) throw new Error("Invalid image data.");
+  return { mimeType: match[1], data: match[2] };
+};
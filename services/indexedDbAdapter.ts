@@ -0,0 +1,489 @@
+import { ChatMessage, ChatRequest, PrivateChat, ChatGroup, AskRecord, MessageCursor } from '../types';
+import {
+  StorageAdapter, ProfileRow, SESSION_KEY, GLOBAL_CHAT_ID, MESSAGE_PAGE_SIZE, ASK_HISTORY_LIMIT, AUTH_ERRORS,
+  profileToSettings, profileConflict, passwordProblem, normalizeUsername, normalizeEmail, sameParticipants
+} from './storageAdapter';
+import { createLocalStorageAdapter, STORAGE_PREFIX, toProfileRow } from './localStorageAdapter';
+import { createBroadcastBus } from './broadcastBus';
+import { CredentialRow, SessionRow, newCredential, checkPassword, newSession, sessionExpired, sha256, withResetCode, redeemResetCode } from './mockAuth';
+
+// --- INDEXEDDB ADAPTER (MOCK DB) ---
+// Offline/demo mode. One object store per entity, so sending a message writes one
+// small record instead of rewriting every chat, and nothing blocks the main thread.
+// Chat messages of every conversation live in `messages`, keyed by [chatId, id] and
+// paged through the [chatId, timestamp, id] index; global chat uses GLOBAL_CHAT_ID.
+// Read-check-write sequences (login, requests, new chats) run inside a single transaction.
+// Falls back to the localStorage adapter if IndexedDB can't be opened.
+// Writes are announced on the same broadcast bus as the localStorage adapter.
+
+const DB_NAME = 'study_buddy_mock';
+const DB_VERSION = 5;
+
+type StoreName = 'profiles' | 'ask_history' | 'messages' | 'private_chats' | 'groups' | 'requests' | 'credentials' | 'sessions';
+
+// Chat metadata is stored without its messages
+type ChatRow = Omit<PrivateChat, 'lastMessage'>;
+type GroupRow = Omit<ChatGroup, 'lastMessage'>;
+type MessageRow = ChatMessage & { chatId: string };
+
+// localStorage keys (after the prefix) copied over by the one-time migration
+const LEGACY_TABLES = ['profiles', 'ask_history', 'ai_usage', 'messages', 'global_messages', 'private_chats', 'groups', 'requests', 'credentials', 'sessions'];
+
+const createStores = (idb: IDBDatabase) => {
+  idb.createObjectStore('profiles', { keyPath: 'username' }).createIndex('email', 'email');
+
+  const askHistory = idb.createObjectStore('ask_history', { keyPath: ['username', 'id'] });
+  askHistory.createIndex('username', 'username');
+  askHistory.createIndex('timestamp', 'timestamp');
+
+  const messages = idb.createObjectStore('messages', { keyPath: ['chatId', 'id'] });
+  messages.createIndex('chatId', 'chatId');
+  messages.createIndex('timestamp', 'timestamp');
+
+  idb.createObjectStore('private_chats', { keyPath: 'id' }).createIndex('username', 'participants', { multiEntry: true });
+  idb.createObjectStore('groups', { keyPath: 'id' }).createIndex('username', 'members', { multiEntry: true });
+
+  const requests = idb.createObjectStore('requests', { keyPath: 'id' });
+  requests.createIndex('fromUsername', 'fromUsername');
+  requests.createIndex('toUsername', 'toUsername');
+};
+
+// v2: ties on timestamp are broken by id so paging back never skips a message
+const addCursorIndex = (messages: IDBObjectStore) => {
+  if (messages.indexNames.contains('chatTimestamp')) messages.deleteIndex('chatTimestamp');
+  messages.createIndex('chatCursor', ['chatId', 'timestamp', 'id']);
+};
+
+// v5: replies by parent, so thread counts don't read the whole conversation.
+// Messages without a replyTo have no key at this path and stay out of the index.
+const addReplyIndex = (messages: IDBObjectStore) => {
+  messages.createIndex('chatReplyTo', ['chatId', 'replyTo.id']);
+};
+
+// v3: password hashes and session token hashes (see mockAuth.ts)
+const addAuthStores = (idb: IDBDatabase) => {
+  idb.createObjectStore('credentials', { keyPath: 'username' });
+  idb.createObjectStore('sessions', { keyPath: 'tokenHash' }).createIndex('username', 'username');
+};
+
+// Copies the old `study_buddy_mock_*` arrays inside the upgrade transaction, so it's all or nothing.
+// Returns whether there was anything to migrate.
+const migrateLegacy = (transaction: IDBTransaction, storage: Storage): boolean => {
+  const read = (key: string): any[] => {
+    try {
+      const item = storage.getItem(STORAGE_PREFIX + key);
+      const parsed = item ? JSON.parse(item) : [];
+      return Array.isArray(parsed) ? parsed : [];
+    } catch { return []; }
+  };
+  const store = (name: StoreName) => transaction.objectStore(name);
+  const putMessages = (chatId: string, messages: ChatMessage[] = []) =>
+    messages.forEach(m => store('messages').put({ ...m, chatId }));
+
+  // Either layout of the localStorage adapter: one `messages` log, or messages embedded per chat
+  read('messages').forEach(m => store('messages').put(m));
+
+  read('profiles').forEach(p => store('profiles').put({ ...toProfileRow(p), email: normalizeEmail(p.email || '') }));
+  read('ask_history').forEach(r => store('ask_history').put(r));
+  putMessages(GLOBAL_CHAT_ID, read('global_messages'));
+  read('private_chats').forEach(({ messages, ...chat }) => {
+    store('private_chats').put(chat);
+    putMessages(chat.id, messages);
+  });
+  read('groups').forEach(({ messages, ...group }) => {
+    store('groups').put(group);
+    putMessages(group.id, messages);
+  });
+  read('requests').forEach(r => store('requests').put(r));
+  read('credentials').forEach(c => store('credentials').put(c));
+  read('sessions').forEach(s => store('sessions').put(s));
+
+  return LEGACY_TABLES.some(key => storage.getItem(STORAGE_PREFIX + key) !== null);
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const openDb = (factory: IDBFactory, storage: Storage): Promise<IDBDatabase | null> => new Promise(resolve => {
+  try {
+    let migrated = false;
+    const request = factory.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      if (event.oldVersion < 1) createStores(request.result);
+      if (event.oldVersion < 2) addCursorIndex(request.transaction!.objectStore('messages'));
+      if (event.oldVersion < 3) addAuthStores(request.result);
+      // v4: AI credits are charged by the AI server now, so the browser's usage log goes
+      if (event.oldVersion >= 1 && event.oldVersion < 4) request.result.deleteObjectStore('ai_usage');
+      if (event.oldVersion < 5) addReplyIndex(request.transaction!.objectStore('messages'));
+      // Once every store exists
+      if (event.oldVersion < 1) migrated = migrateLegacy(request.transaction!, storage);
+    };
+    request.onsuccess = () => {
+      // The upgrade transaction has committed by now; free the old localStorage quota
+      if (migrated) {
+        LEGACY_TABLES.forEach(key => storage.removeItem(STORAGE_PREFIX + key));
+        console.log("[DB] Migrated offline data from localStorage to IndexedDB.");
+      }
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      console.warn("[DB] IndexedDB unavailable, using localStorage.", request.error);
+      resolve(null);
+    };
+  } catch {
+    resolve(null);
+  }
+});
+
+/**
+ * Runs `work` in one transaction and resolves once it has committed.
+ * Throwing inside `work` aborts the transaction, so nothing it wrote is kept.
+ */
+const inTransaction = <T>(idb: IDBDatabase, names: StoreName[], mode: IDBTransactionMode, work: (store: (name: StoreName) => IDBObjectStore) => Promise<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const transaction = idb.transaction(names, mode);
+    let result: T;
+    transaction.oncomplete = () => resolve(result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+    work(name => transaction.objectStore(name)).then(
+      value => { result = value; },
+      error => {
+        reject(error);
+        try { transaction.abort(); } catch { /* already finished */ }
+      }
+    );
+  });
+
+// Up to `limit` messages of one conversation before the cursor (or the newest), oldest first
+const pageOfMessages = (store: IDBObjectStore, chatId: string, before: MessageCursor | undefined, limit: number): Promise<ChatMessage[]> => new Promise((resolve, reject) => {
+  const messages: ChatMessage[] = [];
+  // [chatId] sorts before every [chatId, timestamp, id]
+  const range = before
+    ? IDBKeyRange.bound([chatId], [chatId, before.timestamp, before.id], false, true)
+    : IDBKeyRange.bound([chatId], [chatId, Infinity]);
+  const cursorRequest = store.index('chatCursor').openCursor(range, 'prev');
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor || messages.length >= limit) return resolve(messages.reverse());
+    const { chatId: _chat, ...message } = cursor.value as MessageRow;
+    messages.push(message);
+    cursor.continue();
+  };
+  cursorRequest.onerror = () => reject(cursorRequest.error);
+});
+
+const lastMessage = async (store: IDBObjectStore, chatId: string): Promise<ChatMessage | undefined> =>
+  (await pageOfMessages(store, chatId, undefined, 1))[0];
+
+export const createIndexedDbAdapter = (factory: IDBFactory = indexedDB, storage: Storage = localStorage): StorageAdapter => {
+  const fallback = createLocalStorageAdapter(storage);
+  const bus = createBroadcastBus();
+  let dbPromise: Promise<IDBDatabase | null> | null = null;
+  const open = () => {
+    if (!dbPromise) dbPromise = openDb(factory, storage);
+    return dbPromise;
+  };
+
+  return {
+    name: 'local',
+
+    // --- Auth & Session ---
+    async getSession() {
+      const idb = await open();
+      if (!idb) return fallback.getSession();
+      const token = storage.getItem(SESSION_KEY);
+      if (!token) return null;
+      const tokenHash = await sha256(token);
+      const user = await inTransaction(idb, ['sessions', 'profiles'], 'readonly', async store => {
+        const session = await requestToPromise<SessionRow | undefined>(store('sessions').get(tokenHash));
+        if (!session || sessionExpired(session)) return undefined;
+        return requestToPromise<ProfileRow | undefined>(store('profiles').get(session.username));
+      });
+      return user ? profileToSettings(user) : null;
+    },
+
+    async signUp(details) {
+      const idb = await open();
+      if (!idb) return fallback.signUp(details);
+      const { name, email, username, classLevel, password } = details;
+      const weak = passwordProblem(password);
+      if (weak) throw new Error(weak);
+      const cleanUsername = normalizeUsername(username);
+      const cleanEmail = normalizeEmail(email);
+      // Hashing is async work outside IndexedDB, so it can't happen inside the transaction
+      const credential = await newCredential(cleanUsername, password);
+      const session = await newSession(cleanUsername);
+      const user = await inTransaction(idb, ['profiles', 'credentials', 'sessions'], 'readwrite', async store => {
+        const profiles = store('profiles');
+        const existing = (await requestToPromise<ProfileRow | undefined>(profiles.get(cleanUsername))) || null;
+        const byEmail = (await requestToPromise<ProfileRow | undefined>(profiles.index('email').get(cleanEmail))) || null;
+        const conflict = profileConflict(existing, byEmail, cleanUsername, cleanEmail);
+        if (conflict) throw new Error(conflict);
+        // A profile from before passwords can be claimed with its email; one with a password is taken
+        if (existing && await requestToPromise(store('credentials').getKey(cleanUsername))) throw new Error(AUTH_ERRORS.usernameTaken(cleanUsername));
+
+        const row: ProfileRow = existing
+          ? { ...existing, name, class_level: classLevel }
+          : { username: cleanUsername, name, email: cleanEmail, class_level: classLevel, quiz_history: [], bookmarks: [] };
+        await requestToPromise(profiles.put(row));
+        await requestToPromise(store('credentials').put(credential));
+        await requestToPromise(store('sessions').put(session.row));
+        return row;
+      });
+      storage.setItem(SESSION_KEY, session.token);
+      return profileToSettings(user);
+    },
+
+    async signIn(identifier, password) {
+      const idb = await open();
+      if (!idb) return fallback.signIn(identifier, password);
+      const id = identifier.trim().toLowerCase();
+      const { user, credential } = await inTransaction(idb, ['profiles', 'credentials'], 'readonly', async store => {
+        const profiles = store('profiles');
+        const user = await requestToPromise<ProfileRow | undefined>(id.includes('@') ? profiles.index('email').get(id) : profiles.get(id));
+        const credential = user ? await requestToPromise<CredentialRow | undefined>(store('credentials').get(user.username)) : undefined;
+        return { user, credential };
+      });
+      if (!user) throw new Error(AUTH_ERRORS.unknownAccount(id));
+      if (!credential) throw new Error(AUTH_ERRORS.noPassword(user.username));
+      if (!(await checkPassword(credential, password))) throw new Error(AUTH_ERRORS.wrongPassword);
+      const session = await newSession(user.username);
+      await inTransaction(idb, ['sessions'], 'readwrite', store => requestToPromise(store('sessions').put(session.row)));
+      storage.setItem(SESSION_KEY, session.token);
+      return profileToSettings(user);
+    },
+
+    async requestPasswordReset(email) {
+      const idb = await open();
+      if (!idb) return fallback.requestPasswordReset(email);
+      const credential = await inTransaction(idb, ['profiles', 'credentials'], 'readonly', async store => {
+        const user = await requestToPromise<ProfileRow | undefined>(store('profiles').index('email').get(normalizeEmail(email)));
+        return user ? requestToPromise<CredentialRow | undefined>(store('credentials').get(user.username)) : undefined;
+      });
+      if (!credential) return {};
+      const { code, credential: withCode } = await withResetCode(credential);
+      await inTransaction(idb, ['credentials'], 'readwrite', store => requestToPromise(store('credentials').put(withCode)));
+      return { demoCode: code };
+    },
+
+    async resetPassword(email, code, newPassword) {
+      const idb = await open();
+      if (!idb) return fallback.resetPassword(email, code, newPassword);
+      const weak = passwordProblem(newPassword);
+      if (weak) throw new Error(weak);
+      const { user, credential } = await inTransaction(idb, ['profiles', 'credentials'], 'readonly', async store => {
+        const user = await requestToPromise<ProfileRow | undefined>(store('profiles').index('email').get(normalizeEmail(email)));
+        const credential = user ? await requestToPromise<CredentialRow | undefined>(store('credentials').get(user.username)) : undefined;
+        return { user, credential };
+      });
+      if (!user || !credential) throw new Error(AUTH_ERRORS.badResetCode);
+      const redeemed = await redeemResetCode(credential, code);
+      if (!redeemed.ok) {
+        await inTransaction(idb, ['credentials'], 'readwrite', store => requestToPromise(store('credentials').put(redeemed.credential)));
+        throw new Error(AUTH_ERRORS.badResetCode);
+      }
+      const replacement = await newCredential(user.username, newPassword);
+      const session = await newSession(user.username);
+      await inTransaction(idb, ['credentials', 'sessions'], 'readwrite', async store => {
+        await requestToPromise(store('credentials').put(replacement));
+        // Sessions signed in with the old password end here
+        const sessions = store('sessions');
+        const old = await requestToPromise(sessions.index('username').getAllKeys(user.username));
+        await Promise.all(old.map(key => requestToPromise(sessions.delete(key))));
+        await requestToPromise(sessions.put(session.row));
+      });
+      storage.setItem(SESSION_KEY, session.token);
+      return profileToSettings(user);
+    },
+
+    async updateProfile(settings) {
+      const idb = await open();
+      if (!idb) return fallback.updateProfile(settings);
+      await inTransaction(idb, ['profiles'], 'readwrite', async store => {
+        const profiles = store('profiles');
+        const existing = await requestToPromise<ProfileRow | undefined>(profiles.get(settings.username));
+        if (!existing) return;
+        await requestToPromise(profiles.put({
+          ...existing,
+          name: settings.name,
+          class_level: settings.classLevel,
+          quiz_history: settings.quizHistory,
+          bookmarks: settings.bookmarks,
+          language: settings.language
+        }));
+      });
+    },
+
+    async logout() {
+      const idb = await open();
+      if (!idb) return fallback.logout();
+      const token = storage.getItem(SESSION_KEY);
+      if (token) {
+        const tokenHash = await sha256(token);
+        await inTransaction(idb, ['sessions'], 'readwrite', store => requestToPromise(store('sessions').delete(tokenHash)));
+      }
+      storage.removeItem(SESSION_KEY);
+    },
+
+    async getDirectory() {
+      const idb = await open();
+      if (!idb) return fallback.getDirectory();
+      const profiles = await inTransaction(idb, ['profiles'], 'readonly', store => requestToPromise<ProfileRow[]>(store('profiles').getAll()));
+      return profiles.map(p => ({ name: p.name, username: p.username, classLevel: p.class_level }));
+    },
+
+    async getAccessToken() {
+      return null;
+    },
+
+    // --- Ask History ---
+    async getAskHistory(username, filter = {}) {
+      const idb = await open();
+      if (!idb) return fallback.getAskHistory(username, filter);
+      const query = (filter.query || '').trim().toLowerCase();
+      const records = await inTransaction(idb, ['ask_history'], 'readonly', store => requestToPromise<any[]>(store('ask_history').index('username').getAll(username)));
+      return records
+        .filter(r => !filter.subject || r.subject === filter.subject)
+        .filter(r => !query || r.question.toLowerCase().includes(query) || r.answer.toLowerCase().includes(query))
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, ASK_HISTORY_LIMIT)
+        .map(({ username: _owner, ...record }) => record as AskRecord);
+    },
+
+    async saveAskRecord(username, record) {
+      const idb = await open();
+      if (!idb) return fallback.saveAskRecord(username, record);
+      await inTransaction(idb, ['ask_history'], 'readwrite', store => requestToPromise(store('ask_history').put({ ...record, username })));
+    },
+
+    async deleteAskRecord(username, id) {
+      const idb = await open();
+      if (!idb) return fallback.deleteAskRecord(username, id);
+      await inTransaction(idb, ['ask_history'], 'readwrite', store => requestToPromise(store('ask_history').delete([username, id])));
+    },
+
+    // --- Messages ---
+    async getMessages(conversationId, before, limit = MESSAGE_PAGE_SIZE) {
+      const idb = await open();
+      if (!idb) return fallback.getMessages(conversationId, before, limit);
+      return inTransaction(idb, ['messages'], 'readonly', store => pageOfMessages(store('messages'), conversationId, before, limit));
+    },
+
+    async sendMessage(conversationId, msg) {
+      const idb = await open();
+      if (!idb) return fallback.sendMessage(conversationId, msg);
+      // The store's clock, not the sender's, orders the log
+      const stored = { ...msg, timestamp: Date.now() };
+      await inTransaction(idb, ['messages'], 'readwrite', store => requestToPromise(store('messages').add({ ...stored, chatId: conversationId })));
+      bus.publish({ type: 'message', conversationId, message: stored });
+      return stored;
+    },
+
+    async getReplyCounts(conversationId, messageIds) {
+      const idb = await open();
+      if (!idb) return fallback.getReplyCounts(conversationId, messageIds);
+      // One indexed count per parent; only the asked-for ids are touched
+      const ids = [...new Set(messageIds)];
+      const counts = await inTransaction(idb, ['messages'], 'readonly', store => Promise.all(ids.map(id =>
+        requestToPromise(store('messages').index('chatReplyTo').count(IDBKeyRange.only([conversationId, id]))))));
+      const replies: Record<string, number> = {};
+      ids.forEach((id, i) => { if (counts[i]) replies[id] = counts[i]; });
+      return replies;
+    },
+
+    // --- Private Chat ---
+    async getPrivateChats(username) {
+      const idb = await open();
+      if (!idb) return fallback.getPrivateChats(username);
+      return inTransaction(idb, ['private_chats', 'messages'], 'readonly', async store => {
+        const chats = await requestToPromise<ChatRow[]>(store('private_chats').index('username').getAll(username));
+        return Promise.all(chats.map(async chat => ({ ...chat, lastMessage: await lastMessage(store('messages'), chat.id) })));
+      });
+    },
+
+    async createPrivateChat(participants) {
+      const idb = await open();
+      if (!idb) return fallback.createPrivateChat(participants);
+      const sorted = participants.map(normalizeUsername).sort();
+      const created = await inTransaction(idb, ['private_chats'], 'readwrite', async store => {
+        const chats = store('private_chats');
+        const mine = await requestToPromise<ChatRow[]>(chats.index('username').getAll(sorted[0]));
+        if (mine.some(c => sameParticipants(c.participants, sorted))) return null;
+        const chat = { id: Date.now().toString(), participants: sorted };
+        await requestToPromise(chats.put(chat));
+        return chat;
+      });
+      if (created) bus.publish({ type: 'privateChat', chat: created });
+    },
+
+    // --- Requests ---
+    async getRequests(username) {
+      const idb = await open();
+      if (!idb) return fallback.getRequests(username);
+      return inTransaction(idb, ['requests'], 'readonly', async store => {
+        const requests = store('requests');
+        const [incoming, outgoing] = await Promise.all([
+          requestToPromise<ChatRequest[]>(requests.index('toUsername').getAll(username)),
+          requestToPromise<ChatRequest[]>(requests.index('fromUsername').getAll(username))
+        ]);
+        // A request to yourself would be in both lists
+        return [...incoming, ...outgoing.filter(r => r.toUsername !== username)].sort((a, b) => a.timestamp - b.timestamp);
+      });
+    },
+
+    async sendRequest(req) {
+      const idb = await open();
+      if (!idb) return fallback.sendRequest(req);
+      const sent = await inTransaction(idb, ['requests'], 'readwrite', async store => {
+        const requests = store('requests');
+        const existing = await requestToPromise<ChatRequest[]>(requests.index('fromUsername').getAll(req.fromUsername));
+        if (existing.some(r => r.toUsername === req.toUsername && r.status === 'pending')) return null;
+        const pending: ChatRequest = { ...req, status: 'pending' };
+        await requestToPromise(requests.put(pending));
+        return pending;
+      });
+      if (sent) bus.publish({ type: 'request', request: sent });
+    },
+
+    async updateRequestStatus(reqId, status) {
+      const idb = await open();
+      if (!idb) return fallback.updateRequestStatus(reqId, status);
+      const updated = await inTransaction(idb, ['requests'], 'readwrite', async store => {
+        const requests = store('requests');
+        const req = await requestToPromise<ChatRequest | undefined>(requests.get(reqId));
+        if (!req) return null;
+        const next = { ...req, status };
+        await requestToPromise(requests.put(next));
+        return next;
+      });
+      if (updated) bus.publish({ type: 'request', request: updated });
+      return updated;
+    },
+
+    // --- Groups ---
+    async getGroups(username) {
+      const idb = await open();
+      if (!idb) return fallback.getGroups(username);
+      return inTransaction(idb, ['groups', 'messages'], 'readonly', async store => {
+        const groups = await requestToPromise<GroupRow[]>(store('groups').index('username').getAll(username));
+        return Promise.all(groups.map(async group => ({ ...group, lastMessage: await lastMessage(store('messages'), group.id) })));
+      });
+    },
+
+    async createGroup(group) {
+      const idb = await open();
+      if (!idb) return fallback.createGroup(group);
+      const { lastMessage: _last, ...row } = group;
+      await inTransaction(idb, ['groups'], 'readwrite', store => requestToPromise(store('groups').put(row)));
+      bus.publish({ type: 'group', group: row });
+    },
+
+    // --- Realtime ---
+    subscribe(username, onEvent, onStatus) {
+      return bus.subscribe(username, onEvent, onStatus);
+    }
+  };
+};
@@ -0,0 +1,162 @@
+// --- KEY x MODEL HEALTH REGISTRY ---
+// Tracks how every (API key, model) pair has behaved recently so generateWithRetry
+// can pick the healthiest client instead of a random one.
+//
+// - Rate limits (429/503/quota) put the pair in a cooldown that doubles on repeats.
+// - "Model not found / unsupported" cools the pair down for a long time.
+// - Auth errors (401/403/invalid key) disable the whole key for this page load.
+
+export type FailureKind = 'rate' | 'auth' | 'model';
+
+export interface HealthEntry {
+  keyIndex: number;
+  model: string;
+  recentFailures: number; // within FAILURE_WINDOW
+  consecutiveFailures: number;
+  successes: number;
+  cooldownUntil: number; // epoch ms, 0 = not cooling
+  keyDisabled: boolean;
+  lastError?: string;
+  lastUsed: number;
+}
+
+const FAILURE_WINDOW = 5 * 60 * 1000;
+const RATE_COOLDOWN_BASE = 15 * 1000;
+const RATE_COOLDOWN_MAX = 5 * 60 * 1000;
+const MODEL_COOLDOWN = 30 * 60 * 1000;
+
+interface PairState {
+  failures: number[];
+  consecutiveFailures: number;
+  successes: number;
+  cooldownUntil: number;
+  lastError?: string;
+  lastUsed: number;
+}
+
+let keyCount = 0;
+let models: string[] = [];
+const pairs = new Map<string, PairState>();
+const disabledKeys = new Set<number>();
+const listeners = new Set<() => void>();
+
+const pairId = (keyIndex: number, model: string) => `${keyIndex}|${model}`;
+
+const getPair = (keyIndex: number, model: string): PairState => {
+  const id = pairId(keyIndex, model);
+  let state = pairs.get(id);
+  if (!state) {
+    state = { failures: [], consecutiveFailures: 0, successes: 0, cooldownUntil: 0, lastUsed: 0 };
+    pairs.set(id, state);
+  }
+  return state;
+};
+
+const recentFailures = (state: PairState, now: number) => state.failures.filter(t => now - t < FAILURE_WINDOW).length;
+
+const notify = () => listeners.forEach(l => l());
+
+export const keyHealth = {
+  configure(count: number, modelList: string[]) {
+    keyCount = count;
+    models = [...modelList];
+  },
+
+  isAvailable(keyIndex: number, model: string, now = Date.now()): boolean {
+    if (disabledKeys.has(keyIndex)) return false;
+    return getPair(keyIndex, model).cooldownUntil <= now;
+  },
+
+  /**
+   * Keys that still have at least one usable model, healthiest first:
+   * fewest recent failures, then least recently used (spreads load across the pool).
+   * `modelList` narrows this to other models, e.g. the image model.
+   */
+  rankKeys(now = Date.now(), modelList = models): number[] {
+    const score = (k: number) => modelList.reduce((sum, m) => sum + recentFailures(getPair(k, m), now), 0);
+    const lastUsed = (k: number) => Math.max(0, ...modelList.map(m => getPair(k, m).lastUsed));
+    return Array.from({ length: keyCount }, (_, k) => k)
+      .filter(k => modelList.some(m => keyHealth.isAvailable(k, m, now)))
+      .sort((a, b) => score(a) - score(b) || lastUsed(a) - lastUsed(b));
+  },
+
+  /** Models to try on this key, in fallback order, skipping ones that are cooling down. */
+  modelsFor(keyIndex: number, now = Date.now()): string[] {
+    return models.filter(m => keyHealth.isAvailable(keyIndex, m, now));
+  },
+
+  /** Earliest moment any pair comes out of cooldown, or null if every key is disabled. */
+  nextAvailableAt(modelList = models): number | null {
+    let earliest: number | null = null;
+    for (let k = 0; k < keyCount; k++) {
+      if (disabledKeys.has(k)) continue;
+      for (const m of modelList) {
+        const until = getPair(k, m).cooldownUntil;
+        if (earliest === null || until < earliest) earliest = until;
+      }
+    }
+    return earliest;
+  },
+
+  recordAttempt(keyIndex: number, model: string) {
+    getPair(keyIndex, model).lastUsed = Date.now();
+  },
+
+  recordSuccess(keyIndex: number, model: string) {
+    const state = getPair(keyIndex, model);
+    state.successes++;
+    state.consecutiveFailures = 0;
+    state.cooldownUntil = 0;
+    notify();
+  },
+
+  recordFailure(keyIndex: number, model: string, kind: FailureKind, message?: string) {
+    const now = Date.now();
+    const state = getPair(keyIndex, model);
+    state.failures = [...state.failures.filter(t => now - t < FAILURE_WINDOW), now];
+    state.consecutiveFailures++;
+    state.lastError = message;
+
+    if (kind === 'auth') {
+      disabledKeys.add(keyIndex);
+    } else if (kind === 'model') {
+      state.cooldownUntil = now + MODEL_COOLDOWN;
+    } else {
+      const backoff = RATE_COOLDOWN_BASE * Math.pow(2, state.consecutiveFailures - 1);
+      state.cooldownUntil = now + Math.min(backoff, RATE_COOLDOWN_MAX);
+    }
+    notify();
+  },
+
+  snapshot(now = Date.now()): HealthEntry[] {
+    const entries: HealthEntry[] = [];
+    for (let k = 0; k < keyCount; k++) {
+      for (const m of models) {
+        const state = getPair(k, m);
+        entries.push({
+          keyIndex: k,
+          model: m,
+          recentFailures: recentFailures(state, now),
+          consecutiveFailures: state.consecutiveFailures,
+          successes: state.successes,
+          cooldownUntil: state.cooldownUntil,
+          keyDisabled: disabledKeys.has(k),
+          lastError: state.lastError,
+          lastUsed: state.lastUsed
+        });
+      }
+    }
+    return entries;
+  },
+
+  subscribe(listener: () => void): () => void {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+  },
+
+  reset() {
+    pairs.clear();
+    disabledKeys.clear();
+    notify();
+  }
+};
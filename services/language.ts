@@ -0,0 +1,14 @@
+import { Subject, OutputLanguage } from "../types";
+
+// --- OUTPUT LANGUAGE ---
+// Students pick a preferred language in Settings and can override it per question.
+// Hindi and Sanskrit are taught and examined in Devanagari, so those subjects
+// default to Hindi whatever the preference, unless the student overrides it.
+
+const DEVANAGARI_SUBJECTS: Subject[] = ['Hindi', 'Sanskrit'];
+
+export const defaultLanguageFor = (subject: Subject, preference: OutputLanguage = 'English'): OutputLanguage =>
+  DEVANAGARI_SUBJECTS.includes(subject) ? 'Hindi' : preference;
+
+export const resolveLanguage = (subject: Subject, preference?: OutputLanguage, override?: OutputLanguage | null): OutputLanguage =>
+  override || defaultLanguageFor(subject, preference);
@@ -0,0 +1,302 @@
+import { ChatMessage, ChatRequest, PrivateChat, ChatGroup, AskRecord } from '../types';
+import {
+  StorageAdapter, ProfileRow, SESSION_KEY, GLOBAL_CHAT_ID, MESSAGE_PAGE_SIZE, ASK_HISTORY_LIMIT, AUTH_ERRORS,
+  profileToSettings, profileConflict, passwordProblem, normalizeUsername, normalizeEmail, sameParticipants, compareMessages, countReplies
+} from './storageAdapter';
+import { createBroadcastBus } from './broadcastBus';
+import { CredentialRow, SessionRow, newCredential, checkPassword, newSession, sessionExpired, sha256, withResetCode, redeemResetCode } from './mockAuth';
+
+// --- LOCAL STORAGE ADAPTER (MOCK DB) ---
+// Offline/demo fallback when IndexedDB is blocked (e.g. private browsing): every table
+// is one JSON array under `study_buddy_mock_<table>`. Older builds stored everything
+// this way; indexedDbAdapter.ts migrates it on first load.
+// `storage` is injectable so the same adapter can run against an in-memory Storage.
+// Writes are announced on the broadcast bus so other tabs see them without polling.
+
+export const STORAGE_PREFIX = 'study_buddy_mock_';
+
+const ASK_HISTORY_CAP = 500;
+
+// Profiles saved before the adapters were split used camelCase fields
+export const toProfileRow = (p: any): ProfileRow => ({
+  username: p.username,
+  name: p.name,
+  email: p.email,
+  class_level: p.class_level || p.classLevel,
+  quiz_history: p.quiz_history || p.quizHistory || [],
+  bookmarks: p.bookmarks || [],
+  language: p.language
+});
+
+export const createLocalStorageAdapter = (storage: Storage = localStorage): StorageAdapter => {
+  const getItem = <T>(key: string, defaultVal: T): T => {
+    try {
+      const item = storage.getItem(STORAGE_PREFIX + key);
+      return item ? JSON.parse(item) : defaultVal;
+    } catch { return defaultVal; }
+  };
+  const setItem = (key: string, val: any) => {
+    storage.setItem(STORAGE_PREFIX + key, JSON.stringify(val));
+  };
+  const getProfiles = () => getItem<any[]>('profiles', []).map(toProfileRow);
+  const bus = createBroadcastBus();
+
+  // By username, or by email if it has an @
+  const findProfile = (identifier: string) => {
+    const id = identifier.trim().toLowerCase();
+    return getProfiles().find(p => id.includes('@') ? normalizeEmail(p.email) === id : p.username === id) || null;
+  };
+  const getCredential = (username: string) => getItem<CredentialRow[]>('credentials', []).find(c => c.username === username) || null;
+  const saveCredential = (row: CredentialRow) =>
+    setItem('credentials', [...getItem<CredentialRow[]>('credentials', []).filter(c => c.username !== row.username), row]);
+  const startSession = async (username: string) => {
+    const { token, row } = await newSession(username);
+    setItem('sessions', [...getItem<SessionRow[]>('sessions', []).filter(s => !sessionExpired(s)), row]);
+    storage.setItem(SESSION_KEY, token);
+  };
+
+  // Older builds kept messages inside each chat/group and in `global_messages`;
+  // move them into the single `messages` log the first time it's needed.
+  // The IndexedDB migration understands both layouts, so it doesn't matter which ran first.
+  const getMessageLog = (): (ChatMessage & { chatId: string })[] => {
+    const log = getItem<(ChatMessage & { chatId: string })[]>('messages', []);
+    const chats = getItem<any[]>('private_chats', []);
+    const groups = getItem<any[]>('groups', []);
+    const global = getItem<ChatMessage[] | null>('global_messages', null);
+    const embedded = [...chats, ...groups].filter(c => Array.isArray(c.messages));
+    if (!global && embedded.length === 0) return log;
+
+    embedded.forEach(c => log.push(...c.messages.map((m: ChatMessage) => ({ ...m, chatId: c.id }))));
+    (global || []).forEach(m => log.push({ ...m, chatId: GLOBAL_CHAT_ID }));
+    setItem('messages', log);
+    setItem('private_chats', chats.map(({ messages: _m, ...chat }) => chat));
+    setItem('groups', groups.map(({ messages: _m, ...group }) => group));
+    storage.removeItem(STORAGE_PREFIX + 'global_messages');
+    return log;
+  };
+
+  const latestIn = (log: (ChatMessage & { chatId: string })[], chatId: string): ChatMessage | undefined => {
+    const mine = log.filter(m => m.chatId === chatId).sort(compareMessages);
+    if (!mine.length) return undefined;
+    const { chatId: _chat, ...message } = mine[mine.length - 1];
+    return message;
+  };
+
+  return {
+    name: 'local',
+
+    // --- Auth & Session ---
+    async getSession() {
+      const token = storage.getItem(SESSION_KEY);
+      if (!token) return null;
+      const tokenHash = await sha256(token);
+      const session = getItem<SessionRow[]>('sessions', []).find(s => s.tokenHash === tokenHash);
+      if (!session || sessionExpired(session)) return null;
+      const user = getProfiles().find(p => p.username === session.username);
+      return user ? profileToSettings(user) : null;
+    },
+
+    async signUp({ name, email, username, classLevel, password }) {
+      const weak = passwordProblem(password);
+      if (weak) throw new Error(weak);
+      const cleanUsername = normalizeUsername(username);
+      const cleanEmail = normalizeEmail(email);
+      const credential = await newCredential(cleanUsername, password);
+
+      const profiles = getProfiles();
+      const existing = profiles.find(p => p.username === cleanUsername) || null;
+      const conflict = profileConflict(existing, profiles.find(p => normalizeEmail(p.email) === cleanEmail) || null, cleanUsername, cleanEmail);
+      if (conflict) throw new Error(conflict);
+      // A profile from before passwords can be claimed with its email; one with a password is taken
+      if (existing && getCredential(cleanUsername)) throw new Error(AUTH_ERRORS.usernameTaken(cleanUsername));
+
+      const user: ProfileRow = existing
+        ? { ...existing, name, class_level: classLevel }
+        : { username: cleanUsername, name, email: cleanEmail, class_level: classLevel, quiz_history: [], bookmarks: [] };
+      setItem('profiles', existing ? profiles.map(p => p.username === cleanUsername ? user : p) : [...profiles, user]);
+      saveCredential(credential);
+      await startSession(cleanUsername);
+      return profileToSettings(user);
+    },
+
+    async signIn(identifier, password) {
+      const user = findProfile(identifier);
+      if (!user) throw new Error(AUTH_ERRORS.unknownAccount(identifier.trim().toLowerCase()));
+      const credential = getCredential(user.username);
+      if (!credential) throw new Error(AUTH_ERRORS.noPassword(user.username));
+      if (!(await checkPassword(credential, password))) throw new Error(AUTH_ERRORS.wrongPassword);
+      await startSession(user.username);
+      return profileToSettings(user);
+    },
+
+    async requestPasswordReset(email) {
+      const user = findProfile(normalizeEmail(email));
+      const credential = user && getCredential(user.username);
+      if (!credential) return {};
+      const { code, credential: withCode } = await withResetCode(credential);
+      saveCredential(withCode);
+      return { demoCode: code };
+    },
+
+    async resetPassword(email, code, newPassword) {
+      const weak = passwordProblem(newPassword);
+      if (weak) throw new Error(weak);
+      const user = findProfile(normalizeEmail(email));
+      const credential = user && getCredential(user.username);
+      if (!user || !credential) throw new Error(AUTH_ERRORS.badResetCode);
+      const redeemed = await redeemResetCode(credential, code);
+      if (!redeemed.ok) {
+        saveCredential(redeemed.credential);
+        throw new Error(AUTH_ERRORS.badResetCode);
+      }
+      saveCredential(await newCredential(user.username, newPassword));
+      // Sessions signed in with the old password end here
+      setItem('sessions', getItem<SessionRow[]>('sessions', []).filter(s => s.username !== user.username));
+      await startSession(user.username);
+      return profileToSettings(user);
+    },
+
+    async updateProfile(settings) {
+      const profiles = getProfiles();
+      const idx = profiles.findIndex(p => p.username === settings.username);
+      if (idx === -1) return;
+      profiles[idx] = {
+        ...profiles[idx],
+        name: settings.name,
+        class_level: settings.classLevel,
+        quiz_history: settings.quizHistory,
+        bookmarks: settings.bookmarks,
+        language: settings.language
+      };
+      setItem('profiles', profiles);
+    },
+
+    async logout() {
+      const token = storage.getItem(SESSION_KEY);
+      if (token) {
+        const tokenHash = await sha256(token);
+        setItem('sessions', getItem<SessionRow[]>('sessions', []).filter(s => s.tokenHash !== tokenHash));
+      }
+      storage.removeItem(SESSION_KEY);
+    },
+
+    async getDirectory() {
+      return getProfiles().map(p => ({ name: p.name, username: p.username, classLevel: p.class_level }));
+    },
+
+    async getAccessToken() {
+      return null;
+    },
+
+    // --- Ask History ---
+    async getAskHistory(username, filter = {}) {
+      const query = (filter.query || '').trim().toLowerCase();
+      return getItem<any[]>('ask_history', [])
+        .filter(r => r.username === username)
+        .filter(r => !filter.subject || r.subject === filter.subject)
+        .filter(r => !query || r.question.toLowerCase().includes(query) || r.answer.toLowerCase().includes(query))
+        .sort((a, b) => b.timestamp - a.timestamp)
+        .slice(0, ASK_HISTORY_LIMIT)
+        .map(({ username: _owner, ...record }) => record as AskRecord);
+    },
+
+    async saveAskRecord(username, record) {
+      const records = getItem<any[]>('ask_history', []);
+      records.push({ ...record, username });
+      if (records.length > ASK_HISTORY_CAP) records.shift();
+      setItem('ask_history', records);
+    },
+
+    async deleteAskRecord(username, id) {
+      const records = getItem<any[]>('ask_history', []);
+      setItem('ask_history', records.filter(r => !(r.id === id && r.username === username)));
+    },
+
+    // --- Messages ---
+    async getMessages(conversationId, before, limit = MESSAGE_PAGE_SIZE) {
+      return getMessageLog()
+        .filter(m => m.chatId === conversationId && (!before || compareMessages(m, before) < 0))
+        .sort(compareMessages)
+        .slice(-limit)
+        .map(({ chatId: _chat, ...message }) => message);
+    },
+
+    async sendMessage(conversationId, msg) {
+      const log = getMessageLog();
+      const stored = { ...msg, timestamp: Date.now() };
+      log.push({ ...stored, chatId: conversationId });
+      setItem('messages', log);
+      bus.publish({ type: 'message', conversationId, message: stored });
+      return stored;
+    },
+
+    // localStorage has no indexes: like getMessages, this reads the one log it keeps
+    async getReplyCounts(conversationId, messageIds) {
+      const replies = getMessageLog().filter(m => m.chatId === conversationId);
+      return countReplies(replies.map(m => m.replyTo?.id), messageIds);
+    },
+
+    // --- Private Chat ---
+    async getPrivateChats(username) {
+      const log = getMessageLog();
+      return getItem<PrivateChat[]>('private_chats', [])
+        .filter(c => c.participants.includes(username))
+        .map(c => ({ ...c, lastMessage: latestIn(log, c.id) }));
+    },
+
+    async createPrivateChat(participants) {
+      const sorted = participants.map(normalizeUsername).sort();
+      const chats = getItem<PrivateChat[]>('private_chats', []);
+      if (chats.some(c => sameParticipants(c.participants, sorted))) return;
+      const chat = { id: Date.now().toString(), participants: sorted };
+      chats.push(chat);
+      setItem('private_chats', chats);
+      bus.publish({ type: 'privateChat', chat });
+    },
+
+    // --- Requests ---
+    async getRequests(username) {
+      return getItem<ChatRequest[]>('requests', []).filter(r => r.toUsername === username || r.fromUsername === username);
+    },
+
+    async sendRequest(req) {
+      const reqs = getItem<ChatRequest[]>('requests', []);
+      if (reqs.some(r => r.fromUsername === req.fromUsername && r.toUsername === req.toUsername && r.status === 'pending')) return;
+      const pending: ChatRequest = { ...req, status: 'pending' };
+      reqs.push(pending);
+      setItem('requests', reqs);
+      bus.publish({ type: 'request', request: pending });
+    },
+
+    async updateRequestStatus(reqId, status) {
+      const reqs = getItem<ChatRequest[]>('requests', []);
+      const req = reqs.find(r => r.id === reqId);
+      if (!req) return null;
+      req.status = status;
+      setItem('requests', reqs);
+      bus.publish({ type: 'request', request: req });
+      return req;
+    },
+
+    // --- Groups ---
+    async getGroups(username) {
+      const log = getMessageLog();
+      return getItem<ChatGroup[]>('groups', [])
+        .filter(g => g.members.includes(username))
+        .map(g => ({ ...g, lastMessage: latestIn(log, g.id) }));
+    },
+
+    async createGroup(group) {
+      const groups = getItem<ChatGroup[]>('groups', []);
+      const { lastMessage: _last, ...row } = group;
+      groups.push(row);
+      setItem('groups', groups);
+      bus.publish({ type: 'group', group: row });
+    },
+
+    // --- Realtime ---
+    subscribe(username, onEvent, onStatus) {
+      return bus.subscribe(username, onEvent, onStatus);
+    }
+  };
+};
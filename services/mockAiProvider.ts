@@ -0,0 +1,482 @@
+import { Subject, ClassLevel, AnswerMode, OutputLanguage, AnswerEvaluation, ProjectType, QuizQuestion, QuizConfig, QuizFormat, StudySession, SamplePaper, PaperSectionBlueprint, ProjectDocument, ProjectSectionKind } from "../types";
+import { ASSERTION_REASON_OPTIONS, DEFAULT_QUIZ_CONFIG } from "../constants";
+import { getCurrentSession } from "./academicSession";
+import { getPaperBlueprint, checkPaperSection, assemblePaper } from "./paperValidation";
+import { assembleProject, buildIndex, FRONT_MATTER, BACK_MATTER } from "./projectDocument";
+import { repairEvaluation } from "./answerEvaluation";
+import { sleep, AICallOptions } from "./aiCall";
+import type { AIProvider } from "./ai";
+
+// --- OFFLINE MOCK PROVIDER ---
+// Deterministic, schema-valid canned content. The same inputs always produce the
+// same output, so demos are repeatable and tests can assert on exact text.
+
+const SIMULATED_LATENCY = 400;
+const STREAM_CHUNK_DELAY = 20;
+
+// FNV-1a: small, stable string hash used as the PRNG seed
+const hashSeed = (...parts: string[]): number => {
+  let hash = 0x811c9dc5;
+  for (const ch of parts.join('|')) {
+    hash ^= ch.charCodeAt(0);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// mulberry32: tiny seeded PRNG
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6D2B79F5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const shuffle = <T>(items: T[], random: () => number): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// False if the caller cancelled during the fake round trip; the mock has no deadline to miss
+const simulateLatency = (options?: AICallOptions) => sleep(SIMULATED_LATENCY, options?.signal).then(() => true, () => false);
+
+// [question, correct answer, distractors, explanation]
+type BankItem = [string, string, string[], string];
+
+const QUIZ_BANK: Record<Subject, BankItem[]> = {
+  Mathematics: [
+    ["What is the value of √144?", "12", ["14", "11", "24"], "12 × 12 = 144, so √144 = 12."],
+    ["The sum of the angles of a triangle is:", "180°", ["90°", "270°", "360°"], "Angle sum property: the three interior angles add up to 180°."],
+    ["Which of these is an irrational number?", "√2", ["1/2", "0.25", "4"], "√2 cannot be written as p/q, so it is irrational."],
+    ["The degree of the polynomial $3x^2 + 2x + 1$ is:", "2", ["1", "3", "0"], "The highest power of x is 2."],
+    ["HCF of 12 and 18 is:", "6", ["3", "36", "2"], "12 = 2²×3 and 18 = 2×3², so HCF = 2×3 = 6."]
+  ],
+  Physics: [
+    ["The SI unit of force is:", "Newton", ["Joule", "Watt", "Pascal"], "Force is measured in newtons (N) = kg·m/s²."],
+    ["Speed of light in vacuum is about:", "3 × 10⁸ m/s", ["3 × 10⁶ m/s", "3 × 10⁵ m/s", "3 × 10¹⁰ m/s"], "Light travels about 3 × 10⁸ metres every second in vacuum."],
+    ["Which quantity is a vector?", "Velocity", ["Speed", "Mass", "Time"], "Velocity has both magnitude and direction."],
+    ["The SI unit of electric current is:", "Ampere", ["Volt", "Ohm", "Coulomb"], "Current is measured in amperes (A)."],
+    ["Acceleration due to gravity on Earth is about:", "9.8 m/s²", ["8.9 m/s²", "98 m/s²", "1.6 m/s²"], "g ≈ 9.8 m/s² near Earth's surface."]
+  ],
+  Chemistry: [
+    ["The chemical formula of water is:", "H₂O", ["CO₂", "H₂O₂", "NaCl"], "Water has two hydrogen atoms and one oxygen atom."],
+    ["pH of a neutral solution is:", "7", ["0", "14", "1"], "Neutral solutions such as pure water have pH 7."],
+    ["Which gas is released when zinc reacts with dilute HCl?", "Hydrogen", ["Oxygen", "Chlorine", "Carbon dioxide"], "\\ce{Zn + 2HCl -> ZnCl2 + H2}"],
+    ["The atomic number of carbon is:", "6", ["12", "8", "4"], "Carbon has 6 protons."],
+    ["Rusting of iron is an example of:", "Oxidation", ["Reduction", "Neutralisation", "Sublimation"], "Iron combines with oxygen and moisture to form iron oxide."]
+  ],
+  Biology: [
+    ["The powerhouse of the cell is:", "Mitochondria", ["Nucleus", "Ribosome", "Golgi body"], "Mitochondria release energy as ATP."],
+    ["Photosynthesis takes place in:", "Chloroplasts", ["Mitochondria", "Vacuoles", "Lysosomes"], "Chloroplasts contain chlorophyll that traps sunlight."],
+    ["The basic unit of life is the:", "Cell", ["Tissue", "Organ", "Atom"], "All living organisms are made of cells."],
+    ["Which blood cells help in clotting?", "Platelets", ["RBCs", "WBCs", "Plasma"], "Platelets release factors that form a clot."],
+    ["Which organ filters blood in humans?", "Kidney", ["Liver", "Lungs", "Heart"], "Nephrons in the kidneys filter waste from blood."]
+  ],
+  History: [
+    ["The French Revolution began in:", "1789", ["1776", "1804", "1815"], "The storming of the Bastille on 14 July 1789 marks its start."],
+    ["Who wrote 'The Social Contract'?", "Rousseau", ["Voltaire", "Montesquieu", "Locke"], "Jean-Jacques Rousseau published it in 1762."],
+    ["The Russian Revolution took place in:", "1917", ["1905", "1789", "1945"], "The Bolsheviks seized power in October 1917."],
+    ["Nazism is associated with:", "Hitler", ["Mussolini", "Lenin", "Stalin"], "Adolf Hitler led the Nazi Party in Germany."],
+    ["The Dandi March began in:", "1930", ["1920", "1942", "1919"], "Gandhiji began the Salt March on 12 March 1930."]
+  ],
+  Civics: [
+    ["The Constitution of India came into force on:", "26 January 1950", ["15 August 1947", "26 November 1949", "2 October 1950"], "It was adopted in 1949 and came into force on 26 January 1950."],
+    ["The minimum voting age in India is:", "18 years", ["21 years", "16 years", "25 years"], "The 61st Amendment lowered it from 21 to 18."],
+    ["Who is the head of the Indian state?", "The President", ["The Prime Minister", "The Chief Justice", "The Speaker"], "The President is the constitutional head of state."],
+    ["Lok Sabha is also called the:", "House of the People", ["Council of States", "Upper House", "Senate"], "Lok Sabha members are directly elected by the people."],
+    ["The Right to Education is part of:", "Fundamental Rights", ["Directive Principles", "Fundamental Duties", "Preamble"], "Article 21A guarantees free education for ages 6 to 14."]
+  ],
+  Geography: [
+    ["The Tropic of Cancer passes through how many Indian states?", "8", ["6", "10", "5"], "It crosses eight states from Gujarat to Mizoram."],
+    ["The highest peak in India is:", "Kangchenjunga", ["Nanda Devi", "Mount Everest", "K2"], "Kangchenjunga (8,586 m) is the highest peak in India."],
+    ["Which soil is best for cotton?", "Black soil", ["Alluvial soil", "Laterite soil", "Red soil"], "Black (regur) soil retains moisture well."],
+    ["The Indian Standard Meridian is:", "82°30'E", ["80°E", "90°E", "75°30'E"], "It passes through Mirzapur in Uttar Pradesh."],
+    ["Monsoon winds reach Kerala around:", "1 June", ["1 April", "15 July", "1 September"], "The south-west monsoon usually arrives in early June."]
+  ],
+  Economics: [
+    ["Which is a primary sector activity?", "Agriculture", ["Banking", "Manufacturing", "Transport"], "The primary sector uses natural resources directly."],
+    ["GDP stands for:", "Gross Domestic Product", ["Gross Development Product", "General Domestic Product", "Gross Domestic Price"], "GDP is the value of final goods and services produced in a country."],
+    ["MGNREGA guarantees how many days of work?", "100 days", ["50 days", "200 days", "365 days"], "It guarantees 100 days of wage employment per rural household."],
+    ["Which of these is a fixed capital?", "Tools and machines", ["Raw materials", "Money in hand", "Seeds"], "Fixed capital is used over many years of production."],
+    ["The PDS is related to:", "Food security", ["Education", "Health insurance", "Banking"], "The Public Distribution System supplies subsidised food grains."]
+  ],
+  English: [
+    ["Choose the correct synonym of 'happy':", "Joyful", ["Sad", "Angry", "Tired"], "Joyful means feeling great happiness."],
+    ["Identify the noun: 'The dog barked loudly.'", "Dog", ["Barked", "Loudly", "The"], "Dog names a thing, so it is a noun."],
+    ["Choose the correct form: 'She ___ to school every day.'", "goes", ["go", "going", "gone"], "Third-person singular in present tense takes 'goes'."],
+    ["Antonym of 'ancient' is:", "Modern", ["Old", "Historic", "Aged"], "Modern is the opposite of ancient."],
+    ["Which is a conjunction?", "Because", ["Quickly", "Beautiful", "Under"], "Because joins two clauses."]
+  ],
+  Hindi: [
+    ["'सूर्य' का पर्यायवाची शब्द है:", "दिनकर", ["चंद्रमा", "तारा", "आकाश"], "दिनकर, भानु और रवि सूर्य के पर्यायवाची हैं।"],
+    ["'दिन' का विलोम शब्द है:", "रात", ["सुबह", "शाम", "दोपहर"], "दिन का विपरीत रात है।"],
+    ["'विद्यालय' में कौन-सी संधि है?", "दीर्घ संधि", ["गुण संधि", "यण संधि", "वृद्धि संधि"], "विद्या + आलय = विद्यालय (आ + आ = आ)।"],
+    ["'राम ने पत्र लिखा' में कर्ता है:", "राम", ["पत्र", "लिखा", "ने"], "कार्य करने वाला राम है।"],
+    ["संज्ञा के कितने भेद होते हैं?", "तीन", ["दो", "चार", "पाँच"], "व्यक्तिवाचक, जातिवाचक और भाववाचक।"]
+  ],
+  Sanskrit: [
+    ["'बालक' शब्द का प्रथमा बहुवचन रूप है:", "बालकाः", ["बालकः", "बालकौ", "बालकम्"], "अकारान्त पुंलिंग प्रथमा बहुवचन में 'बालकाः' बनता है।"],
+    ["'पठ्' धातु का लट् लकार प्रथम पुरुष एकवचन रूप है:", "पठति", ["पठतः", "पठन्ति", "पठामि"], "लट् लकार प्रथम पुरुष एकवचन: पठति।"],
+    ["'विद्यालयः' में सन्धि-विच्छेद है:", "विद्या + आलयः", ["विद्य + आलयः", "विद्या + लयः", "विद् + यालयः"], "दीर्घ सन्धि: आ + आ = आ।"],
+    ["संस्कृत में 'जल' का पर्याय है:", "नीरम्", ["अग्निः", "वायुः", "भूमिः"], "नीरम्, वारि और सलिलम् जल के पर्याय हैं।"],
+    ["'त्वम्' किस पुरुष का सर्वनाम है?", "मध्यम पुरुष", ["प्रथम पुरुष", "उत्तम पुरुष", "कोई नहीं"], "त्वम् (तुम) मध्यम पुरुष है।"]
+  ],
+  IT: [
+    ["Which of these is an input device?", "Keyboard", ["Monitor", "Printer", "Speaker"], "A keyboard sends data into the computer."],
+    ["The full form of CPU is:", "Central Processing Unit", ["Central Program Unit", "Computer Processing Unit", "Control Processing Unit"], "The CPU executes program instructions."],
+    ["Which shortcut copies selected text?", "Ctrl + C", ["Ctrl + V", "Ctrl + X", "Ctrl + Z"], "Ctrl + C copies; Ctrl + V pastes."],
+    ["In a spreadsheet, a cell address like B3 refers to:", "Column B, Row 3", ["Row B, Column 3", "Sheet B, Page 3", "Block 3"], "Columns are letters and rows are numbers."],
+    ["Which is an example of system software?", "Operating system", ["Word processor", "Web browser", "Media player"], "The operating system manages hardware and runs other programs."]
+  ]
+};
+
+const MODE_TEMPLATES: Record<AnswerMode, (topic: string, subject: Subject, classLevel: ClassLevel) => string> = {
+  'One-Line Answer': (topic, subject) =>
+    `${topic} is a key ${subject} concept from the NCERT syllabus; learn its definition and one example.`,
+  'Very Simple': (topic, subject, classLevel) =>
+    `Let us understand "${topic}" in simple words.\n\n` +
+    `- It is a topic from Class ${classLevel} ${subject}.\n` +
+    `- Think of it as one small idea that connects to what you already know.\n` +
+    `- Read the NCERT paragraph on it once, then try to explain it to a friend.\n\n` +
+    `That's it! Ask me a follow-up if any step is unclear.`,
+  'Exam Ready': (topic, subject, classLevel) =>
+    `Answer (Class ${classLevel} ${subject}): ${topic}\n\n` +
+    `Definition:\n- ${topic} is an important concept in the NCERT ${subject} textbook.\n\n` +
+    `Key Points:\n` +
+    `- Point 1: State the definition in the textbook's own words.\n` +
+    `- Point 2: Write the main formula, date, or rule linked to it.\n` +
+    `- Point 3: Give one solved example or real-life illustration.\n` +
+    `- Point 4: Mention a common mistake examiners look for.\n\n` +
+    `Conclusion:\n- Underline keywords and keep the answer within the word limit for the marks given.`
+};
+
+// The offline bank is English-only; other languages get a labelled English answer
+const LANGUAGE_NOTES: Record<OutputLanguage, string> = {
+  English: '',
+  Hindi: '(ऑफ़लाइन डेमो: हिंदी उत्तर के लिए इंटरनेट से जुड़ें। नीचे अंग्रेज़ी उत्तर है।)',
+  Hinglish: '(Offline demo: Hinglish answer ke liye internet se connect karein. Neeche English answer hai.)'
+};
+
+const buildMockAnswer = (
+  question: string,
+  subject: Subject,
+  classLevel: ClassLevel,
+  mode: AnswerMode,
+  history: StudySession[] = [],
+  image?: string,
+  language: OutputLanguage = 'English'
+): string => {
+  const topic = question.trim().replace(/[?.!।]+$/, '') || "the attached image";
+  const lines = [MODE_TEMPLATES[mode](topic, subject, classLevel)];
+  if (history.length > 0) lines.unshift(`(Continuing from your earlier question: "${history[history.length - 1].question}")\n`);
+  if (image) lines.unshift(`(I looked at the photo you attached.)\n`);
+  if (LANGUAGE_NOTES[language]) lines.unshift(`${LANGUAGE_NOTES[language]}\n`);
+  lines.push(`\n[Offline demo answer]`);
+  return lines.join('\n');
+};
+
+const getStudyAnswer = async (
+  question: string,
+  subject: Subject,
+  classLevel: ClassLevel,
+  mode: AnswerMode,
+  history: StudySession[] = [],
+  image?: string,
+  language: OutputLanguage = 'English',
+  options?: AICallOptions
+): Promise<string> => {
+  if (!(await simulateLatency(options))) return "";
+  return buildMockAnswer(question, subject, classLevel, mode, history, image, language);
+};
+
+const streamStudyAnswer = async (
+  question: string,
+  subject: Subject,
+  classLevel: ClassLevel,
+  mode: AnswerMode,
+  history: StudySession[],
+  onChunk: (textSoFar: string) => void,
+  image?: string,
+  language: OutputLanguage = 'English',
+  options?: AICallOptions
+): Promise<string> => {
+  const full = buildMockAnswer(question, subject, classLevel, mode, history, image, language);
+  const words = full.split(/(?<=\s)/);
+  let text = "";
+  try {
+    await sleep(SIMULATED_LATENCY, options?.signal);
+    for (const word of words) {
+      text += word;
+      onChunk(text);
+      await sleep(STREAM_CHUNK_DELAY, options?.signal);
+    }
+  } catch {
+    // Aborted: keep whatever was already "streamed", like the real provider
+    return text;
+  }
+  return text;
+};
+
+// Every bank item can be turned into any quiz format, so small banks still cover mixed quizzes
+const stemOf = (question: string) => question.replace(/[:?]\s*$/, '');
+
+const toFormat = (
+  [question, correct, distractors, explanation]: BankItem,
+  format: QuizFormat,
+  subject: Subject,
+  classLevel: ClassLevel,
+  random: () => number
+): QuizQuestion => {
+  const statement = question.endsWith(':') ? `${stemOf(question)} ${correct}.` : `${question} Answer: ${correct}.`;
+  switch (format) {
+    case 'mcq':
+      return { format, question, options: shuffle([correct, ...distractors], random), correctAnswer: correct, explanation };
+    case 'case-based':
+      return {
+        format,
+        passage: `While revising Class ${classLevel} ${subject} for the exam, a group of students made flash cards. One card asked: "${question}" The group could not agree on the answer and decided to check the NCERT textbook.`,
+        question: "Which answer should the group write on the card?",
+        options: shuffle([correct, ...distractors], random),
+        correctAnswer: correct,
+        explanation
+      };
+    case 'assertion-reason':
+      return {
+        format,
+        question: "Choose the correct option for Assertion (A) and Reason (R).",
+        assertion: statement,
+        reason: explanation,
+        options: [...ASSERTION_REASON_OPTIONS],
+        correctAnswer: ASSERTION_REASON_OPTIONS[0],
+        explanation: `R directly explains why A is true. ${explanation}`
+      };
+    case 'true-false': {
+      // Half the statements use a distractor so "True" isn't always right
+      const isTrue = random() < 0.5;
+      const shown = isTrue ? correct : distractors[0];
+      return {
+        format,
+        question: question.endsWith(':') ? `${stemOf(question)} ${shown}.` : `${question} Answer: ${shown}.`,
+        correctAnswer: isTrue,
+        explanation: isTrue ? explanation : `The correct answer is ${correct}. ${explanation}`
+      };
+    }
+    case 'fill-blank':
+      return {
+        format,
+        question: question.endsWith(':') ? `${stemOf(question)} ______.` : `${question} Answer: ______`,
+        correctAnswer: correct,
+        explanation
+      };
+  }
+};
+
+const getQuizQuestions = async (
+  subject: Subject,
+  classLevel: ClassLevel,
+  topic?: string,
+  config: QuizConfig = DEFAULT_QUIZ_CONFIG,
+  _language: OutputLanguage = 'English',
+  options?: AICallOptions
+): Promise<QuizQuestion[]> => {
+  if (!(await simulateLatency(options))) return [];
+  const random = seededRandom(hashSeed('quiz', subject, classLevel, topic || '', config.difficulty, config.formats.join(',')));
+  // Each pass over the shuffled bank rotates formats, so every (item, format) pair appears at most once
+  const items = shuffle(QUIZ_BANK[subject], random);
+  const questions: QuizQuestion[] = [];
+  for (let pass = 0; pass < config.formats.length; pass++) {
+    items.forEach((item, i) => {
+      if (questions.length >= config.count) return;
+      const format = config.formats[(i + pass) % config.formats.length];
+      questions.push(toFormat(item, format, subject, classLevel, random));
+    });
+  }
+  return questions;
+};
+
+const mockSectionContent = (kind: ProjectSectionKind, title: string, subject: Subject, type: ProjectType, topic: string, classLevel: ClassLevel, session: string): string => {
+  switch (kind) {
+    case 'cover':
+      return [`${type}: ${topic}`, `Subject: ${subject} | Class: ${classLevel} | Session: ${session}`, '', 'Submitted by: ____________', 'Submitted to: ____________', 'School: ____________'].join('\n');
+    case 'acknowledgement':
+      return `I would like to thank my ${subject} teacher and my school for guiding me through this ${type.toLowerCase()} on ${topic}. I am also grateful to my parents and friends for their support.`;
+    case 'certificate':
+      return `This is to certify that this ${type.toLowerCase()} on "${topic}" has been completed by the student of Class ${classLevel} during the session ${session}.\n\nTeacher's Signature: ____________\nExaminer's Signature: ____________`;
+    case 'conclusion':
+      return `- Studying ${topic} helped me connect classroom learning with everyday life.\n- I now understand how the key ideas of this topic appear in the Class ${classLevel} ${subject} syllabus.`;
+    case 'bibliography':
+      return `- NCERT ${subject} Textbook, Class ${classLevel}\n- CBSE Curriculum ${session}\n- https://ncert.nic.in`;
+    default:
+      return [
+        `- ${title}: where ${topic} appears in the NCERT textbook.`,
+        `- Key ideas: the three or four points every student must know.`,
+        `- Examples: worked examples, diagrams or case studies.`,
+        `- Activity: a simple experiment or survey the student can perform.`
+      ].join('\n');
+  }
+};
+
+const MOCK_CHAPTERS = ['Introduction', 'Main Content', 'Examples and Activities'];
+
+const getProjectContent = async (
+  subject: Subject,
+  type: ProjectType,
+  topic: string,
+  classLevel: ClassLevel,
+  language: OutputLanguage = 'English',
+  options?: AICallOptions
+): Promise<ProjectDocument | null> => {
+  if (!(await simulateLatency(options))) return null;
+  const session = getCurrentSession();
+  const content = (kind: ProjectSectionKind, title: string) => mockSectionContent(kind, title, subject, type, topic, classLevel, session);
+  const raw = [
+    ...FRONT_MATTER.map(({ kind, title }) => ({ kind, title, content: content(kind, title) })),
+    ...MOCK_CHAPTERS.map(title => ({ kind: 'chapter', title, content: content('chapter', title) })),
+    ...BACK_MATTER.map(({ kind, title }) => ({ kind, title, content: `${content(kind, title)}${kind === 'bibliography' ? '\n\n[Offline demo project]' : ''}` }))
+  ];
+  return assembleProject(raw, subject, type, topic, classLevel, session, language);
+};
+
+// Deterministic but different from the current text, so "Regenerate" visibly does something
+const getProjectSection = async (project: ProjectDocument, sectionId: string, options?: AICallOptions): Promise<string> => {
+  if (!(await simulateLatency(options))) return "";
+  const section = project.sections.find(s => s.id === sectionId);
+  if (!section || section.kind === 'index') return buildIndex(project.sections);
+  const { subject, type, topic, classLevel, session } = project;
+  const base = mockSectionContent(section.kind, section.title, subject, type, topic, classLevel, session);
+  // Bullet lists get reordered; prose sections just carry the rewrite note
+  const lines = base.split('\n');
+  const reordered = lines.every(l => l.startsWith('- ')) ? shuffle(lines, seededRandom(hashSeed('section', sectionId, section.content))) : lines;
+  return [...reordered, '', `(Rewritten offline draft of "${section.title}")`].join('\n');
+};
+
+const escapeXml = (text: string) => text.replace(/[<>&"']/g, ch => `&#${ch.charCodeAt(0)};`);
+
+// Seeded SVG placeholder: same project/section always gets the same picture
+const getProjectImage = async (project: ProjectDocument, sectionId?: string, options?: AICallOptions): Promise<string | null> => {
+  if (!(await simulateLatency(options))) return null;
+  const section = project.sections.find(s => s.id === sectionId);
+  const isCover = !section || section.kind === 'cover';
+  const random = seededRandom(hashSeed('image', project.subject, project.topic, sectionId || 'cover'));
+  const hue = Math.floor(random() * 360);
+  const circles = Array.from({ length: 6 }, () =>
+    `<circle cx="${Math.floor(random() * 600)}" cy="${Math.floor(random() * 800)}" r="${40 + Math.floor(random() * 120)}" fill="hsl(${(hue + Math.floor(random() * 90)) % 360},70%,70%)" opacity="0.5"/>`
+  ).join('');
+  const label = escapeXml(isCover ? project.topic : section.title);
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="600" height="${isCover ? 800 : 400}" viewBox="0 0 600 ${isCover ? 800 : 400}">` +
+    `<rect width="100%" height="100%" fill="hsl(${hue},60%,${isCover ? 35 : 96}%)"/>${circles}` +
+    `<text x="300" y="50%" text-anchor="middle" font-family="sans-serif" font-size="32" font-weight="bold" fill="${isCover ? '#fff' : '#333'}">${label}</text>` +
+    `<text x="300" y="95%" text-anchor="middle" font-family="sans-serif" font-size="14" fill="${isCover ? '#fff' : '#666'}">Offline demo ${isCover ? 'cover' : 'diagram'}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+// Long-answer stems so higher-mark questions don't read like one-liners
+const PAPER_STEMS: Record<number, string> = {
+  2: 'Briefly explain',
+  3: 'Explain with reference to the NCERT text',
+  4: 'Read the case carefully and answer',
+  5: 'Answer in detail with examples',
+  10: 'Read the passage and answer the questions that follow'
+};
+
+const getSamplePaper = async (
+  subject: Subject,
+  classLevel: ClassLevel,
+  language: OutputLanguage = 'English',
+  options?: AICallOptions
+): Promise<SamplePaper | null> => {
+  if (!(await simulateLatency(options))) return null;
+  const session = getCurrentSession();
+  const random = seededRandom(hashSeed('paper', subject, classLevel));
+  const bank = QUIZ_BANK[subject];
+
+  const makeBody = (part: PaperSectionBlueprint) => {
+    const [question, correct, distractors, explanation] = bank[Math.floor(random() * bank.length)];
+    return part.objective
+      ? { text: question, options: shuffle([correct, ...distractors], random), answer: correct }
+      : { text: `${PAPER_STEMS[part.marksPerQuestion] || 'Explain'}: ${question}`, answer: `${correct}. ${explanation}` };
+  };
+
+  const sections = getPaperBlueprint(subject, classLevel).map(part => {
+    const questions = Array.from({ length: part.questionCount }, (_, i) => {
+      const question: Record<string, unknown> = { marks: part.marksPerQuestion, ...makeBody(part) };
+      // Internal choices go on the last questions of the section, like real papers
+      if (i >= part.questionCount - part.internalChoices) {
+        const alternative = makeBody(part);
+        Object.assign(question, { orText: alternative.text, orOptions: alternative.options, orAnswer: alternative.answer });
+      }
+      return question;
+    });
+    return checkPaperSection({ id: part.id, questions }, part).section;
+  });
+
+  return assemblePaper(subject, classLevel, session, [
+    'All questions are compulsory. Internal choices are marked OR.',
+    'Marks for each question are shown against it.',
+    'This is an offline demo paper.'
+  ], sections, language);
+};
+
+// Roughly how many words a full-marks answer needs, per mark
+const WORDS_PER_MARK = 25;
+
+const MOCK_VALUE_POINTS = [
+  'Start with the definition in the NCERT textbook\'s words.',
+  'State the formula, rule or key date and explain each term.',
+  'Support the answer with a solved example or real-life illustration.',
+  'Draw or describe a labelled diagram where it helps.',
+  'End with a one-line conclusion that answers the question directly.'
+];
+
+// Length and keyword overlap with the question stand in for real marking, deterministically
+const evaluateAnswer = async (
+  question: string,
+  studentAnswer: string,
+  marks: number,
+  subject: Subject,
+  classLevel: ClassLevel,
+  mode: AnswerMode,
+  _language: OutputLanguage = 'English',
+  markingScheme?: string,
+  options?: AICallOptions
+): Promise<AnswerEvaluation | null> => {
+  if (!(await simulateLatency(options))) return null;
+  const words = (text: string) => text.toLowerCase().split(/[^\p{L}\p{M}\p{N}]+/u).filter(w => w.length > 3);
+  const answerWords = new Set(words(studentAnswer));
+  const keywords = [...new Set(words(`${question} ${markingScheme || ''}`))];
+  const coverage = keywords.length ? keywords.filter(k => answerWords.has(k)).length / keywords.length : 0;
+  const length = Math.min(1, answerWords.size / (marks * WORDS_PER_MARK));
+  const pointsCovered = Math.round((coverage + length) / 2 * Math.min(marks, MOCK_VALUE_POINTS.length));
+  const topic = question.trim().replace(/[?.!।]+$/, '');
+
+  return repairEvaluation({
+    score: (coverage + length) / 2 * marks,
+    feedback: `${answerWords.size < marks * WORDS_PER_MARK / 2 ? 'Your answer is too short for ' : 'A fair attempt for '}${marks} mark(s). [Offline demo marking]`,
+    missingPoints: MOCK_VALUE_POINTS.slice(pointsCovered, Math.min(marks, MOCK_VALUE_POINTS.length)),
+    modelAnswer: markingScheme || MODE_TEMPLATES[mode](topic, subject, classLevel)
+  }, studentAnswer, marks);
+};
+
+// No offline dictionary: the original comes back under a label, so the flow can still be demoed
+const translateText = async (text: string, language: OutputLanguage, _classLevel?: ClassLevel, _subject?: Subject, options?: AICallOptions): Promise<string> => {
+  if (!(await simulateLatency(options))) return "";
+  const label = language === 'English' ? '[Offline demo translation: English]' : LANGUAGE_NOTES[language];
+  return `${label}\n\n${text}`;
+};
+
+export const mockProvider: AIProvider = {
+  name: 'mock',
+  getStudyAnswer,
+  streamStudyAnswer,
+  getQuizQuestions,
+  getProjectContent,
+  getProjectSection,
+  getProjectImage,
+  getSamplePaper,
+  evaluateAnswer,
+  translateText
+};
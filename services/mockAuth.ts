@@ -0,0 +1,88 @@
+// --- MOCK MODE AUTH ---
+// Supabase Auth hashes passwords and signs sessions server-side; the offline adapters
+// do the equivalent in the browser with WebCrypto:
+// - passwords: PBKDF2-SHA256 with a random salt per account, never stored in the profile
+// - sessions: a random token in localStorage; only its SHA-256 is stored, so editing
+//   localStorage can't turn one account's session into another's
+// - password reset: a short-lived 6-digit code, hashed the same way as session tokens
+
+const PBKDF2_ITERATIONS = 310_000;
+const SESSION_TTL = 30 * 24 * 60 * 60 * 1000;
+const RESET_CODE_TTL = 15 * 60 * 1000;
+const RESET_CODE_ATTEMPTS = 5;
+
+/** One per account, keyed by username. */
+export interface CredentialRow {
+  username: string;
+  salt: string;
+  hash: string;
+  iterations: number;
+  resetCodeHash?: string;
+  resetExpiresAt?: number;
+  resetAttempts?: number;
+}
+
+/** One per signed-in browser session, keyed by the token's hash. */
+export interface SessionRow {
+  tokenHash: string;
+  username: string;
+  expiresAt: number;
+}
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(bytes instanceof Uint8Array ? bytes : new Uint8Array(bytes), b => b.toString(16).padStart(2, '0')).join('');
+
+const fromHex = (hex: string) => new Uint8Array((hex.match(/../g) || []).map(h => parseInt(h, 16)));
+
+const randomHex = (bytes: number) => toHex(crypto.getRandomValues(new Uint8Array(bytes)));
+
+export const sha256 = async (text: string) =>
+  toHex(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text)));
+
+const pbkdf2 = async (password: string, salt: Uint8Array, iterations: number) => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  return toHex(await crypto.subtle.deriveBits({ name: 'PBKDF2', hash: 'SHA-256', salt, iterations }, key, 256));
+};
+
+// Compares every character so the time taken doesn't hint at how much matched
+const sameHex = (a: string, b: string) => {
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+export const newCredential = async (username: string, password: string): Promise<CredentialRow> => {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return { username, salt: toHex(salt), hash: await pbkdf2(password, salt, PBKDF2_ITERATIONS), iterations: PBKDF2_ITERATIONS };
+};
+
+export const checkPassword = async (credential: CredentialRow, password: string) =>
+  sameHex(await pbkdf2(password, fromHex(credential.salt), credential.iterations), credential.hash);
+
+/** The token goes to localStorage, the row to the sessions table. */
+export const newSession = async (username: string): Promise<{ token: string; row: SessionRow }> => {
+  const token = randomHex(32);
+  return { token, row: { tokenHash: await sha256(token), username, expiresAt: Date.now() + SESSION_TTL } };
+};
+
+export const sessionExpired = (row: SessionRow) => row.expiresAt < Date.now();
+
+/** Fresh reset code and the credential with it attached. */
+export const withResetCode = async (credential: CredentialRow): Promise<{ code: string; credential: CredentialRow }> => {
+  const code = (crypto.getRandomValues(new Uint32Array(1))[0] % 1_000_000).toString().padStart(6, '0');
+  return {
+    code,
+    credential: { ...credential, resetCodeHash: await sha256(code), resetExpiresAt: Date.now() + RESET_CODE_TTL, resetAttempts: 0 }
+  };
+};
+
+/**
+ * Checks a reset code. Returns whether it matched and the credential to store either way:
+ * a wrong guess counts towards the attempt limit, after which the code stops working.
+ */
+export const redeemResetCode = async (credential: CredentialRow, code: string): Promise<{ ok: boolean; credential: CredentialRow }> => {
+  const { resetCodeHash, resetExpiresAt = 0, resetAttempts = 0, ...rest } = credential;
+  if (!resetCodeHash || resetExpiresAt < Date.now() || resetAttempts >= RESET_CODE_ATTEMPTS) return { ok: false, credential: rest };
+  if (sameHex(await sha256(code.trim()), resetCodeHash)) return { ok: true, credential: rest };
+  return { ok: false, credential: { ...credential, resetAttempts: resetAttempts + 1 } };
+};
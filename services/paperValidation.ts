@@ -0,0 +1,178 @@
+import { Subject, ClassLevel, OutputLanguage, SamplePaper, PaperSection, PaperSectionBlueprint, PaperQuestion, PaperQuestionBody } from "../types";
+import { OPTIONS_PER_QUESTION } from "./quizValidation";
+
+// --- SAMPLE PAPER BLUEPRINTS & VALIDATION ---
+// Papers are generated as structured sections and checked against the CBSE
+// blueprint for the subject before they reach the UI. A section that doesn't
+// match (wrong count, wrong marks, missing internal choices) is regenerated.
+
+const section = (id: string, title: string, questionCount: number, marksPerQuestion: number, internalChoices = 0, objective = false): PaperSectionBlueprint =>
+  ({ id, title, questionCount, marksPerQuestion, internalChoices, ...(objective ? { objective } : {}) });
+
+// Maths (all classes) and Science (Classes 9-10): 80 marks
+const CORE_BLUEPRINT = [
+  section('A', 'Multiple Choice Questions', 20, 1, 0, true),
+  section('B', 'Very Short Answer Questions', 5, 2, 2),
+  section('C', 'Short Answer Questions', 6, 3, 2),
+  section('D', 'Long Answer Questions', 4, 5, 2),
+  section('E', 'Case-Based Questions', 3, 4, 3)
+];
+
+// Physics / Chemistry / Biology in Classes 11-12: 70 theory marks
+const SENIOR_SCIENCE_BLUEPRINT = [
+  section('A', 'Multiple Choice Questions', 16, 1, 0, true),
+  section('B', 'Very Short Answer Questions', 5, 2, 1),
+  section('C', 'Short Answer Questions', 7, 3, 1),
+  section('D', 'Case-Based Questions', 2, 4, 2),
+  section('E', 'Long Answer Questions', 3, 5, 3)
+];
+
+const SOCIAL_SCIENCE_BLUEPRINT = [
+  section('A', 'Multiple Choice Questions', 20, 1, 0, true),
+  section('B', 'Very Short Answer Questions', 4, 2, 1),
+  section('C', 'Short Answer Questions', 5, 3, 1),
+  section('D', 'Long Answer Questions', 4, 5, 4),
+  section('E', 'Case-Based Questions', 3, 4, 0),
+  section('F', 'Map Skill Based Question', 1, 5, 0)
+];
+
+const LANGUAGE_BLUEPRINT = [
+  section('A', 'Reading Comprehension', 2, 10),
+  section('B', 'Grammar', 10, 1, 0, true),
+  section('C', 'Writing Skills', 2, 5, 2),
+  section('D', 'Literature: Extracts', 2, 5, 2),
+  section('E', 'Literature: Short Answer', 5, 4, 1),
+  section('F', 'Literature: Long Answer', 2, 5, 2)
+];
+
+// IT (Code 402) has 50 theory marks; the other 50 are practical
+const IT_BLUEPRINT = [
+  section('A', 'Objective Type Questions', 20, 1, 0, true),
+  section('B', 'Short Answer Questions', 5, 2, 1),
+  section('C', 'Long Answer Questions', 4, 5, 2)
+];
+
+const SENIOR_SCIENCE: Subject[] = ['Physics', 'Chemistry', 'Biology'];
+const SOCIAL_SCIENCE: Subject[] = ['History', 'Civics', 'Geography', 'Economics'];
+const LANGUAGES: Subject[] = ['English', 'Hindi', 'Sanskrit'];
+
+export const getPaperBlueprint = (subject: Subject, classLevel: ClassLevel): PaperSectionBlueprint[] => {
+  if (SENIOR_SCIENCE.includes(subject) && (classLevel === '11' || classLevel === '12')) return SENIOR_SCIENCE_BLUEPRINT;
+  if (SOCIAL_SCIENCE.includes(subject)) return SOCIAL_SCIENCE_BLUEPRINT;
+  if (LANGUAGES.includes(subject)) return LANGUAGE_BLUEPRINT;
+  if (subject === 'IT') return IT_BLUEPRINT;
+  return CORE_BLUEPRINT;
+};
+
+export const blueprintTotal = (blueprint: PaperSectionBlueprint[]) =>
+  blueprint.reduce((sum, s) => sum + s.questionCount * s.marksPerQuestion, 0);
+
+export const paperDuration = (totalMarks: number) => totalMarks > 50 ? '3 Hours' : '2 Hours';
+
+const cleanString = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+const cleanOptions = (value: unknown): string[] =>
+  Array.isArray(value) ? value.map(o => cleanString(String(o ?? ''))).filter(Boolean) : [];
+
+const repairBody = (text: unknown, options: unknown, answer: unknown, objective: boolean): PaperQuestionBody | null => {
+  const body: PaperQuestionBody = { text: cleanString(text), answer: cleanString(answer) };
+  if (!body.text || !body.answer) return null;
+  if (objective) {
+    const opts = cleanOptions(options);
+    if (opts.length !== OPTIONS_PER_QUESTION) return null;
+    body.options = opts;
+  }
+  return body;
+};
+
+/**
+ * Checks one raw model section against its blueprint. Always returns the cleaned
+ * section; `issues` is empty only when it matches the blueprint exactly.
+ * Unusable questions are dropped and surplus ones trimmed before counting.
+ */
+export const checkPaperSection = (raw: any, blueprint: PaperSectionBlueprint): { section: PaperSection; issues: string[] } => {
+  const issues: string[] = [];
+  const questions: PaperQuestion[] = [];
+  const objective = !!blueprint.objective;
+  let wrongMarks = 0;
+
+  for (const q of Array.isArray(raw?.questions) ? raw.questions : []) {
+    if (questions.length >= blueprint.questionCount) break;
+    const body = repairBody(q?.text, q?.options, q?.answer, objective);
+    if (!body) continue;
+
+    const marks = Number(q.marks);
+    if (marks !== blueprint.marksPerQuestion) {
+      wrongMarks++;
+      continue;
+    }
+
+    const question: PaperQuestion = { number: 0, marks, ...body };
+    if (q.orText) {
+      const alternative = repairBody(q.orText, q.orOptions, q.orAnswer, objective);
+      if (alternative) question.alternative = alternative;
+    }
+    questions.push(question);
+  }
+
+  if (wrongMarks > 0) {
+    issues.push(`${wrongMarks} question(s) were not worth ${blueprint.marksPerQuestion} marks`);
+  }
+  if (questions.length < blueprint.questionCount) {
+    issues.push(`needs ${blueprint.questionCount} complete questions of ${blueprint.marksPerQuestion} marks, got ${questions.length}`);
+  }
+  const choices = questions.filter(q => q.alternative).length;
+  if (choices < blueprint.internalChoices) {
+    issues.push(`needs ${blueprint.internalChoices} internal choices (OR), got ${choices}`);
+  }
+
+  return {
+    section: { id: blueprint.id, title: blueprint.title, marksPerQuestion: blueprint.marksPerQuestion, questions },
+    issues
+  };
+};
+
+/** Puts validated sections together and numbers questions continuously (Q1, Q2, ...). */
+export const assemblePaper = (
+  subject: Subject,
+  classLevel: ClassLevel,
+  session: string,
+  generalInstructions: string[],
+  sections: PaperSection[],
+  language: OutputLanguage = 'English'
+): SamplePaper => {
+  let n = 1;
+  const numbered = sections.map(s => ({ ...s, questions: s.questions.map(q => ({ ...q, number: n++ })) }));
+  const totalMarks = numbered.reduce((sum, s) => sum + s.questions.reduce((t, q) => t + q.marks, 0), 0);
+  return { subject, classLevel, session, duration: paperDuration(totalMarks), totalMarks, language, generalInstructions, sections: numbered };
+};
+
+// Plain-text rendering for bookmarks and clipboard
+export const paperToText = (paper: SamplePaper, withAnswers: boolean): string => {
+  const optionLines = (options?: string[]) => (options || []).map((o, i) => `   (${String.fromCharCode(97 + i)}) ${o}`);
+  const lines = [
+    `CBSE SAMPLE QUESTION PAPER (${paper.session})`,
+    `Class ${paper.classLevel} - ${paper.subject}`,
+    `Time: ${paper.duration} | Maximum Marks: ${paper.totalMarks}`,
+    '',
+    'General Instructions:',
+    ...paper.generalInstructions.map((g, i) => `${i + 1}. ${g}`),
+    ''
+  ];
+  for (const s of paper.sections) {
+    lines.push(`SECTION ${s.id} - ${s.title} (${s.questions.length} x ${s.marksPerQuestion} = ${s.questions.length * s.marksPerQuestion} marks)`);
+    for (const q of s.questions) {
+      lines.push(`Q${q.number}. ${q.text} [${q.marks}]`, ...optionLines(q.options));
+      if (q.alternative) lines.push('   OR', `   ${q.alternative.text}`, ...optionLines(q.alternative.options));
+    }
+    lines.push('');
+  }
+  if (withAnswers) {
+    lines.push('ANSWER KEY');
+    for (const q of paper.sections.flatMap(s => s.questions)) {
+      lines.push(`Q${q.number}. ${q.answer}`);
+      if (q.alternative) lines.push(`   OR: ${q.alternative.answer}`);
+    }
+  }
+  return lines.join('\n').trim();
+};
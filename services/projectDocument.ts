@@ -0,0 +1,72 @@
+import { Subject, ClassLevel, OutputLanguage, ProjectType, ProjectDocument, ProjectSection, ProjectSectionKind } from "../types";
+
+// --- PROJECT DOCUMENTS ---
+// A project is an ordered list of sections so any one of them can be edited or
+// regenerated on its own. Front matter and back matter are fixed; the model only
+// decides how many content chapters there are and what they are called.
+
+export const FRONT_MATTER: { kind: ProjectSectionKind; title: string }[] = [
+  { kind: 'cover', title: 'Cover Page' },
+  { kind: 'index', title: 'Index' },
+  { kind: 'acknowledgement', title: 'Acknowledgement' },
+  { kind: 'certificate', title: 'Certificate' }
+];
+
+export const BACK_MATTER: { kind: ProjectSectionKind; title: string }[] = [
+  { kind: 'conclusion', title: 'Conclusion' },
+  { kind: 'bibliography', title: 'Bibliography' }
+];
+
+export const MIN_CHAPTERS = 2;
+export const MAX_CHAPTERS = 6;
+
+const sectionId = (kind: ProjectSectionKind, index = 0) => kind === 'chapter' ? `chapter-${index + 1}` : kind;
+
+/** Index lists every section after itself, numbered, from their current titles. */
+export const buildIndex = (sections: ProjectSection[]): string =>
+  sections
+    .filter(s => s.kind !== 'cover' && s.kind !== 'index')
+    .map((s, i) => `${i + 1}. ${s.title}`)
+    .join('\n');
+
+export const withRebuiltIndex = (sections: ProjectSection[]): ProjectSection[] => {
+  const index = buildIndex(sections);
+  return sections.map(s => s.kind === 'index' ? { ...s, content: index } : s);
+};
+
+/**
+ * Turns raw model sections into a complete document in the fixed order.
+ * Missing front/back matter gets an empty section (the student can regenerate it);
+ * returns null if there is no usable chapter at all.
+ */
+export const assembleProject = (
+  raw: unknown,
+  subject: Subject,
+  type: ProjectType,
+  topic: string,
+  classLevel: ClassLevel,
+  session: string,
+  language: OutputLanguage = 'English'
+): ProjectDocument | null => {
+  const items: any[] = Array.isArray(raw) ? raw : [];
+  const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+  const find = (kind: ProjectSectionKind) => items.find(i => i?.kind === kind);
+
+  const chapters = items
+    .filter(i => i?.kind === 'chapter' && text(i.title) && text(i.content))
+    .slice(0, MAX_CHAPTERS)
+    .map((i, n): ProjectSection => ({ id: sectionId('chapter', n), kind: 'chapter', title: text(i.title), content: text(i.content) }));
+  if (chapters.length === 0) return null;
+
+  const fixed = ({ kind, title }: { kind: ProjectSectionKind; title: string }): ProjectSection =>
+    ({ id: sectionId(kind), kind, title, content: kind === 'index' ? '' : text(find(kind)?.content) });
+
+  const sections = [...FRONT_MATTER.map(fixed), ...chapters, ...BACK_MATTER.map(fixed)];
+  return { subject, type, topic, classLevel, session, language, sections: withRebuiltIndex(sections) };
+};
+
+// Plain-text rendering for bookmarks
+export const projectToText = (project: ProjectDocument): string =>
+  project.sections
+    .map(s => `${s.title.toUpperCase()}\n${s.content}`)
+    .join('\n\n');
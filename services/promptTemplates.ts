@@ -0,0 +1,236 @@
+import { Subject, ClassLevel, OutputLanguage, QuizDifficulty, QuizFormat, ProjectSectionKind } from "../types";
+import { ASSERTION_REASON_OPTIONS } from "../constants";
+import { OPTIONS_PER_QUESTION } from "./quizValidation";
+
+// --- PROMPT TEMPLATE REGISTRY ---
+// Every prompt geminiService sends is built here. Templates are keyed by feature
+// and optionally narrowed to classes and/or subjects; the most specific match
+// wins, so a new subject or class only needs the entries where it differs.
+// Entries can also be narrowed to an output language.
+// Placeholders look like {{name}}; classLevel and subject are always available.
+
+export type PromptFeature =
+  | 'answer'
+  | 'quiz'
+  | 'project'
+  | 'projectSection'
+  | 'projectCover'
+  | 'projectDiagram'
+  | 'paper'
+  | 'paperSection'
+  | 'translate'
+  | 'evaluate';
+
+interface PromptEntry {
+  feature?: PromptFeature; // Omitted: applies to every feature
+  classes?: ClassLevel[];
+  subjects?: Subject[];
+  languages?: OutputLanguage[];
+  system?: string; // Replaces the system instruction of less specific entries
+  notes?: string; // Appended to the system instruction, least specific first
+  user?: string; // Replaces the user prompt of less specific entries
+}
+
+export type PromptVars = Record<string, string | number>;
+
+const SENIOR: ClassLevel[] = ['11', '12'];
+const SECONDARY: ClassLevel[] = ['9', '10'];
+
+const BASE_SYSTEM = `You are an expert school teacher for CBSE Class {{classLevel}} {{subject}}, strictly following the NCERT syllabus.
+Formatting rules:
+- Explain step-by-step.
+- Use bullet points where possible.
+- Use dashes (-) for bullet points. No headings with #.
+- Write maths in LaTeX between $...$ (inline) or on its own line between $$...$$, e.g. $x^2 + 2x$, $\\frac{a}{b}$, $\\sqrt{2}$, $90^\\circ$.
+- Write chemical formulas and equations as \\ce{...}, e.g. \\ce{H2SO4}, \\ce{Fe^3+}, \\ce{2H2 + O2 -> 2H2O}.
+- Use a pipe table (| A | B | with a |---|---| rule row) only for genuine comparisons.
+- Use **bold** only for a few key terms. No other markdown.
+- Keep the text plain and clean.`;
+
+const REGISTRY: PromptEntry[] = [
+  // --- System instructions ---
+  { system: BASE_SYSTEM },
+  { classes: SECONDARY, notes: "Keep the language simple enough for a secondary school student." },
+  { classes: SENIOR, notes: "This is a senior secondary class: go to the depth CBSE board exams expect, including derivations and reasoning where the syllabus requires them." },
+  { subjects: ['Mathematics'], notes: "Show every step of working, state each formula before using it, and give the final answer on its own line." },
+  { subjects: ['Physics', 'Chemistry'], notes: "Write the unit with every numerical value." },
+  { subjects: ['Biology'], notes: "Use correct biological terms and describe diagrams in words where one would help." },
+  { subjects: ['History', 'Civics', 'Geography', 'Economics'], notes: "Use the names, dates, examples and map references from the NCERT Social Science books." },
+  { subjects: ['English'], notes: "Follow CBSE formats for letters, notices and articles, and refer to the prescribed NCERT English readers when relevant." },
+  { subjects: ['Hindi'], notes: "Quote Hindi text in Devanagari script and follow the prescribed NCERT Hindi textbooks." },
+  { subjects: ['Sanskrit'], notes: "Write Sanskrit in Devanagari script, following the prescribed NCERT Sanskrit textbooks." },
+  { subjects: ['IT'], notes: "Follow the CBSE Information Technology syllabus (Code 402 for Classes 9-10, Code 802 for Classes 11-12) and prefer practical, tool-based examples." },
+
+  // --- Output language ---
+  { languages: ['English'], notes: "Write the response in English." },
+  { languages: ['Hindi'], notes: "Write the whole response in Hindi using Devanagari script. Keep formulas, units and chemical symbols as they are, and give the English term in brackets the first time a technical word appears." },
+  { languages: ['Hinglish'], notes: "Write the response in Hinglish: simple Hindi written in Roman (English) script, mixed with English the way students speak. Keep technical terms, formulas and units in English." },
+  { feature: 'quiz', languages: ['Hindi', 'Hinglish'], notes: "Only the question text, passages, options and explanations are translated: keep \"format\" values, \"True\"/\"False\" and the four assertion-reason options exactly in English as given." },
+  { feature: 'paper', languages: ['Hindi', 'Hinglish'], notes: "Keep JSON field names and section ids in English." },
+  { feature: 'project', languages: ['Hindi', 'Hinglish'], notes: "Keep the kind values in English; titles and content follow the output language." },
+
+  // --- Feature prompts ---
+  {
+    feature: 'answer',
+    user: `Class: {{classLevel}}, Subject: {{subject}}, Mode: {{mode}}
+Question: {{question}}`
+  },
+  {
+    feature: 'quiz',
+    user: `Generate {{count}} UNIQUE and FRESH quiz questions for Class {{classLevel}} {{subject}}{{topicClause}}.
+Ensure these are different from previous sets if possible.
+Difficulty: {{difficulty}}
+Use a roughly even mix of these formats, and set "format" on every item:
+{{formats}}
+Wherever there are options, correctAnswer must be copied exactly from options.
+{{avoid}}
+Random Seed: {{seed}}`
+  },
+  {
+    feature: 'project',
+    user: `Create a {{type}} for Class {{classLevel}} {{subject}}, Topic: {{topic}}, Session: {{session}}.
+Return one item per section, in this order:
+{{sections}}
+Do not write an index; it is generated from the titles.`
+  },
+  { feature: 'project', classes: SENIOR, notes: "Senior projects should include data, analysis or an experiment write-up, not only descriptive text." },
+  {
+    feature: 'projectSection',
+    user: `This is one section of a {{type}} for Class {{classLevel}} {{subject}}, Topic: {{topic}}, Session: {{session}}.
+Sections in the project: {{titles}}.
+Write a fresh version of the section "{{title}}". {{guide}}
+Return only the section text, without repeating its title.
+Random Seed: {{seed}}`
+  },
+  {
+    feature: 'projectCover',
+    user: `A clean, colourful cover illustration for a Class {{classLevel}} {{subject}} school {{type}} on "{{topic}}". Flat illustration style, portrait orientation, no text, no watermark.`
+  },
+  {
+    feature: 'projectDiagram',
+    user: `A simple educational diagram for the section "{{title}}" of a Class {{classLevel}} {{subject}} project on "{{topic}}". Textbook style, white background, short clear English labels.
+Section notes: {{notes}}`
+  },
+  {
+    feature: 'paper',
+    user: `Create a {{header}}
+Follow this blueprint exactly:
+{{blueprint}}
+Give every question its marks and a model answer for the answer key. Keep generalInstructions short.`
+  },
+  { feature: 'paper', subjects: ['English', 'Hindi', 'Sanskrit'], notes: "Reading comprehension questions must include the full passage in the question text." },
+  {
+    feature: 'paperSection',
+    user: `Write only {{section}}
+This is part of a {{header}}
+The previous attempt was rejected: {{issues}}.
+Set id to "{{id}}".`
+  },
+  {
+    feature: 'evaluate',
+    user: `Mark this Class {{classLevel}} {{subject}} answer out of {{marks}} as a CBSE board examiner would.
+Question: {{question}}
+{{scheme}}
+Marking scheme: {{marksGuide}}
+Give a score in steps of 0.5, one or two lines of feedback, the key points the student missed, and a model answer in "{{mode}}" style.
+
+Student's answer:
+{{studentAnswer}}`
+  },
+  { feature: 'evaluate', subjects: ['Mathematics', 'Physics', 'Chemistry'], notes: "Award step marks for correct method even when the final answer is wrong, and deduct for a missing unit." },
+  { feature: 'evaluate', subjects: ['English', 'Hindi', 'Sanskrit'], notes: "Marks go to content first; deduct for language errors only where they change the meaning or break the required format." },
+  {
+    feature: 'translate',
+    system: `You translate CBSE Class {{classLevel}} study material for students. Translate faithfully without adding or dropping content.
+- Copy $...$ maths, \\ce{...} formulas, **bold** markers and | tables | unchanged; translate only the words around them.`,
+    user: `Translate this study material into {{target}}.
+Keep the headings, numbering, bullet points, formulas and units exactly where they are. Return only the translation.
+
+{{text}}`
+  }
+];
+
+// --- Fragments shared by several templates ---
+
+export const DIFFICULTY_GUIDE: Record<QuizDifficulty, string> = {
+  easy: "Easy: direct recall of definitions, formulas and facts straight from the NCERT text.",
+  medium: "Medium: understanding and one-step application, like typical school unit tests.",
+  board: "Board Level: match the CBSE board exam standard, including competency-based and multi-step application questions."
+};
+
+export const FORMAT_GUIDE: Record<QuizFormat, string> = {
+  'mcq': `mcq: a question with exactly ${OPTIONS_PER_QUESTION} distinct options.`,
+  'assertion-reason': `assertion-reason: an Assertion (A) and a Reason (R); options are exactly these four, in order: ${ASSERTION_REASON_OPTIONS.map(o => `"${o}"`).join(', ')}.`,
+  'case-based': `case-based: a short case/source passage (3-5 sentences) and one question on it with exactly ${OPTIONS_PER_QUESTION} options.`,
+  'true-false': "true-false: a single statement; correctAnswer is \"True\" or \"False\".",
+  'fill-blank': "fill-blank: a sentence with the missing part written as ______; correctAnswer is the missing word(s)."
+};
+
+// How many value points a CBSE marking scheme expects for each weight
+export const MARKS_GUIDE: Record<number, string> = {
+  1: "1 mark: one correct fact, term or final answer; no explanation needed.",
+  2: "2 marks: two distinct value points, or the formula plus the correct result (1 + 1).",
+  3: "3 marks: three value points, or method, working and result with the unit (1 + 1 + 1).",
+  4: "4 marks: case-based; one mark for each correctly answered part.",
+  5: "5 marks: five value points, or a full derivation / solution with a labelled diagram where relevant; partial marks for each correct step."
+};
+
+// What each project section should contain, for the full project and single-section regeneration
+export const PROJECT_SECTION_GUIDE: Record<Exclude<ProjectSectionKind, 'index'>, string> = {
+  cover: "Cover page text: project title, subject, class, session, and blank lines for 'Submitted by', 'Submitted to' and school name.",
+  acknowledgement: "Acknowledgement (120-150 words) thanking the subject teacher, principal, parents and friends.",
+  certificate: "Certificate stating that the student completed this project under the teacher's guidance, with signature lines.",
+  chapter: "A content chapter (300-500 words) with sub-headings, points, examples and where useful a described diagram or table.",
+  conclusion: "Conclusion (150-200 words) summarising what was learnt and its real-life relevance.",
+  bibliography: "Bibliography: 5-8 references (NCERT textbook, reference books, reliable websites)."
+};
+
+// --- Resolution ---
+
+const matches = (entry: PromptEntry, feature: PromptFeature, classLevel: ClassLevel, subject: Subject | undefined, language: OutputLanguage) =>
+  (!entry.feature || entry.feature === feature) &&
+  (!entry.classes || entry.classes.includes(classLevel)) &&
+  (!entry.subjects || (!!subject && entry.subjects.includes(subject))) &&
+  (!entry.languages || entry.languages.includes(language));
+
+// Language beats feature beats subject beats class; ties keep registry order.
+// Language notes therefore come last, where the model weighs them most.
+const specificity = (entry: PromptEntry) =>
+  (entry.languages ? 8 : 0) + (entry.feature ? 4 : 0) + (entry.subjects ? 2 : 0) + (entry.classes ? 1 : 0);
+
+/** Replaces {{name}} placeholders; unknown names become empty so a prompt never shows braces. */
+export const interpolate = (template: string, vars: PromptVars): string =>
+  template.replace(/\{\{(\w+)\}\}/g, (_, name: string) => {
+    if (vars[name] === undefined) {
+      console.warn(`[Prompts] Missing value for {{${name}}}`);
+      return '';
+    }
+    return String(vars[name]);
+  });
+
+/**
+ * Builds the system instruction and user prompt for one request.
+ * `system` and `user` come from the most specific entry that defines them;
+ * `notes` from every matching entry are appended to the system instruction.
+ */
+export const buildPrompt = (
+  feature: PromptFeature,
+  classLevel: ClassLevel,
+  subject: Subject | undefined, // Unknown for older bookmarks; subject entries are skipped
+  vars: PromptVars = {},
+  language: OutputLanguage = 'English'
+): { system: string; user: string } => {
+  const applicable = REGISTRY
+    .filter(e => matches(e, feature, classLevel, subject, language))
+    .sort((a, b) => specificity(a) - specificity(b));
+
+  const pick = (field: 'system' | 'user') => [...applicable].reverse().find(e => e[field])?.[field] || '';
+  const notes = applicable.filter(e => e.notes).map(e => `- ${e.notes}`);
+  const allVars = { classLevel, subject: subject || '', ...vars };
+
+  const system = [pick('system'), notes.length ? `Also:\n${notes.join('\n')}` : ''].filter(Boolean).join('\n');
+  return {
+    system: interpolate(system, allVars),
+    user: interpolate(pick('user'), allVars)
+  };
+};
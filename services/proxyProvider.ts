@@ -0,0 +1,200 @@
+import { AI_PROXY_URL } from '../constants';
+import { AIFeature } from '../types';
+import { startCall, AICallOptions, TIMEOUT_MESSAGE } from './aiCall';
+import { db } from './db';
+import type { AIProvider } from './ai';
+import type { HealthEntry } from './keyHealth';
+import type { AITelemetryEvent, TelemetrySummary } from './aiTelemetry';
+import type { UsageSummary } from './usageQuota';
+
+// --- AI PROXY CLIENT ---
+// The browser never sees a Gemini key: every call goes to the server in server/,
+// which runs the real provider (key rotation, retries, validation) and returns its result.
+
+const HIGH_TRAFFIC = "⚠️ High Traffic: My servers are a bit busy right now. Please try asking again in a few seconds!";
+
+type Outcome = 'cancelled' | 'timeout' | 'failed';
+
+// Failure values per return type, matching what the Gemini provider returns itself
+const textFailure = (outcome: Outcome) => outcome === 'cancelled' ? "" : outcome === 'timeout' ? TIMEOUT_MESSAGE : HIGH_TRAFFIC;
+const nullFailure = () => null;
+
+// The server charges AI credits to the signed-in user, so calls carry their access token.
+// The local adapters have none; they send the username instead (see server/identity.ts).
+const authHeaders = async (): Promise<Record<string, string>> => {
+  const token = await db.getAccessToken().catch(() => null);
+  if (token) return { Authorization: `Bearer ${token}` };
+  const user = await db.getSession().catch(() => null);
+  return user ? { 'X-Study-Buddy-User': encodeURIComponent(user.username) } : {};
+};
+
+// Out of credits (429) or signed out (401): the server's message is for the student, not a failure
+const refusalOf = async (response: Response): Promise<string | null> => {
+  if (response.status !== 401 && response.status !== 429) return null;
+  const body = await response.json().catch(() => ({}));
+  return typeof body.error === 'string' ? body.error : HIGH_TRAFFIC;
+};
+
+const post = async <T>(path: string, body: unknown, feature: AIFeature, options: AICallOptions | undefined, onFailure: (outcome: Outcome) => T): Promise<T> => {
+  const call = startCall(feature, options);
+  try {
+    const response = await fetch(`${AI_PROXY_URL}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...await authHeaders() },
+      body: JSON.stringify(body),
+      signal: call.signal
+    });
+    const refused = await refusalOf(response);
+    if (refused) {
+      options?.onRefused?.(refused);
+      return onFailure('cancelled');
+    }
+    if (!response.ok) throw new Error(`Proxy responded ${response.status}`);
+    const { result } = await response.json();
+    return result as T;
+  } catch (error) {
+    if (call.cancelled()) return onFailure('cancelled');
+    if (call.timedOut()) return onFailure('timeout');
+    console.error(`[AI Proxy] ${path} failed`, error);
+    return onFailure('failed');
+  } finally {
+    call.done();
+  }
+};
+
+export const proxyProvider: AIProvider = {
+  name: 'proxy',
+
+  getStudyAnswer: (question, subject, classLevel, mode, history, image, language, options) =>
+    post('/answer', { question, subject, classLevel, mode, history, image, language }, 'answer', options, textFailure),
+
+  // Reads the server's newline-delimited JSON stream; a stop or dropped connection keeps the partial text
+  async streamStudyAnswer(question, subject, classLevel, mode, history, onChunk, image, language, options) {
+    const call = startCall('answer', options);
+    let text = "";
+    try {
+      const response = await fetch(`${AI_PROXY_URL}/answer/stream`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...await authHeaders() },
+        body: JSON.stringify({ question, subject, classLevel, mode, history, image, language }),
+        signal: call.signal
+      });
+      const refused = await refusalOf(response);
+      if (refused) {
+        options?.onRefused?.(refused);
+        return "";
+      }
+      if (!response.ok || !response.body) throw new Error(`Proxy responded ${response.status}`);
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffered = "";
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += decoder.decode(value, { stream: true });
+        const lines = buffered.split('\n');
+        buffered = lines.pop() || "";
+        for (const line of lines.filter(Boolean)) {
+          const message = JSON.parse(line);
+          text = message.text;
+          if (message.done) return text;
+          onChunk(text);
+        }
+      }
+      return text;
+    } catch (error) {
+      if (text) return text;
+      if (call.cancelled()) return "";
+      if (call.timedOut()) return TIMEOUT_MESSAGE;
+      console.error("[AI Proxy] Stream failed", error);
+      return HIGH_TRAFFIC;
+    } finally {
+      call.done();
+    }
+  },
+
+  getQuizQuestions: (subject, classLevel, topic, config, language, options) =>
+    post('/quiz', { subject, classLevel, topic, config, language }, 'quiz', options, () => []),
+
+  getProjectContent: (subject, type, topic, classLevel, language, options) =>
+    post('/project', { subject, type, topic, classLevel, language }, 'project', options, nullFailure),
+
+  getProjectSection: (project, sectionId, options) =>
+    post('/project/section', { project, sectionId }, 'projectSection', options, textFailure),
+
+  getProjectImage: (project, sectionId, options) =>
+    post('/project/image', { project, sectionId }, 'image', options, nullFailure),
+
+  getSamplePaper: (subject, classLevel, language, options) =>
+    post('/paper', { subject, classLevel, language }, 'paper', options, nullFailure),
+
+  evaluateAnswer: (question, studentAnswer, marks, subject, classLevel, mode, language, markingScheme, options) =>
+    post('/evaluate', { question, studentAnswer, marks, subject, classLevel, mode, language, markingScheme }, 'evaluate', options, nullFailure),
+
+  translateText: (text, language, classLevel, subject, options) =>
+    post('/translate', { text, language, classLevel, subject }, 'translate', options, textFailure)
+};
+
+/** Today's AI credits for the signed-in user, as the server counts them. Null if the proxy can't be reached. */
+export const fetchProxyUsage = async (): Promise<UsageSummary | null> => {
+  try {
+    const response = await fetch(`${AI_PROXY_URL}/usage`, { headers: await authHeaders() });
+    return response.ok ? await response.json() : null;
+  } catch {
+    return null;
+  }
+};
+
+export interface ProxyHealth {
+  provider: string;
+  usableKeys: number;
+  entries: HealthEntry[];
+}
+
+/** Key pool status from the proxy, for the diagnostics panel. Null if the proxy can't be reached. */
+export const fetchProxyHealth = async (): Promise<ProxyHealth | null> => {
+  try {
+    const response = await fetch(`${AI_PROXY_URL}/health`);
+    return response.ok ? await response.json() : null;
+  } catch {
+    return null;
+  }
+};
+
+// --- Admin routes ---
+// /health/reset and /telemetry need the proxy's AI_ADMIN_TOKEN. The operator types it into
+// Settings; it is kept for this tab only and never baked into the build or the dev proxy.
+
+const ADMIN_TOKEN_KEY = 'study_buddy_admin_token';
+
+export const getAdminToken = () => sessionStorage.getItem(ADMIN_TOKEN_KEY) || '';
+
+export const setAdminToken = (token: string) => {
+  if (token) sessionStorage.setItem(ADMIN_TOKEN_KEY, token);
+  else sessionStorage.removeItem(ADMIN_TOKEN_KEY);
+};
+
+const adminHeaders = (): Record<string, string> => {
+  const token = getAdminToken();
+  return token ? { 'X-Admin-Token': token } : {};
+};
+
+/** Clears the proxy's key cooldowns. False if the token is missing or wrong, or the proxy can't be reached. */
+export const resetProxyHealth = () => fetch(`${AI_PROXY_URL}/health/reset`, { method: 'POST', headers: adminHeaders() })
+  .then(response => response.ok, () => false);
+
+export interface ProxyTelemetry {
+  events: AITelemetryEvent[]; // Newest first
+  summary: TelemetrySummary;
+}
+
+/** Recent AI call events from the proxy, for the call log panel. Null if the proxy can't be reached or refuses the admin token. */
+export const fetchProxyTelemetry = async (): Promise<ProxyTelemetry | null> => {
+  try {
+    const response = await fetch(`${AI_PROXY_URL}/telemetry`, { headers: adminHeaders() });
+    return response.ok ? await response.json() : null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,219 @@
+import { QuizQuestion, QuizFormat } from "../types";
+import { ASSERTION_REASON_OPTIONS, QUIZ_FORMATS } from "../constants";
+
+// --- QUIZ VALIDATION & REPAIR ---
+// The model regularly returns items whose correctAnswer isn't one of the options,
+// 3 or 5 options, or repeats. QuizMaker compares strings exactly, so any of those
+// makes every choice "wrong". Everything goes through here before reaching the UI.
+
+export const OPTIONS_PER_QUESTION = 4;
+
+// Folds case, Unicode form and whitespace only. Signs and operators stay: "-5" isn't "5",
+// "x + 2" isn't "x - 2". Spaces next to a symbol go, so "x + 2" == "x+2".
+const normalize = (text: string) => text.normalize('NFC').toLowerCase()
+  .replace(/\s+/g, ' ')
+  .replace(/ ?([^\p{L}\p{M}\p{N} ]) ?/gu, '$1')
+  .trim();
+
+// Digits and symbols in order; a fuzzy match may fix spelling but never change these
+const symbols = (text: string) => text.replace(/[\p{L}\p{M}\s]/gu, '');
+
+// Strips "A)", "(b)", "Option C:" style prefixes the model sometimes adds.
+// Not "a - b": a dash after a letter is an operator.
+const stripOptionLabel = (text: string) => text.replace(/^\s*(option\s*)?\(?[a-d][).:]\s+/i, '').trim();
+
+const levenshtein = (a: string, b: string): number => {
+  const prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = prev[0];
+    prev[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const temp = prev[j];
+      prev[j] = Math.min(prev[j] + 1, prev[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = temp;
+    }
+  }
+  return prev[b.length];
+};
+
+const similarity = (a: string, b: string) => {
+  const longest = Math.max(a.length, b.length);
+  return longest === 0 ? 1 : 1 - levenshtein(a, b) / longest;
+};
+
+// The one option that passes `test`, or null if none or several do
+const only = (options: string[], test: (option: string) => boolean) => {
+  const matches = options.filter(test);
+  return matches.length === 1 ? matches[0] : null;
+};
+
+/**
+ * Maps a possibly-sloppy correctAnswer onto one of the options:
+ * exact → trimmed → case/spacing-insensitive → letter ("B", "Option B") → containment → closest spelling.
+ * The looser steps only accept a single candidate with the same digits and symbols.
+ */
+export const matchCorrectAnswer = (answer: string, options: string[]): string | null => {
+  if (options.includes(answer)) return answer;
+  const trimmed = only(options, o => o.trim() === answer.trim());
+  if (trimmed) return trimmed;
+
+  const target = normalize(stripOptionLabel(answer));
+  if (!target) return null;
+
+  const byNormal = only(options, o => normalize(o) === target);
+  if (byNormal) return byNormal;
+
+  const letter = answer.trim().match(/^(?:option\s*)?\(?([a-d])\)?\.?$/i);
+  if (letter) return options[letter[1].toLowerCase().charCodeAt(0) - 97] ?? null;
+
+  const sameSymbols = options.filter(o => symbols(normalize(o)) === symbols(target));
+
+  const containing = only(sameSymbols, o => {
+    const n = normalize(o);
+    return !!n && (n.includes(target) || target.includes(n));
+  });
+  if (containing) return containing;
+
+  // Minimum similarity to accept a fuzzy match
+  return only(sameSymbols, o => similarity(normalize(o), target) > 0.8);
+};
+
+const cleanString = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+// Cleans, de-duplicates and trims to 4 options; returns null if the item can't be trusted
+const repairOptions = (rawOptions: unknown, rawAnswer: unknown): { options: string[]; correctAnswer: string } | null => {
+  if (!Array.isArray(rawOptions) || typeof rawAnswer !== 'string') return null;
+
+  const seen = new Set<string>();
+  let options: string[] = [];
+  for (const opt of rawOptions) {
+    if (typeof opt !== 'string' && typeof opt !== 'number') continue;
+    const clean = stripOptionLabel(String(opt));
+    const key = normalize(clean);
+    if (!key || seen.has(key)) continue;
+    seen.add(key);
+    options.push(clean);
+  }
+  if (options.length < OPTIONS_PER_QUESTION) return null;
+
+  const correctAnswer = matchCorrectAnswer(rawAnswer, options);
+  if (!correctAnswer) return null;
+
+  // Too many options: keep the correct one plus the first distractors, in original order
+  if (options.length > OPTIONS_PER_QUESTION) {
+    const distractors = options.filter(o => o !== correctAnswer).slice(0, OPTIONS_PER_QUESTION - 1);
+    options = options.filter(o => o === correctAnswer || distractors.includes(o));
+  }
+  return { options, correctAnswer };
+};
+
+const parseBoolean = (value: unknown): boolean | null => {
+  if (typeof value === 'boolean') return value;
+  const text = normalize(String(value ?? '')).replace(/[.!]+$/, '');
+  if (['true', 't', 'yes', 'correct'].includes(text)) return true;
+  if (['false', 'f', 'no', 'incorrect'].includes(text)) return false;
+  return null;
+};
+
+// Older cached sets and sloppy model output may omit `format`
+const inferFormat = (raw: any): QuizFormat | null => {
+  if (QUIZ_FORMATS.some(f => f.value === raw.format)) return raw.format;
+  if (raw.assertion && raw.reason) return 'assertion-reason';
+  if (raw.passage && Array.isArray(raw.options)) return 'case-based';
+  if (Array.isArray(raw.options)) return 'mcq';
+  if (parseBoolean(raw.correctAnswer) !== null) return 'true-false';
+  if (typeof raw.correctAnswer === 'string') return 'fill-blank';
+  return null;
+};
+
+/**
+ * Validates one raw model item and repairs what can be repaired.
+ * Returns null for items that cannot be trusted (missing question, < 4 distinct options,
+ * correct answer not recognisable among the options, fill-blank without a blank...).
+ */
+export const repairQuizQuestion = (raw: any): QuizQuestion | null => {
+  if (!raw || typeof raw !== 'object') return null;
+
+  const format = inferFormat(raw);
+  const question = cleanString(raw.question);
+  const explanation = cleanString(raw.explanation);
+  if (!format || !question) return null;
+
+  switch (format) {
+    case 'mcq': {
+      const repaired = repairOptions(raw.options, raw.correctAnswer);
+      return repaired && { format, question, explanation, ...repaired };
+    }
+    case 'case-based': {
+      const passage = cleanString(raw.passage);
+      const repaired = repairOptions(raw.options, raw.correctAnswer);
+      return passage && repaired ? { format, question, explanation, passage, ...repaired } : null;
+    }
+    case 'assertion-reason': {
+      const assertion = cleanString(raw.assertion);
+      const reason = cleanString(raw.reason);
+      if (!assertion || !reason || typeof raw.correctAnswer !== 'string') return null;
+      // Always use the standard wording, whatever the model paraphrased
+      const correctAnswer = matchCorrectAnswer(raw.correctAnswer, ASSERTION_REASON_OPTIONS);
+      return correctAnswer ? { format, question, explanation, assertion, reason, options: [...ASSERTION_REASON_OPTIONS], correctAnswer } : null;
+    }
+    case 'true-false': {
+      const correctAnswer = parseBoolean(raw.correctAnswer);
+      return correctAnswer === null ? null : { format, question, explanation, correctAnswer };
+    }
+    case 'fill-blank': {
+      const correctAnswer = cleanString(raw.correctAnswer);
+      // The student needs to see where the blank is
+      if (!correctAnswer || !/_{2,}/.test(question)) return null;
+      const acceptedAnswers = Array.isArray(raw.acceptedAnswers)
+        ? raw.acceptedAnswers.map(cleanString).filter(Boolean)
+        : [];
+      return { format, question, explanation, correctAnswer, ...(acceptedAnswers.length ? { acceptedAnswers } : {}) };
+    }
+  }
+};
+
+/**
+ * Repairs a batch and drops anything that duplicates a question already in `existing`
+ * (or earlier in the batch), or whose format wasn't asked for.
+ */
+export const collectValidQuestions = (rawItems: unknown, existing: QuizQuestion[] = [], formats?: QuizFormat[]): QuizQuestion[] => {
+  if (!Array.isArray(rawItems)) return [];
+  const seen = new Set(existing.map(questionKey));
+  const valid: QuizQuestion[] = [];
+  for (const raw of rawItems) {
+    const repaired = repairQuizQuestion(raw);
+    if (!repaired || (formats && !formats.includes(repaired.format))) continue;
+    const key = questionKey(repaired);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    valid.push(repaired);
+  }
+  return valid;
+};
+
+// Assertion-reason and case-based items often share a generic question line,
+// so the assertion / passage is what identifies them
+const questionKey = (q: QuizQuestion) => {
+  if (q.format === 'assertion-reason') return `${q.format}|${normalize(q.assertion)}`;
+  if (q.format === 'case-based') return `${q.format}|${normalize(q.passage)}|${normalize(q.question)}`;
+  return `${q.format}|${normalize(q.question)}`;
+};
+
+/**
+ * Scores a student's response. Option formats compare the chosen option,
+ * true/false compares "True"/"False", fill-blank ignores case and spacing but not signs.
+ */
+export const checkQuizAnswer = (q: QuizQuestion, response: string): boolean => {
+  switch (q.format) {
+    case 'true-false':
+      return parseBoolean(response) === q.correctAnswer;
+    case 'fill-blank':
+      return [q.correctAnswer, ...(q.acceptedAnswers || [])].some(a => normalize(a) === normalize(response));
+    default:
+      return response === q.correctAnswer;
+  }
+};
+
+export const formatCorrectAnswer = (q: QuizQuestion): string =>
+  q.format === 'true-false' ? (q.correctAnswer ? 'True' : 'False') : q.correctAnswer;
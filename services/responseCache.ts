@@ -0,0 +1,175 @@
+import { Subject, ClassLevel, AnswerMode, OutputLanguage, ProjectType, QuizConfig } from '../types';
+
+// --- LOCAL RESPONSE CACHE ---
+// Classmates ask the same NCERT questions over and over. Answers, papers and
+// projects are kept in IndexedDB (falls back to memory if IndexedDB is blocked,
+// e.g. private browsing) with a TTL per kind and an LRU cap on total entries.
+
+export type CacheKind = 'answer' | 'paper' | 'project' | 'quiz';
+
+interface CacheEntry<T = unknown> {
+  key: string;
+  kind: CacheKind;
+  value: T;
+  createdAt: number;
+  lastAccess: number;
+  expiresAt: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const TTL: Record<CacheKind, number> = {
+  answer: 14 * DAY,
+  paper: 3 * DAY,
+  project: 7 * DAY,
+  quiz: 7 * DAY
+};
+
+const MAX_ENTRIES = 300;
+
+const DB_NAME = 'study_buddy_cache';
+const STORE = 'responses';
+
+// Fold case, Unicode form and whitespace only, so "What is  Force" == "what is force".
+// Symbols stay: "x+2=5" and "x-2=5" are different questions.
+const normalize = (text: string) => text.normalize('NFC').toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const cacheKeys = {
+  // v2: keys keep symbols; v1 keys merged questions that differ only in an operator
+  answer: (question: string, subject: Subject, classLevel: ClassLevel, mode: AnswerMode, language: OutputLanguage) =>
+    `answer|v2|${classLevel}|${subject}|${mode}|${language}|${normalize(question)}`,
+  // v2: papers are cached as structured SamplePaper objects, not text
+  paper: (subject: Subject, classLevel: ClassLevel, language: OutputLanguage) =>
+    `paper|v2|${classLevel}|${subject}|${language}`,
+  // v3: projects are cached as sectioned ProjectDocument objects (v2), keyed with symbols kept
+  project: (subject: Subject, type: ProjectType, topic: string, classLevel: ClassLevel, language: OutputLanguage) =>
+    `project|v3|${classLevel}|${subject}|${type}|${language}|${normalize(topic)}`,
+  quiz: (subject: Subject, classLevel: ClassLevel, topic: string, config: QuizConfig, language: OutputLanguage) =>
+    `quiz|v2|${classLevel}|${subject}|${language}|${normalize(topic)}|${config.count}|${config.difficulty}|${[...config.formats].sort().join(',')}`
+};
+
+// --- IndexedDB plumbing ---
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+const memoryStore = new Map<string, CacheEntry>();
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      try {
+        if (typeof indexedDB === 'undefined') return resolve(null);
+        const request = indexedDB.open(DB_NAME, 1);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE, { keyPath: 'key' });
+          store.createIndex('lastAccess', 'lastAccess');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn("[Cache] IndexedDB unavailable, using memory cache.", request.error);
+          resolve(null);
+        };
+      } catch {
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const readEntry = async (key: string): Promise<CacheEntry | undefined> => {
+  const idb = await openDb();
+  if (!idb) return memoryStore.get(key);
+  return requestToPromise(idb.transaction(STORE, 'readonly').objectStore(STORE).get(key));
+};
+
+const writeEntry = async (entry: CacheEntry): Promise<void> => {
+  const idb = await openDb();
+  if (!idb) {
+    memoryStore.set(entry.key, entry);
+    return;
+  }
+  await requestToPromise(idb.transaction(STORE, 'readwrite').objectStore(STORE).put(entry));
+};
+
+const deleteEntry = async (key: string): Promise<void> => {
+  const idb = await openDb();
+  if (!idb) {
+    memoryStore.delete(key);
+    return;
+  }
+  await requestToPromise(idb.transaction(STORE, 'readwrite').objectStore(STORE).delete(key));
+};
+
+// Drop the least recently used entries until we are back under MAX_ENTRIES
+const evict = async (): Promise<void> => {
+  const idb = await openDb();
+  if (!idb) {
+    const overflow = memoryStore.size - MAX_ENTRIES;
+    if (overflow > 0) {
+      [...memoryStore.values()]
+        .sort((a, b) => a.lastAccess - b.lastAccess)
+        .slice(0, overflow)
+        .forEach(e => memoryStore.delete(e.key));
+    }
+    return;
+  }
+  const store = idb.transaction(STORE, 'readwrite').objectStore(STORE);
+  let overflow = (await requestToPromise(store.count())) - MAX_ENTRIES;
+  if (overflow <= 0) return;
+  await new Promise<void>((resolve, reject) => {
+    const cursorRequest = store.index('lastAccess').openCursor();
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor || overflow <= 0) return resolve();
+      cursor.delete();
+      overflow--;
+      cursor.continue();
+    };
+    cursorRequest.onerror = () => reject(cursorRequest.error);
+  });
+};
+
+export const responseCache = {
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const entry = await readEntry(key);
+      if (!entry) return null;
+      if (entry.expiresAt < Date.now()) {
+        await deleteEntry(key);
+        return null;
+      }
+      await writeEntry({ ...entry, lastAccess: Date.now() });
+      return entry.value as T;
+    } catch (e) {
+      console.warn("[Cache] Read failed", e);
+      return null;
+    }
+  },
+
+  async set<T>(key: string, kind: CacheKind, value: T): Promise<void> {
+    const now = Date.now();
+    try {
+      await writeEntry({ key, kind, value, createdAt: now, lastAccess: now, expiresAt: now + TTL[kind] });
+      await evict();
+    } catch (e) {
+      console.warn("[Cache] Write failed", e);
+    }
+  },
+
+  async remove(key: string): Promise<void> {
+    try {
+      await deleteEntry(key);
+    } catch (e) {
+      console.warn("[Cache] Delete failed", e);
+    }
+  }
+};
+
+// Friendly "⚠️ High Traffic" strings must never be cached as if they were answers
+export const isCacheable = (text: string | null | undefined): text is string =>
+  !!text && !text.startsWith('⚠️') && !text.startsWith('Error:');
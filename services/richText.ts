@@ -0,0 +1,359 @@
+// --- RICH TEXT (MATHS, CHEMISTRY, TABLES) ---
+// Answers, quizzes, papers and projects may carry a small, safe formatting subset:
+//   $...$ / $$...$$ / \(...\)   LaTeX-style maths: ^ _ \frac \sqrt \text and common symbols
+//   \ce{H2SO4}, \ce{Fe^{3+}}     chemical formulas (bare H2SO4-style formulas are detected too)
+//   x^2, 10^{-3}, 2*x            caret powers and * multiplication outside maths
+//   **term**                     bold key terms
+//   | a | b |                    simple pipe tables
+// Text is parsed into a small node tree, never into HTML, so the model can't inject
+// markup. The same tree renders to React (RichText), to HTML for Word/print
+// exports, and to plain Unicode text for copy-paste.
+
+export type InlineNode =
+  | { type: 'text'; text: string }
+  | { type: 'sup'; children: InlineNode[] }
+  | { type: 'sub'; children: InlineNode[] }
+  | { type: 'frac'; num: InlineNode[]; den: InlineNode[] }
+  | { type: 'sqrt'; children: InlineNode[] }
+  | { type: 'bold'; children: InlineNode[] }
+  | { type: 'math'; children: InlineNode[] };
+
+export type RichBlock =
+  | { type: 'line'; children: InlineNode[] }
+  | { type: 'blank' }
+  | { type: 'display'; children: InlineNode[] } // $$...$$ on its own line
+  | { type: 'table'; header: InlineNode[][]; rows: InlineNode[][][] };
+
+const SYMBOLS: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', varepsilon: 'ε', theta: 'θ', lambda: 'λ', mu: 'μ',
+  nu: 'ν', pi: 'π', rho: 'ρ', sigma: 'σ', tau: 'τ', phi: 'φ', varphi: 'φ', omega: 'ω', eta: 'η', chi: 'χ', psi: 'ψ',
+  Gamma: 'Γ', Delta: 'Δ', Theta: 'Θ', Lambda: 'Λ', Pi: 'Π', Sigma: 'Σ', Phi: 'Φ', Omega: 'Ω',
+  times: '×', cdot: '·', div: '÷', pm: '±', mp: '∓', le: '≤', leq: '≤', ge: '≥', geq: '≥', neq: '≠', ne: '≠',
+  approx: '≈', equiv: '≡', propto: '∝', infty: '∞', degree: '°', circ: '°', angle: '∠', triangle: '△', perp: '⊥',
+  parallel: '∥', therefore: '∴', because: '∵', rightarrow: '→', to: '→', leftarrow: '←', Rightarrow: '⇒',
+  leftrightarrow: '↔', rightleftharpoons: '⇌', sum: 'Σ', int: '∫', partial: '∂', nabla: '∇', in: '∈', cup: '∪',
+  cap: '∩', subset: '⊂', subseteq: '⊆', emptyset: '∅', forall: '∀', exists: '∃', ldots: '…', cdots: '⋯',
+  sin: 'sin', cos: 'cos', tan: 'tan', cot: 'cot', sec: 'sec', csc: 'cosec', cosec: 'cosec', log: 'log', ln: 'ln',
+  lim: 'lim', max: 'max', min: 'min', percent: '%', '%': '%', '$': '$', '{': '{', '}': '}', ',': ' ', ';': ' ', ' ': ' ', '\\': ' ', quad: '  '
+};
+
+const ELEMENTS = new Set(('H He Li Be B C N O F Ne Na Mg Al Si P S Cl Ar K Ca Sc Ti V Cr Mn Fe Co Ni Cu Zn Ga Ge As Se Br Kr ' +
+  'Rb Sr Y Zr Nb Mo Tc Ru Rh Pd Ag Cd In Sn Sb Te I Xe Cs Ba La Ce Pr Nd Pm Sm Eu Gd Tb Dy Ho Er Tm Yb Lu Hf Ta W Re Os ' +
+  'Ir Pt Au Hg Tl Pb Bi Po At Rn Fr Ra Ac Th Pa U Np Pu').split(' '));
+
+const text = (value: string): InlineNode => ({ type: 'text', text: value });
+
+// Merges neighbouring text nodes so renderers don't emit one span per character
+const compact = (nodes: InlineNode[]): InlineNode[] => nodes.reduce<InlineNode[]>((out, node) => {
+  const last = out[out.length - 1];
+  if (node.type === 'text' && last?.type === 'text') out[out.length - 1] = text(last.text + node.text);
+  else if (node.type !== 'text' || node.text) out.push(node);
+  return out;
+}, []);
+
+// Reads a {...} group (balanced) or a single character starting at `i`
+const readGroup = (src: string, i: number): { body: string; end: number } => {
+  if (src[i] !== '{') return { body: src[i] ?? '', end: i + 1 };
+  let depth = 0;
+  for (let j = i; j < src.length; j++) {
+    if (src[j] === '{') depth++;
+    else if (src[j] === '}' && --depth === 0) return { body: src.slice(i + 1, j), end: j + 1 };
+  }
+  return { body: src.slice(i + 1), end: src.length };
+};
+
+// --- Chemistry ---
+
+// Digits after an element or a closing bracket are subscripts; coefficients stay normal
+const parseChem = (src: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    const arrow = src.startsWith('<=>', i) ? '<=>' : src.startsWith('->', i) ? '->' : null;
+    if (arrow) {
+      // Pad the arrow only where the source didn't already space it
+      const before = i > 0 && src[i - 1] === ' ' ? '' : ' ';
+      const after = src[i + arrow.length] === ' ' ? '' : ' ';
+      nodes.push(text(`${before}${arrow === '->' ? '→' : '⇌'}${after}`));
+      i += arrow.length;
+      continue;
+    }
+    if (ch === '^') {
+      // Charges: ^{2+}, ^2- or ^+
+      const braced = src[i + 1] === '{' ? readGroup(src, i + 1) : null;
+      const body = braced ? braced.body : src.slice(i + 1).match(/^\d*[+-]?/)![0];
+      nodes.push({ type: 'sup', children: [text(body)] });
+      i = braced ? braced.end : i + 1 + body.length;
+      continue;
+    }
+    if (/\d/.test(ch) && i > 0 && /[A-Za-z)\]]/.test(src[i - 1])) {
+      const digits = src.slice(i).match(/^\d+/)![0];
+      nodes.push({ type: 'sub', children: [text(digits)] });
+      i += digits.length;
+      continue;
+    }
+    nodes.push(text(ch));
+    i++;
+  }
+  return compact(nodes);
+};
+
+// A bare word that is unmistakably a formula: only element symbols, brackets and
+// counts, with at least two element parts and a count (H2O, 2CO2, Ca(OH)2 - not "B12" or "Q1")
+const FORMULA = /^\d*(?:\(?[A-Z][a-z]?\d*\)?\d*){2,}$/;
+export const isFormula = (word: string) =>
+  FORMULA.test(word) && /\d/.test(word.replace(/^\d+/, '')) &&
+  (word.match(/[A-Z][a-z]?/g) || []).every(symbol => ELEMENTS.has(symbol));
+
+// --- Maths ---
+
+const parseMath = (src: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let i = 0;
+  while (i < src.length) {
+    const ch = src[i];
+    if (src.startsWith('^\\circ', i)) { nodes.push(text('°')); i += 6; continue; }
+    if (ch === '^' || ch === '_') {
+      const { body, end } = readGroup(src, i + 1);
+      // ^\circ and ^o are degrees, not powers
+      if (ch === '^' && (body === '\\circ' || body === 'o')) nodes.push(text('°'));
+      else nodes.push({ type: ch === '^' ? 'sup' : 'sub', children: parseMath(body) });
+      i = end;
+      continue;
+    }
+    if (ch === '{') {
+      const { body, end } = readGroup(src, i);
+      nodes.push(...parseMath(body));
+      i = end;
+      continue;
+    }
+    if (ch === '*') { nodes.push(text('×')); i++; continue; }
+    if (ch === '\\') {
+      const name = src.slice(i + 1).match(/^([A-Za-z]+|.)/)?.[1] || '';
+      let next = i + 1 + name.length;
+      if (name === 'frac' || name === 'dfrac' || name === 'tfrac') {
+        const num = readGroup(src, next);
+        const den = readGroup(src, num.end);
+        nodes.push({ type: 'frac', num: parseMath(num.body), den: parseMath(den.body) });
+        i = den.end;
+        continue;
+      }
+      if (name === 'sqrt' || name === 'text' || name === 'mathrm' || name === 'ce' || name === 'overline') {
+        while (src[next] === ' ') next++;
+        const group = readGroup(src, next);
+        if (name === 'sqrt') nodes.push({ type: 'sqrt', children: parseMath(group.body) });
+        else if (name === 'ce') nodes.push(...parseChem(group.body));
+        else if (name === 'overline') nodes.push(...parseMath(group.body));
+        else nodes.push(text(group.body));
+        i = group.end;
+        continue;
+      }
+      // \left( and \right) are just brackets here
+      if (name === 'left' || name === 'right') { i = next; continue; }
+      nodes.push(text(SYMBOLS[name] ?? name));
+      i = next;
+      continue;
+    }
+    nodes.push(text(ch));
+    i++;
+  }
+  return compact(nodes);
+};
+
+// --- Plain text lines ---
+
+// Caret powers (x^2, 10^{-3}), a*b multiplication and bare chemical formulas
+const parseTextRun = (raw: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  const src = raw.replace(/\^\{?\\circ\}?/g, '°');
+  const pattern = /(\S)\^(\{[^{}]*\}|-?[\p{L}\p{N}]+(?:\.\p{N}+)?)|(?<=[\p{L}\p{N})\]]\s?)\*(?=\s?[\p{L}\p{N}(])|(?<![\p{L}\p{N}])\d*[A-Z][A-Za-z0-9()]*\d[A-Za-z0-9()]*(?![\p{L}\p{N}])/gu;
+  let last = 0;
+  for (const match of src.matchAll(pattern)) {
+    const at = match.index!;
+    if (match[1] !== undefined) {
+      nodes.push(text(src.slice(last, at) + match[1]));
+      const exp = match[2].startsWith('{') ? match[2].slice(1, -1) : match[2];
+      nodes.push({ type: 'sup', children: parseMath(exp) });
+    } else if (match[0] === '*') {
+      nodes.push(text(src.slice(last, at)), text('×'));
+    } else if (isFormula(match[0])) {
+      nodes.push(text(src.slice(last, at)), ...parseChem(match[0]));
+    } else {
+      continue;
+    }
+    last = at + match[0].length;
+  }
+  nodes.push(text(src.slice(last)));
+  return compact(nodes);
+};
+
+// Finds the closing `$` of inline maths; "$5 and $10" is currency, not maths
+const findMathEnd = (src: string, start: number): number => {
+  if (/\s/.test(src[start] || ' ')) return -1;
+  for (let j = start; j < src.length; j++) {
+    if (src[j] === '\\') { j++; continue; }
+    if (src[j] === '$') return /\s/.test(src[j - 1]) || /\d/.test(src[j + 1] || '') ? -1 : j;
+  }
+  return -1;
+};
+
+export const parseInline = (src: string): InlineNode[] => {
+  const nodes: InlineNode[] = [];
+  let run = '';
+  const flush = () => { if (run) nodes.push(...parseTextRun(run)); run = ''; };
+
+  let i = 0;
+  while (i < src.length) {
+    if (src.startsWith('$$', i)) {
+      const end = src.indexOf('$$', i + 2);
+      if (end > i + 2) {
+        flush();
+        nodes.push({ type: 'math', children: parseMath(src.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+    if (src[i] === '$') {
+      const end = findMathEnd(src, i + 1);
+      if (end > 0) {
+        flush();
+        nodes.push({ type: 'math', children: parseMath(src.slice(i + 1, end)) });
+        i = end + 1;
+        continue;
+      }
+    }
+    if (src.startsWith('\\(', i)) {
+      const end = src.indexOf('\\)', i + 2);
+      if (end > 0) {
+        flush();
+        nodes.push({ type: 'math', children: parseMath(src.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+    if (src.startsWith('\\ce{', i)) {
+      const group = readGroup(src, i + 3);
+      flush();
+      nodes.push(...parseChem(group.body));
+      i = group.end;
+      continue;
+    }
+    if (src.startsWith('**', i)) {
+      const end = src.indexOf('**', i + 2);
+      if (end > i + 2) {
+        flush();
+        nodes.push({ type: 'bold', children: parseInline(src.slice(i + 2, end)) });
+        i = end + 2;
+        continue;
+      }
+    }
+    run += src[i];
+    i++;
+  }
+  flush();
+  return compact(nodes);
+};
+
+// --- Blocks ---
+
+const TABLE_ROW = /^\s*\|.*\|\s*$/;
+const TABLE_RULE = /^\s*\|?\s*:?-{2,}:?\s*(\|\s*:?-{2,}:?\s*)*\|?\s*$/;
+
+const tableCells = (line: string) => line.trim().replace(/^\||\|$/g, '').split('|').map(cell => parseInline(cell.trim()));
+
+export const parseRichText = (src: string): RichBlock[] => {
+  const lines = src.split('\n');
+  const blocks: RichBlock[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const trimmed = line.trim();
+
+    // A table needs a header row followed by a |---|---| rule
+    if (TABLE_ROW.test(line) && TABLE_RULE.test(lines[i + 1] || '')) {
+      const header = tableCells(line);
+      const rows: InlineNode[][][] = [];
+      i += 2;
+      while (i < lines.length && TABLE_ROW.test(lines[i])) rows.push(tableCells(lines[i++]));
+      i--;
+      blocks.push({ type: 'table', header, rows });
+      continue;
+    }
+    if (trimmed === '') blocks.push({ type: 'blank' });
+    else if (/^\$\$((?!\$\$).)+\$\$$|^\\\[.+\\\]$/.test(trimmed)) {
+      blocks.push({ type: 'display', children: parseMath(trimmed.slice(2, -2)) });
+    } else blocks.push({ type: 'line', children: parseInline(line) });
+  }
+  return blocks;
+};
+
+// --- Plain text (copy-paste, search, clipboard) ---
+
+const SUPERSCRIPT: Record<string, string> = {
+  '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+  '+': '⁺', '-': '⁻', '−': '⁻', '=': '⁼', '(': '⁽', ')': '⁾', 'n': 'ⁿ', 'i': 'ⁱ', 'x': 'ˣ', 'y': 'ʸ'
+};
+const SUBSCRIPT: Record<string, string> = {
+  '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄', '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
+  '+': '₊', '-': '₋', '=': '₌', '(': '₍', ')': '₎', 'a': 'ₐ', 'e': 'ₑ', 'o': 'ₒ', 'x': 'ₓ', 'n': 'ₙ', 'm': 'ₘ'
+};
+
+// Unicode super/subscript when every character has one, otherwise ^(...) / _(...)
+const scripted = (value: string, map: Record<string, string>, marker: string) =>
+  [...value].every(ch => map[ch]) ? [...value].map(ch => map[ch]).join('') : `${marker}(${value})`;
+
+const group = (value: string) => value.length > 1 ? `(${value})` : value;
+
+export const inlineToPlain = (nodes: InlineNode[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text': return node.text;
+    case 'sup': return scripted(inlineToPlain(node.children), SUPERSCRIPT, '^');
+    case 'sub': return scripted(inlineToPlain(node.children), SUBSCRIPT, '_');
+    case 'frac': return `${group(inlineToPlain(node.num))}/${group(inlineToPlain(node.den))}`;
+    case 'sqrt': return `√${group(inlineToPlain(node.children))}`;
+    case 'bold':
+    case 'math': return inlineToPlain(node.children);
+  }
+}).join('');
+
+export const richTextToPlain = (src: string): string => parseRichText(src).map(block => {
+  switch (block.type) {
+    case 'blank': return '';
+    case 'line':
+    case 'display': return inlineToPlain(block.children);
+    case 'table': return [block.header, ...block.rows].map(row => `| ${row.map(inlineToPlain).join(' | ')} |`).join('\n');
+  }
+}).join('\n');
+
+/** Copies the plain-text rendering so pasted answers read "x² + 2×x", not "$x^2 + 2*x$". */
+export const copyAsPlainText = (src: string): Promise<void> => navigator.clipboard.writeText(richTextToPlain(src));
+
+// --- HTML (Word and print exports) ---
+
+export const escapeHtml = (value: string) => value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+const inlineToHtml = (nodes: InlineNode[]): string => nodes.map(node => {
+  switch (node.type) {
+    case 'text': return escapeHtml(node.text);
+    case 'sup': return `<sup>${inlineToHtml(node.children)}</sup>`;
+    case 'sub': return `<sub>${inlineToHtml(node.children)}</sub>`;
+    case 'frac': return `<sup>${inlineToHtml(node.num)}</sup>&frasl;<sub>${inlineToHtml(node.den)}</sub>`;
+    case 'sqrt': return `&radic;<span style="text-decoration: overline;">${inlineToHtml(node.children)}</span>`;
+    case 'bold': return `<b>${inlineToHtml(node.children)}</b>`;
+    case 'math': return `<span style="font-family: 'Cambria Math', 'Times New Roman', serif;">${inlineToHtml(node.children)}</span>`;
+  }
+}).join('');
+
+/** Escaped HTML for exports; lines are joined with <br/>, tables become real tables. */
+export const richTextToHtml = (src: string): string => {
+  const cell = (tag: string) => (nodes: InlineNode[]) => `<${tag} style="border: 1px solid #999; padding: 4px 8px;">${inlineToHtml(nodes)}</${tag}>`;
+  return parseRichText(src).map(block => {
+    switch (block.type) {
+      case 'blank': return '<br/>';
+      case 'line': return `${inlineToHtml(block.children)}<br/>`;
+      case 'display': return `<p style="text-align: center;">${inlineToHtml([{ type: 'math', children: block.children }])}</p>`;
+      case 'table': return `<table style="border-collapse: collapse; margin: 8px 0;"><tr>${block.header.map(cell('th')).join('')}</tr>` +
+        block.rows.map(row => `<tr>${row.map(cell('td')).join('')}</tr>`).join('') + '</table>';
+    }
+  }).join('').replace(/<br\/>$/, '');
+};
@@ -0,0 +1,177 @@
+import { UserSettings, ChatMessage, ChatRequest, PrivateChat, ChatGroup, DirectoryUser, ClassLevel, AskRecord, Subject, MessageCursor } from '../types';
+
+// --- STORAGE ADAPTER CONTRACT ---
+// Everything the app persists goes through one of these. db.ts picks the
+// implementation: localStorageAdapter.ts offline/demo, supabaseAdapter.ts otherwise.
+// Both must behave the same from the caller's side: same conflicts rejected with the
+// same messages, same ordering, same limits.
+
+export interface AskHistoryFilter {
+  query?: string;
+  subject?: Subject;
+}
+
+/** A change made by someone else (or in another tab), pushed to subscribers. */
+export type ChatEvent =
+  | { type: 'message'; conversationId: string; message: ChatMessage }
+  | { type: 'request'; request: ChatRequest }
+  | { type: 'privateChat'; chat: PrivateChat }
+  | { type: 'group'; group: ChatGroup };
+
+/** 'disconnected' means events may be missed until the next 'connected'; callers poll meanwhile. */
+export type ConnectionStatus = 'connected' | 'disconnected';
+
+export interface SignUpDetails {
+  name: string;
+  email: string;
+  username: string;
+  classLevel: ClassLevel;
+  password: string;
+}
+
+export interface StorageAdapter {
+  readonly name: 'local' | 'supabase';
+
+  // Auth & Session. Every method throws user-facing Errors (AUTH_ERRORS, profileConflict, passwordProblem).
+  /** The signed-in user, or null if there is no valid session. */
+  getSession(): Promise<UserSettings | null>;
+  /**
+   * Creates the account and signs in. A profile from before passwords existed is claimed
+   * by signing up with its username and email.
+   */
+  signUp(details: SignUpDetails): Promise<UserSettings>;
+  /** `identifier` is a username or an email. */
+  signIn(identifier: string, password: string): Promise<UserSettings>;
+  /**
+   * Emails a 6-digit reset code. Resolves the same whether or not the email has an account.
+   * Mock mode has no mail server and returns the code for the UI to show instead.
+   */
+  requestPasswordReset(email: string): Promise<{ demoCode?: string }>;
+  /** Sets a new password with the code from requestPasswordReset, then signs in. */
+  resetPassword(email: string, code: string, newPassword: string): Promise<UserSettings>;
+  /** Throws if the store rejects the update. */
+  updateProfile(settings: UserSettings): Promise<void>;
+  logout(): Promise<void>;
+  getDirectory(): Promise<DirectoryUser[]>;
+  /**
+   * Bearer token the AI server checks to charge AI credits to this user. Null in mock mode,
+   * whose sessions only this browser can verify.
+   */
+  getAccessToken(): Promise<string | null>;
+
+  // Ask History, newest first. Saving and deleting throw if the store rejects the write.
+  getAskHistory(username: string, filter?: AskHistoryFilter): Promise<AskRecord[]>;
+  saveAskRecord(username: string, record: AskRecord): Promise<void>;
+  deleteAskRecord(username: string, id: string): Promise<void>;
+
+  // Messages. Every conversation (global chat, a private chat, a group) is an
+  // append-only log keyed by its id; global chat is GLOBAL_CHAT_ID.
+  /** Up to `limit` messages older than `before` (newest page if omitted), oldest first. */
+  getMessages(conversationId: string, before?: MessageCursor, limit?: number): Promise<ChatMessage[]>;
+  /** Appends one message. Returns it as stored, with the store's timestamp, or null if it could not be saved. */
+  sendMessage(conversationId: string, msg: ChatMessage): Promise<ChatMessage | null>;
+  /** Replies to each of `messageIds` in the whole conversation, loaded or not. Missing ids have none. */
+  getReplyCounts(conversationId: string, messageIds: string[]): Promise<Record<string, number>>;
+
+  // Private Chat, each with its lastMessage
+  getPrivateChats(username: string): Promise<PrivateChat[]>;
+  /** No-op if these participants already have a chat. */
+  createPrivateChat(participants: string[]): Promise<void>;
+
+  // Requests
+  getRequests(username: string): Promise<ChatRequest[]>;
+  /** No-op if the same request is already pending. */
+  sendRequest(req: ChatRequest): Promise<void>;
+  updateRequestStatus(reqId: string, status: 'accepted' | 'rejected'): Promise<ChatRequest | null>;
+
+  // Groups, each with its lastMessage
+  getGroups(username: string): Promise<ChatGroup[]>;
+  createGroup(group: ChatGroup): Promise<void>;
+
+  // Realtime
+  /**
+   * Delivers new messages, request changes and chat/group changes for `username` as they happen.
+   * Supabase only delivers rows its RLS lets this user read. Mock mode's bus passes every message
+   * event, so callers ignore conversations they don't have.
+   * Returns the unsubscribe function.
+   */
+  subscribe(username: string, onEvent: (event: ChatEvent) => void, onStatus?: (status: ConnectionStatus) => void): () => void;
+}
+
+// --- SHARED RULES ---
+
+// Mock mode's session token (see mockAuth.ts); Supabase Auth keeps its own session.
+// Older builds stored the bare username here, which no longer signs anyone in.
+export const SESSION_KEY = 'study_buddy_username';
+
+export const GLOBAL_CHAT_ID = 'global';
+export const MESSAGE_PAGE_SIZE = 50;
+export const ASK_HISTORY_LIMIT = 200;
+
+/** Profile row as stored in the `profiles` table; the local adapter stores the same shape. */
+export interface ProfileRow {
+  username: string;
+  name: string;
+  email: string;
+  class_level: ClassLevel;
+  quiz_history?: UserSettings['quizHistory'];
+  bookmarks?: UserSettings['bookmarks'];
+  language?: UserSettings['language'];
+  /** Supabase only: the auth.users id the profile belongs to; null for profiles from before passwords. */
+  user_id?: string | null;
+}
+
+export const profileToSettings = (row: ProfileRow): UserSettings => ({
+  name: row.name,
+  username: row.username,
+  email: row.email,
+  classLevel: row.class_level || '10',
+  isAuthenticated: true,
+  quizHistory: row.quiz_history || [],
+  bookmarks: row.bookmarks || [],
+  language: row.language || 'English',
+  darkMode: false
+});
+
+export const normalizeUsername = (username: string) => username.toLowerCase().trim();
+export const normalizeEmail = (email: string) => email.toLowerCase().trim();
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+/** Returns what's wrong with a new password, or null. */
+export const passwordProblem = (password: string): string | null =>
+  password.length < MIN_PASSWORD_LENGTH ? `Password must be at least ${MIN_PASSWORD_LENGTH} characters.` : null;
+
+export const AUTH_ERRORS = {
+  usernameTaken: (username: string) => `Username '${username}' is already taken.`,
+  emailTaken: 'This email is already linked to another account.',
+  wrongPassword: 'Wrong password. Try again or reset it with "Forgot password?".',
+  unknownAccount: (identifier: string) => `No account found for '${identifier}'.`,
+  noPassword: (username: string) => `@${username} was created before passwords. Sign up with the same username and email to set one.`,
+  badResetCode: 'That reset code is wrong or has expired.',
+  unconfirmed: 'Check your email to confirm your account, then sign in.'
+};
+
+/**
+ * A username belongs to the email that created it, and an email to one username.
+ * Returns the message to throw, or null if signing in as `username` with `email` is fine.
+ */
+export const profileConflict = (byUsername: ProfileRow | null, byEmail: ProfileRow | null, username: string, email: string): string | null => {
+  if (byUsername && normalizeEmail(byUsername.email) !== email) return AUTH_ERRORS.usernameTaken(username);
+  if (byEmail && byEmail.username !== username) return AUTH_ERRORS.emailTaken;
+  return null;
+};
+
+export const sameParticipants = (a: string[], b: string[]) =>
+  JSON.stringify(a.map(normalizeUsername).sort()) === JSON.stringify(b.map(normalizeUsername).sort());
+
+/** Tallies replies by parent id, only for the parents in `messageIds`. */
+export const countReplies = (parentIds: (string | undefined)[], messageIds: string[]) => {
+  const counts: Record<string, number> = {};
+  const wanted = new Set(messageIds);
+  for (const id of parentIds) if (id && wanted.has(id)) counts[id] = (counts[id] || 0) + 1;
+  return counts;
+};
+
+/** Message order everywhere: by timestamp, ties broken by id so paging never skips one. */
+export const compareMessages = (a: MessageCursor, b: MessageCursor) => a.timestamp - b.timestamp || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
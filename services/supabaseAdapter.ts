@@ -0,0 +1,292 @@
+import type { SupabaseClient, User } from '@supabase/supabase-js';
+import { ChatMessage, ChatRequest, ChatGroup } from '../types';
+import {
+  StorageAdapter, ProfileRow, MESSAGE_PAGE_SIZE, ASK_HISTORY_LIMIT, AUTH_ERRORS,
+  profileToSettings, passwordProblem, normalizeUsername, normalizeEmail, sameParticipants, countReplies
+} from './storageAdapter';
+
+// --- SUPABASE ADAPTER ---
+// Real mode: snake_case tables in Postgres via PostgREST. The client is injected
+// so the adapter can also run against a stand-in client.
+// Chat messages are rows in `messages` (see supabase/migrations), one insert per
+// message; Postgres sets `timestamp`, so the sender's clock never decides the order.
+// Realtime: one channel per signed-in user listening to Postgres changes on the chat tables.
+// RLS decides which changes reach a user (see the chat RLS migration); the membership
+// checks in subscribe only mirror mock mode's bus.
+// Auth: Supabase Auth owns passwords and the session; each profile row is bound to its
+// auth user by `user_id` (see supabase/migrations).
+
+const toMessage = (msg: any): ChatMessage => ({
+  id: msg.id,
+  senderName: msg.sender_name,
+  senderUsername: msg.sender_username,
+  content: msg.content,
+  timestamp: msg.timestamp,
+  replyTo: msg.reply_to || undefined
+});
+
+// Newest message per conversation, for the chat list (view from the messages migration)
+const lastMessages = async (supabase: SupabaseClient, conversationIds: string[]): Promise<Map<string, ChatMessage>> => {
+  if (conversationIds.length === 0) return new Map();
+  const { data } = await supabase.from('latest_messages').select('*').in('conversation_id', conversationIds);
+  return new Map((data || []).map((m: any) => [m.conversation_id, toMessage(m)]));
+};
+
+const toRequest = (r: any): ChatRequest => ({
+  id: r.id, fromUsername: r.from_username, fromName: r.from_name, toUsername: r.to_username, status: r.status, timestamp: r.timestamp
+});
+
+const toGroup = (g: any): ChatGroup => ({ id: g.id, name: g.name, adminUsername: g.admin_username, members: g.members || [] });
+
+/**
+ * The profile bound to an auth user. Created on first sign-in from the sign-up metadata,
+ * since with email confirmation on there is no session to create it at sign-up.
+ * A profile from before passwords with the same username and email is claimed instead.
+ */
+const profileFor = async (supabase: SupabaseClient, user: User): Promise<ProfileRow> => {
+  const { data: own } = await supabase.from('profiles').select('*').eq('user_id', user.id).maybeSingle();
+  if (own) return own as ProfileRow;
+
+  const meta = user.user_metadata || {};
+  const username = normalizeUsername(meta.username || '');
+  const email = normalizeEmail(user.email || '');
+  // RLS only shows someone else's profile if it's a legacy one this user may claim
+  const { data: claimable } = await supabase.from('profiles').select('*').eq('username', username).maybeSingle();
+
+  const { data, error } = claimable
+    ? await supabase.from('profiles').update({ user_id: user.id, name: meta.name, class_level: meta.class_level }).eq('username', username).select().single()
+    : await supabase.from('profiles')
+        .insert([{ user_id: user.id, username, name: meta.name, email, class_level: meta.class_level || '10', quiz_history: [], bookmarks: [] }])
+        .select().single();
+  // Taken since sign-up, or a legacy profile whose email this user hasn't confirmed
+  if (error?.code === '23505') throw new Error(user.email_confirmed_at ? AUTH_ERRORS.usernameTaken(username) : AUTH_ERRORS.unconfirmed);
+  if (error) throw error;
+  return data as ProfileRow;
+};
+
+export const createSupabaseAdapter = (supabase: SupabaseClient): StorageAdapter => ({
+  name: 'supabase',
+
+  // --- Auth & Session ---
+  async getSession() {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return null;
+      return profileToSettings(await profileFor(supabase, session.user));
+    } catch (e) {
+      console.error("Session load error:", e);
+      return null;
+    }
+  },
+
+  async signUp({ name, email, username, classLevel, password }) {
+    const weak = passwordProblem(password);
+    if (weak) throw new Error(weak);
+    const cleanUsername = normalizeUsername(username);
+    const cleanEmail = normalizeEmail(email);
+
+    // Profiles aren't readable before sign-in; the database checks them (see the profiles privacy migration).
+    // A profile from before passwords can be claimed with its email; one with an auth user is taken.
+    const { data: conflict, error: conflictError } = await supabase.rpc('sign_up_conflict', { p_username: cleanUsername, p_email: cleanEmail });
+    if (conflictError) throw new Error(conflictError.message);
+    if (conflict === 'username') throw new Error(AUTH_ERRORS.usernameTaken(cleanUsername));
+    if (conflict === 'email') throw new Error(AUTH_ERRORS.emailTaken);
+
+    const { data, error } = await supabase.auth.signUp({
+      email: cleanEmail, password, options: { data: { username: cleanUsername, name, class_level: classLevel } }
+    });
+    if (error) throw new Error(error.message);
+    if (!data.session || !data.user) throw new Error(AUTH_ERRORS.unconfirmed);
+    return profileToSettings(await profileFor(supabase, data.user));
+  },
+
+  async signIn(identifier, password) {
+    const id = identifier.trim().toLowerCase();
+    // The database only turns a username into its sign-in email; Auth checks the password
+    const { data: rows, error: lookupError } = await supabase.rpc('sign_in_lookup', { p_identifier: id });
+    if (lookupError) throw new Error(lookupError.message);
+    const account = (rows || [])[0];
+    if (!account || account.status === 'unknown') throw new Error(AUTH_ERRORS.unknownAccount(id));
+    if (account.status === 'legacy') throw new Error(AUTH_ERRORS.noPassword(account.username));
+
+    const { data, error } = await supabase.auth.signInWithPassword({ email: account.email, password });
+    if (error) throw new Error(/not confirmed/i.test(error.message) ? AUTH_ERRORS.unconfirmed : AUTH_ERRORS.wrongPassword);
+    return profileToSettings(await profileFor(supabase, data.user));
+  },
+
+  async requestPasswordReset(email) {
+    // The recovery email template must include {{ .Token }} for the 6-digit code
+    const { error } = await supabase.auth.resetPasswordForEmail(normalizeEmail(email));
+    if (error) throw new Error(error.message);
+    return {};
+  },
+
+  async resetPassword(email, code, newPassword) {
+    const weak = passwordProblem(newPassword);
+    if (weak) throw new Error(weak);
+    const { data, error } = await supabase.auth.verifyOtp({ email: normalizeEmail(email), token: code.trim(), type: 'recovery' });
+    if (error || !data.user) throw new Error(AUTH_ERRORS.badResetCode);
+    const { error: updateError } = await supabase.auth.updateUser({ password: newPassword });
+    if (updateError) throw new Error(updateError.message);
+    return profileToSettings(await profileFor(supabase, data.user));
+  },
+
+  async updateProfile(settings) {
+    const { error } = await supabase.from('profiles').update({
+      name: settings.name,
+      class_level: settings.classLevel,
+      quiz_history: settings.quizHistory,
+      bookmarks: settings.bookmarks,
+      language: settings.language
+    }).eq('username', settings.username);
+    if (error) throw new Error(error.message);
+  },
+
+  async logout() {
+    await supabase.auth.signOut();
+  },
+
+  async getDirectory() {
+    const { data } = await supabase.from('public_profiles').select('name, username, class_level');
+    return (data || []).map((u: any) => ({ name: u.name, username: u.username, classLevel: u.class_level }));
+  },
+
+  async getAccessToken() {
+    const { data: { session } } = await supabase.auth.getSession();
+    return session?.access_token ?? null;
+  },
+
+  // --- Ask History ---
+  async getAskHistory(username, filter = {}) {
+    const query = (filter.query || '').trim().toLowerCase();
+    let request = supabase.from('ask_history').select('*').eq('username', username);
+    if (filter.subject) request = request.eq('subject', filter.subject);
+    if (query) {
+      // Strip characters that would break PostgREST's or() filter syntax
+      const safe = query.replace(/[%,()*]/g, ' ');
+      request = request.or(`question.ilike.%${safe}%,answer.ilike.%${safe}%`);
+    }
+    const { data } = await request.order('timestamp', { ascending: false }).limit(ASK_HISTORY_LIMIT);
+    return (data || []).map((r: any) => ({
+      id: r.id, question: r.question, answer: r.answer, image: r.image || undefined, timestamp: r.timestamp,
+      subject: r.subject, classLevel: r.class_level, mode: r.mode, evaluation: r.evaluation || undefined
+    }));
+  },
+
+  async saveAskRecord(username, record) {
+    const { error } = await supabase.from('ask_history').insert([{
+      id: record.id, username, question: record.question, answer: record.answer, image: record.image || null, timestamp: record.timestamp,
+      subject: record.subject, class_level: record.classLevel, mode: record.mode, evaluation: record.evaluation || null
+    }]);
+    if (error) throw new Error(error.message);
+  },
+
+  async deleteAskRecord(username, id) {
+    const { error } = await supabase.from('ask_history').delete().eq('id', id).eq('username', username);
+    if (error) throw new Error(error.message);
+  },
+
+  // --- Messages ---
+  async getMessages(conversationId, before, limit = MESSAGE_PAGE_SIZE) {
+    let request = supabase.from('messages').select('*').eq('conversation_id', conversationId);
+    if (before) request = request.or(`timestamp.lt.${before.timestamp},and(timestamp.eq.${before.timestamp},id.lt."${before.id}")`);
+    const { data } = await request.order('timestamp', { ascending: false }).order('id', { ascending: false }).limit(limit);
+    return (data || []).map(toMessage).reverse();
+  },
+
+  async sendMessage(conversationId, msg) {
+    const { data, error } = await supabase.from('messages').insert([{
+      id: msg.id,
+      conversation_id: conversationId,
+      content: msg.content,
+      sender_name: msg.senderName,
+      sender_username: msg.senderUsername,
+      reply_to: msg.replyTo || null
+    }]).select().single();
+    if (error || !data) return null;
+    return toMessage(data);
+  },
+
+  async getReplyCounts(conversationId, messageIds) {
+    if (messageIds.length === 0) return {};
+    const { data, error } = await supabase.from('messages')
+      .select('parent:reply_to->>id')
+      .eq('conversation_id', conversationId)
+      .in('reply_to->>id', messageIds);
+    if (error) throw new Error(error.message);
+    return countReplies((data || []).map((r: any) => r.parent), messageIds);
+  },
+
+  // --- Private Chat ---
+  async getPrivateChats(username) {
+    const { data } = await supabase.from('private_chats').select('id, participants');
+    const chats = (data || []).filter((c: any) => Array.isArray(c.participants) && c.participants.includes(username));
+    const latest = await lastMessages(supabase, chats.map((c: any) => c.id));
+    return chats.map((c: any) => ({ id: c.id, participants: c.participants, lastMessage: latest.get(c.id) }));
+  },
+
+  async createPrivateChat(participants) {
+    const sorted = participants.map(normalizeUsername).sort();
+    const { data: allChats } = await supabase.from('private_chats').select('*');
+    if ((allChats || []).some((c: any) => sameParticipants(c.participants || [], sorted))) return;
+    await supabase.from('private_chats').insert([{ id: Date.now().toString(), participants: sorted }]);
+  },
+
+  // --- Requests ---
+  async getRequests(username) {
+    const { data } = await supabase.from('chat_requests').select('*').or(`to_username.eq.${username},from_username.eq.${username}`);
+    return (data || []).map(toRequest);
+  },
+
+  async sendRequest(req) {
+    const { data } = await supabase.from('chat_requests').select('*')
+      .eq('from_username', req.fromUsername).eq('to_username', req.toUsername).eq('status', 'pending');
+    if (data && data.length > 0) return;
+    await supabase.from('chat_requests').insert([{
+      id: req.id, from_username: req.fromUsername, from_name: req.fromName, to_username: req.toUsername, status: 'pending', timestamp: req.timestamp
+    }]);
+  },
+
+  async updateRequestStatus(reqId, status) {
+    const { data } = await supabase.from('chat_requests').update({ status }).eq('id', reqId).select().maybeSingle();
+    return data ? toRequest(data) : null;
+  },
+
+  // --- Groups ---
+  async getGroups(username) {
+    const { data } = await supabase.from('chat_groups').select('id, name, admin_username, members');
+    const groups = (data || []).filter((g: any) => Array.isArray(g.members) && g.members.includes(username));
+    const latest = await lastMessages(supabase, groups.map((g: any) => g.id));
+    return groups.map((g: any) => ({ ...toGroup(g), lastMessage: latest.get(g.id) }));
+  },
+
+  async createGroup(group) {
+    await supabase.from('chat_groups').insert([{
+      id: group.id, name: group.name, admin_username: group.adminUsername, members: group.members
+    }]);
+  },
+
+  // --- Realtime ---
+  subscribe(username, onEvent, onStatus) {
+    const channel = supabase.channel(`chat:${username}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'messages' }, payload =>
+        onEvent({ type: 'message', conversationId: payload.new.conversation_id, message: toMessage(payload.new) }))
+      // One filter per subscription, so incoming and outgoing requests are two
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'chat_requests', filter: `to_username=eq.${username}` }, payload => {
+        if (payload.eventType !== 'DELETE') onEvent({ type: 'request', request: toRequest(payload.new) });
+      })
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'chat_requests', filter: `from_username=eq.${username}` }, payload => {
+        if (payload.eventType !== 'DELETE') onEvent({ type: 'request', request: toRequest(payload.new) });
+      })
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'private_chats' }, payload => {
+        const participants: string[] = payload.new.participants || [];
+        if (participants.includes(username)) onEvent({ type: 'privateChat', chat: { id: payload.new.id, participants } });
+      })
+      // Updates too: a group shows up once this user is added to it
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'chat_groups' }, payload => {
+        if (payload.eventType !== 'DELETE' && (payload.new.members || []).includes(username)) onEvent({ type: 'group', group: toGroup(payload.new) });
+      })
+      .subscribe(status => onStatus?.(status === 'SUBSCRIBED' ? 'connected' : 'disconnected'));
+    return () => { supabase.removeChannel(channel); };
+  }
+});
@@ -0,0 +1,59 @@
+import { AIFeature, AIUsageEvent } from '../types';
+import { AI_USAGE_LIMITS, AI_USAGE_COSTS } from '../constants';
+
+// --- PER-USER AI QUOTAS ---
+// The budget rules, shared by the AI server (which enforces them, see server/usageLedger.ts)
+// and the Settings meter. Over-limit calls are refused with a friendly message that says
+// when credits come back, instead of the generic "High Traffic" error.
+
+const MINUTE = 60 * 1000;
+
+export interface UsageSummary {
+  usedToday: number;
+  dailyLimit: number;
+  usedThisMinute: number;
+  minuteLimit: number;
+}
+
+const total = (events: AIUsageEvent[]) => events.reduce((sum, e) => sum + e.cost, 0);
+
+// Seconds until enough of the last minute's usage has aged out to afford `cost`
+const secondsUntilRoom = (events: AIUsageEvent[], cost: number, now: number) => {
+  const recent = events.filter(e => now - e.timestamp < MINUTE).sort((a, b) => a.timestamp - b.timestamp);
+  let used = total(recent);
+  for (const event of recent) {
+    used -= event.cost;
+    if (used + cost <= AI_USAGE_LIMITS.perMinute) return Math.max(1, Math.ceil((event.timestamp + MINUTE - now) / 1000));
+  }
+  return 60;
+};
+
+export const usageQuota = {
+  startOfToday: (now: number) => new Date(now).setHours(0, 0, 0, 0),
+
+  /** `events` are today's, including calls still running. */
+  summarize(events: AIUsageEvent[], now: number): UsageSummary {
+    return {
+      usedToday: total(events),
+      dailyLimit: AI_USAGE_LIMITS.daily,
+      usedThisMinute: total(events.filter(e => now - e.timestamp < MINUTE)),
+      minuteLimit: AI_USAGE_LIMITS.perMinute
+    };
+  },
+
+  /** Null when `feature` fits both budgets, otherwise the message to show the student. */
+  refusal(events: AIUsageEvent[], feature: AIFeature, now: number): string | null {
+    const cost = AI_USAGE_COSTS[feature];
+    const usage = usageQuota.summarize(events, now);
+
+    if (usage.usedToday + cost > usage.dailyLimit) {
+      const left = usage.dailyLimit - usage.usedToday;
+      return `🌙 Daily limit reached: you've used ${usage.usedToday} of your ${usage.dailyLimit} AI credits today` +
+        `${left > 0 ? ` and this needs ${cost}` : ''}. Your credits refill at midnight. Meanwhile, revise from your Bookmarks!`;
+    }
+    if (usage.usedThisMinute + cost > usage.minuteLimit) {
+      return `⏳ Slow down a little! That's a lot of AI requests in one minute. Please try again in ${secondsUntilRoom(events, cost, now)} seconds.`;
+    }
+    return null;
+  }
+};
@@ -0,0 +1,54 @@
+-- Append-only chat messages.
+--
+-- Before: private_chats.messages and chat_groups.messages held every message as one
+-- JSON array, rewritten in full on each send (concurrent sends lost messages), and
+-- global chat had its own global_messages table.
+-- After: one row per message in `messages`, keyed by conversation. Global chat uses
+-- the conversation id 'global'. The database assigns `timestamp`, so message order
+-- never depends on the sender's clock. Clients page back with the (timestamp, id) cursor.
+
+begin;
+
+create table if not exists messages (
+  conversation_id text not null,
+  id text not null,
+  sender_name text not null,
+  sender_username text not null,
+  content text not null,
+  reply_to jsonb,
+  -- epoch milliseconds, same unit the app has always used
+  timestamp bigint not null default (extract(epoch from clock_timestamp()) * 1000)::bigint,
+  primary key (conversation_id, id)
+);
+
+create index if not exists messages_conversation_cursor
+  on messages (conversation_id, timestamp desc, id desc);
+
+-- Existing global chat
+insert into messages (conversation_id, id, sender_name, sender_username, content, reply_to, timestamp)
+select 'global', id::text, sender_name, sender_username, content, to_jsonb(reply_to), timestamp
+from global_messages
+on conflict do nothing;
+
+-- Messages embedded in private chats and groups (camelCase JSON written by the app)
+insert into messages (conversation_id, id, sender_name, sender_username, content, reply_to, timestamp)
+select c.id::text, m->>'id', m->>'senderName', m->>'senderUsername', m->>'content', m->'replyTo', (m->>'timestamp')::bigint
+from private_chats c, jsonb_array_elements(coalesce(c.messages, '[]'::jsonb)) as m
+on conflict do nothing;
+
+insert into messages (conversation_id, id, sender_name, sender_username, content, reply_to, timestamp)
+select g.id::text, m->>'id', m->>'senderName', m->>'senderUsername', m->>'content', m->'replyTo', (m->>'timestamp')::bigint
+from chat_groups g, jsonb_array_elements(coalesce(g.messages, '[]'::jsonb)) as m
+on conflict do nothing;
+
+alter table private_chats drop column if exists messages;
+alter table chat_groups drop column if exists messages;
+drop table if exists global_messages;
+
+-- Newest message per conversation, for chat list previews
+create or replace view latest_messages as
+select distinct on (conversation_id) *
+from messages
+order by conversation_id, timestamp desc, id desc;
+
+commit;
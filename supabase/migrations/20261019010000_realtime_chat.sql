@@ -0,0 +1,11 @@
+-- Realtime chat delivery.
+--
+-- The app subscribes to Postgres changes on the chat tables instead of polling every
+-- 5 seconds (see StorageAdapter.subscribe). Supabase only streams tables in the
+-- supabase_realtime publication.
+
+begin;
+
+alter publication supabase_realtime add table messages, chat_requests, private_chats, chat_groups;
+
+commit;
@@ -0,0 +1,33 @@
+-- Password sign-in with Supabase Auth.
+--
+-- Before: profiles were created and "signed in to" by username alone; nothing checked a password.
+-- After: every profile belongs to one auth user (user_id). Only that user can create or edit it.
+-- Profiles from before this have no user_id. Signing up with the same username and email
+-- claims one. The policy below only allows that when the auth user's email matches.
+--
+-- Password reset codes: the Auth "Reset Password" email template must include {{ .Token }}.
+-- The app asks for that 6-digit code instead of following a link.
+
+begin;
+
+alter table profiles add column if not exists user_id uuid unique references auth.users (id) on delete set null;
+
+alter table profiles enable row level security;
+
+drop policy if exists "Profiles are readable by everyone" on profiles;
+create policy "Profiles are readable by everyone"
+  on profiles for select
+  using (true);
+
+drop policy if exists "Users create their own profile" on profiles;
+create policy "Users create their own profile"
+  on profiles for insert
+  with check (auth.uid() = user_id);
+
+drop policy if exists "Users edit their own profile" on profiles;
+create policy "Users edit their own profile"
+  on profiles for update
+  using (auth.uid() = user_id or (user_id is null and lower(email) = lower(auth.jwt() ->> 'email')))
+  with check (auth.uid() = user_id);
+
+commit;
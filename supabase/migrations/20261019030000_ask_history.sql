@@ -0,0 +1,30 @@
+-- Ask History.
+--
+-- Every answered question (and every "Check my answer" result) is kept per user so it
+-- can be searched and re-asked. `image` holds the attached photo as a data URL;
+-- `evaluation` holds the marking result for answer checks.
+
+begin;
+
+create table if not exists ask_history (
+  username text not null,
+  id text not null,
+  question text not null,
+  answer text not null,
+  image text,
+  -- epoch milliseconds
+  timestamp bigint not null,
+  subject text not null,
+  class_level text not null,
+  mode text not null,
+  evaluation jsonb,
+  primary key (username, id)
+);
+
+-- Tables created by hand before photos and answer checks existed
+alter table ask_history add column if not exists image text;
+alter table ask_history add column if not exists evaluation jsonb;
+
+create index if not exists ask_history_user_timestamp on ask_history (username, timestamp desc);
+
+commit;
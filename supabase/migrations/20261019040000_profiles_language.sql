@@ -0,0 +1,10 @@
+-- Preferred answer language (English, Hindi or Hinglish) on the profile.
+--
+-- The app saves it with the rest of the profile in one update. Without this column,
+-- PostgREST rejects the whole update, so bookmarks and quiz history stop saving too.
+
+begin;
+
+alter table profiles add column if not exists language text;
+
+commit;
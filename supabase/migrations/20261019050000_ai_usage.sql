@@ -0,0 +1,77 @@
+-- AI credits, charged by the AI proxy (server/usageLedger.ts) instead of the browser.
+--
+-- Before: the browser checked the budget and wrote its own usage rows, keyed by a username
+-- it chose. Skipping the check or writing another name was enough to get unlimited calls.
+-- After: only the proxy, with the service role key, reads or writes this table. Rows belong
+-- to the auth user the proxy verified. Signed-in users have no policies, so RLS blocks them.
+--
+-- Each call is one row. reserve_ai_credits checks both budgets and inserts a 'reserved' row
+-- in one transaction, under a per-user lock, so parallel calls can't all pass the check.
+-- The proxy marks the row 'charged' when the call succeeds and deletes it when the call fails
+-- or is cancelled. A reservation older than p_stale_before belongs to a proxy that died
+-- mid-call and no longer counts.
+--
+-- Usage rows written by the browser can't be trusted, so any old table is dropped.
+
+begin;
+
+drop table if exists ai_usage;
+
+create table ai_usage (
+  id bigint generated always as identity primary key,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  feature text not null,
+  cost integer not null check (cost > 0),
+  timestamp bigint not null,
+  status text not null default 'reserved' check (status in ('reserved', 'charged'))
+);
+
+create index ai_usage_user_timestamp on ai_usage (user_id, timestamp desc);
+
+alter table ai_usage enable row level security;
+
+-- Returns the new row's id, or null when either budget has no room for p_cost
+create or replace function reserve_ai_credits(
+  p_user_id uuid,
+  p_feature text,
+  p_cost integer,
+  p_now bigint,
+  p_day_start bigint,
+  p_stale_before bigint,
+  p_daily_limit integer,
+  p_minute_limit integer
+) returns bigint
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  used_today integer;
+  used_this_minute integer;
+  reserved_id bigint;
+begin
+  -- Released at commit; a second call for the same user waits here until this one has inserted
+  perform pg_advisory_xact_lock(hashtext('ai_usage:' || p_user_id::text));
+
+  select coalesce(sum(cost), 0), coalesce(sum(cost) filter (where timestamp > p_now - 60000), 0)
+    into used_today, used_this_minute
+    from ai_usage
+   where user_id = p_user_id
+     and timestamp >= p_day_start
+     and (status = 'charged' or timestamp >= p_stale_before);
+
+  if used_today + p_cost > p_daily_limit or used_this_minute + p_cost > p_minute_limit then
+    return null;
+  end if;
+
+  insert into ai_usage (user_id, feature, cost, timestamp)
+  values (p_user_id, p_feature, p_cost, p_now)
+  returning id into reserved_id;
+  return reserved_id;
+end;
+$$;
+
+-- Only the proxy's service role may reserve credits
+revoke execute on function reserve_ai_credits(uuid, text, integer, bigint, bigint, bigint, integer, integer) from public, anon, authenticated;
+
+commit;
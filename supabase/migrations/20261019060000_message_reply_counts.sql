@@ -0,0 +1,13 @@
+-- Reply counts for thread badges.
+--
+-- Chat counts a message's replies in the store (getReplyCounts), since the loaded pages
+-- may hold only some of them. The count filters on the parent id inside reply_to, so it
+-- gets its own index instead of scanning the conversation.
+
+begin;
+
+create index if not exists messages_reply_to_id
+  on messages (conversation_id, (reply_to->>'id'))
+  where reply_to is not null;
+
+commit;
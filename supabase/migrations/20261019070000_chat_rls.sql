@@ -0,0 +1,105 @@
+-- Row-level security for chat.
+--
+-- Before: messages, private_chats, chat_groups and chat_requests had no RLS. Any signed-in
+-- client could read every conversation, and realtime streamed every change to every
+-- subscriber. Writes trusted whatever username the client put in the row.
+-- After: a user reads and receives only their own requests, the chats and groups they are
+-- in, and those conversations' messages (plus global chat). Realtime checks the same select
+-- policies before delivering a change. Writes must be made as the signed-in user's profile.
+
+begin;
+
+-- Username of the signed-in user's profile; null without one.
+-- Security definer so policies can call it whatever profiles' own policies allow.
+create or replace function current_username() returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select username from profiles where user_id = auth.uid()
+$$;
+
+-- Global chat is open to every profile; other conversations to their participants or members.
+-- Security definer so message policies don't recurse through chat and group policies.
+create or replace function is_conversation_member(p_conversation_id text) returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select current_username() is not null and (
+    p_conversation_id = 'global'
+    or exists (select 1 from private_chats where id::text = p_conversation_id and to_jsonb(participants) ? current_username())
+    or exists (select 1 from chat_groups where id::text = p_conversation_id and to_jsonb(members) ? current_username())
+  )
+$$;
+
+-- --- Messages (append-only: no update or delete policies) ---
+alter table messages enable row level security;
+
+drop policy if exists "Members read their conversations" on messages;
+create policy "Members read their conversations"
+  on messages for select
+  using (is_conversation_member(conversation_id));
+
+drop policy if exists "Members post as themselves" on messages;
+create policy "Members post as themselves"
+  on messages for insert
+  with check (sender_username = current_username() and is_conversation_member(conversation_id));
+
+-- Chat list previews go through the view; without security_invoker it would bypass the policies above
+alter view latest_messages set (security_invoker = true);
+
+-- --- Private chats ---
+alter table private_chats enable row level security;
+
+drop policy if exists "Participants read their chats" on private_chats;
+create policy "Participants read their chats"
+  on private_chats for select
+  using (to_jsonb(participants) ? current_username());
+
+drop policy if exists "Participants start their chats" on private_chats;
+create policy "Participants start their chats"
+  on private_chats for insert
+  with check (to_jsonb(participants) ? current_username());
+
+-- --- Groups ---
+alter table chat_groups enable row level security;
+
+drop policy if exists "Members read their groups" on chat_groups;
+create policy "Members read their groups"
+  on chat_groups for select
+  using (to_jsonb(members) ? current_username());
+
+drop policy if exists "Admins create groups they are in" on chat_groups;
+create policy "Admins create groups they are in"
+  on chat_groups for insert
+  with check (admin_username = current_username() and to_jsonb(members) ? current_username());
+
+drop policy if exists "Admins edit their groups" on chat_groups;
+create policy "Admins edit their groups"
+  on chat_groups for update
+  using (admin_username = current_username())
+  with check (admin_username = current_username());
+
+-- --- Requests ---
+alter table chat_requests enable row level security;
+
+drop policy if exists "Users read requests they sent or received" on chat_requests;
+create policy "Users read requests they sent or received"
+  on chat_requests for select
+  using (from_username = current_username() or to_username = current_username());
+
+drop policy if exists "Users send requests as themselves" on chat_requests;
+create policy "Users send requests as themselves"
+  on chat_requests for insert
+  with check (from_username = current_username() and status = 'pending');
+
+drop policy if exists "Recipients answer requests" on chat_requests;
+create policy "Recipients answer requests"
+  on chat_requests for update
+  using (to_username = current_username())
+  with check (to_username = current_username());
+
+commit;
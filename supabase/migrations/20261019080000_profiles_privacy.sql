@@ -0,0 +1,118 @@
+-- Private profiles and ask history.
+--
+-- Before: every profile, email and quiz history included, was readable by anyone with the
+-- anon key. A legacy profile (no user_id) could be claimed by any auth user whose JWT
+-- carried its email, confirmed or not. ask_history had no RLS and trusted the username
+-- the client sent.
+-- After:
+-- * A user reads only their own profile, plus a legacy profile they are allowed to claim.
+-- * The directory reads public_profiles: username, name and class level, signed-in only.
+-- * Sign-up conflicts and sign-in by username go through sign_up_conflict and
+--   sign_in_lookup, which answer without handing out other users' emails.
+-- * Claiming a legacy profile needs a confirmed email. Keep "Confirm email" on in the Auth
+--   settings: with it off, Supabase marks every new email confirmed at sign-up.
+-- * ask_history rows belong to the signed-in user's profile.
+-- The chat tables got their policies in the chat RLS migration.
+
+begin;
+
+-- The signed-in user's email, once Auth has confirmed it; null before that
+create or replace function confirmed_email() returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select lower(email) from auth.users where id = auth.uid() and email_confirmed_at is not null
+$$;
+
+-- --- Profiles ---
+drop policy if exists "Profiles are readable by everyone" on profiles;
+drop policy if exists "Users read their own profile" on profiles;
+create policy "Users read their own profile"
+  on profiles for select
+  using (auth.uid() = user_id or (user_id is null and lower(email) = confirmed_email()));
+
+drop policy if exists "Users edit their own profile" on profiles;
+create policy "Users edit their own profile"
+  on profiles for update
+  using (auth.uid() = user_id or (user_id is null and lower(email) = confirmed_email()))
+  with check (auth.uid() = user_id);
+
+-- Runs as its owner, so it lists every profile, but only these columns
+create or replace view public_profiles as
+select username, name, class_level from profiles;
+
+revoke all on public_profiles from public, anon;
+grant select on public_profiles to authenticated;
+
+-- 'username' if the username belongs to someone else (another email, or already claimed),
+-- 'email' if the email belongs to another username, null if signing up is fine
+create or replace function sign_up_conflict(p_username text, p_email text) returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select case
+    when exists (select 1 from profiles where username = p_username and (user_id is not null or lower(email) <> lower(p_email))) then 'username'
+    when exists (select 1 from profiles where lower(email) = lower(p_email) and username <> p_username) then 'email'
+  end
+$$;
+
+-- Sign-in by username or email. The account's email comes back only with the right password,
+-- checked against Auth's own hash. status: 'ok', 'unknown', 'legacy' (no password yet)
+-- or 'wrong_password'.
+create or replace function sign_in_lookup(p_identifier text, p_password text)
+returns table (status text, username text, email text)
+language plpgsql
+stable
+security definer
+set search_path = public, extensions
+as $$
+declare
+  account profiles%rowtype;
+  hash text;
+begin
+  select * into account from profiles p
+   where case when position('@' in p_identifier) > 0 then lower(p.email) = lower(p_identifier) else p.username = p_identifier end;
+  if not found then
+    return query select 'unknown', null::text, null::text;
+    return;
+  end if;
+  if account.user_id is null then
+    return query select 'legacy', account.username, null::text;
+    return;
+  end if;
+
+  select encrypted_password into hash from auth.users where id = account.user_id;
+  if hash is null or crypt(p_password, hash) <> hash then
+    return query select 'wrong_password', account.username, null::text;
+    return;
+  end if;
+  return query select 'ok', account.username, account.email;
+end;
+$$;
+
+grant execute on function sign_up_conflict(text, text) to anon, authenticated;
+grant execute on function sign_in_lookup(text, text) to anon, authenticated;
+
+-- --- Ask History ---
+alter table ask_history enable row level security;
+
+drop policy if exists "Users read their own history" on ask_history;
+create policy "Users read their own history"
+  on ask_history for select
+  using (username = current_username());
+
+drop policy if exists "Users save their own history" on ask_history;
+create policy "Users save their own history"
+  on ask_history for insert
+  with check (username = current_username());
+
+drop policy if exists "Users delete their own history" on ask_history;
+create policy "Users delete their own history"
+  on ask_history for delete
+  using (username = current_username());
+
+commit;
@@ -0,0 +1,40 @@
+-- Sign-in lookup without the password.
+--
+-- Before: sign_in_lookup(identifier, password) checked the password itself, with crypt()
+-- against auth.users. Anyone with the anon key could call it, so it was a password oracle
+-- outside Auth's rate limits that spent bcrypt time on the database for every guess.
+-- After: it only turns a username into the account's sign-in email, and says when there
+-- is no account or the account has no password yet. Passwords are checked by Auth alone
+-- (signInWithPassword), with its own throttling. Username sign-in needs the email, so
+-- a username's email is still readable by whoever knows the username.
+
+begin;
+
+drop function if exists sign_in_lookup(text, text);
+
+-- status: 'ok', 'unknown' or 'legacy' (no password yet)
+create or replace function sign_in_lookup(p_identifier text)
+returns table (status text, username text, email text)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+declare
+  account profiles%rowtype;
+begin
+  select * into account from profiles p
+   where case when position('@' in p_identifier) > 0 then lower(p.email) = lower(p_identifier) else p.username = p_identifier end;
+  if not found then
+    return query select 'unknown', null::text, null::text;
+  elsif account.user_id is null then
+    return query select 'legacy', account.username, null::text;
+  else
+    return query select 'ok', account.username, account.email;
+  end if;
+end;
+$$;
+
+grant execute on function sign_in_lookup(text) to anon, authenticated;
+
+commit;
@@ -0,0 +1,54 @@
+-- Tighter chat writes.
+--
+-- Before: the messages `timestamp` default only applied when the client left the column
+-- out, so a client could still backdate or reorder its messages, and `sender_name` was
+-- whatever the client sent. The recipient of a chat request could rewrite every column
+-- of it, sender included, not just answer it.
+-- After:
+-- * A trigger stamps every new message with the database clock, whatever the client sent.
+-- * A message's sender_name must be the sender's profile name.
+-- * Signed-in users can update only chat_requests.status; the policy still limits that
+--   to the request's recipient.
+
+begin;
+
+-- --- Messages ---
+create or replace function stamp_message() returns trigger
+language plpgsql
+as $$
+begin
+  -- epoch milliseconds, like the column default
+  new.timestamp := (extract(epoch from clock_timestamp()) * 1000)::bigint;
+  return new;
+end;
+$$;
+
+drop trigger if exists messages_stamp on messages;
+create trigger messages_stamp
+  before insert on messages
+  for each row execute function stamp_message();
+
+-- Display name of the signed-in user's profile; null without one
+create or replace function current_profile_name() returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select name from profiles where user_id = auth.uid()
+$$;
+
+drop policy if exists "Members post as themselves" on messages;
+create policy "Members post as themselves"
+  on messages for insert
+  with check (
+    sender_username = current_username()
+    and sender_name = current_profile_name()
+    and is_conversation_member(conversation_id)
+  );
+
+-- --- Requests ---
+revoke update on chat_requests from public, anon, authenticated;
+grant update (status) on chat_requests to authenticated;
+
+commit;
@@ -0,0 +1,511 @@
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+// --- IN-MEMORY SUPABASE ---
+// Stands in for Postgres + PostgREST + Auth + Realtime so the conformance suite can run the
+// Supabase adapter without a server. It covers the query builder calls the adapters use and
+// a plain-function model of the row-level security in supabase/migrations, so adapter tests
+// meet the same refusals. The SQL itself is tested against Postgres in supabaseRls.test.ts.
+// One server, many clients: each `connect()` is a browser with its own session.
+
+type Row = Record<string, any>;
+type Result = { data: any; error: { message: string; code?: string } | null };
+
+/** What RLS policies see: auth.uid() and confirmed_email(). */
+export interface FakeAuth {
+  uid: string | null;
+  confirmedEmail: string | null;
+}
+
+/** Every table's rows, unfiltered; what security definer functions read. */
+type Tables = (name: string) => Row[];
+
+type Check = (row: Row, auth: FakeAuth, db: Tables) => boolean;
+
+interface Policy {
+  select?: Check;
+  insert?: Check;
+  update?: { using: Check; check: Check };
+  delete?: Check;
+}
+
+interface FakeUser {
+  id: string;
+  email: string;
+  password: string;
+  user_metadata: Row;
+  email_confirmed_at: string | null;
+}
+
+interface FakeSession {
+  access_token: string;
+  user: FakeUser;
+}
+
+// --- SCHEMA ---
+
+// Primary keys and unique columns per table; inserts that repeat one fail like Postgres does
+const UNIQUE: Record<string, string[][]> = {
+  profiles: [['username'], ['user_id']],
+  ask_history: [['username', 'id']],
+  messages: [['conversation_id', 'id']],
+  private_chats: [['id']],
+  chat_requests: [['id']],
+  chat_groups: [['id']]
+};
+
+// Column defaults and insert triggers; messages are always stamped with the database clock
+const DEFAULTS: Record<string, (row: Row) => Row> = {
+  messages: row => ({ reply_to: null, ...row, timestamp: Date.now() })
+};
+
+// Column-level update grants for signed-in users; unlisted tables allow every column
+const UPDATABLE: Record<string, string[]> = {
+  chat_requests: ['status']
+};
+
+const lower = (value: unknown) => typeof value === 'string' ? value.toLowerCase() : value;
+
+// current_username()
+const currentUsername = (auth: FakeAuth, db: Tables): string | null =>
+  auth.uid === null ? null : db('profiles').find(p => p.user_id === auth.uid)?.username ?? null;
+
+// `to_jsonb(list) ? current_username()`
+const includesUser = (list: unknown, auth: FakeAuth, db: Tables) => {
+  const username = currentUsername(auth, db);
+  return username !== null && Array.isArray(list) && list.includes(username);
+};
+
+// is_conversation_member()
+const isConversationMember = (conversationId: string, auth: FakeAuth, db: Tables) =>
+  currentUsername(auth, db) !== null && (
+    conversationId === 'global'
+    || db('private_chats').some(c => sameValue(c.id, conversationId) && includesUser(c.participants, auth, db))
+    || db('chat_groups').some(g => sameValue(g.id, conversationId) && includesUser(g.members, auth, db)));
+
+// A user's own profile, or a legacy one (no user_id) with their confirmed email
+const ownOrClaimable = (row: Row, auth: FakeAuth) =>
+  (auth.uid !== null && row.user_id === auth.uid) || (row.user_id == null && auth.confirmedEmail !== null && lower(row.email) === auth.confirmedEmail);
+
+const isUser = (username: unknown, auth: FakeAuth, db: Tables) => username != null && username === currentUsername(auth, db);
+
+// current_profile_name()
+const isUserName = (name: unknown, auth: FakeAuth, db: Tables) =>
+  auth.uid !== null && name != null && name === db('profiles').find(p => p.user_id === auth.uid)?.name;
+
+// Tables with RLS enabled; a missing operation means no policy, so it's denied
+const POLICIES: Record<string, Policy> = {
+  profiles: {
+    select: (row, auth) => ownOrClaimable(row, auth),
+    insert: (row, auth) => auth.uid !== null && row.user_id === auth.uid,
+    update: {
+      using: (row, auth) => ownOrClaimable(row, auth),
+      check: (row, auth) => auth.uid !== null && row.user_id === auth.uid
+    }
+  },
+  ask_history: {
+    select: (row, auth, db) => isUser(row.username, auth, db),
+    insert: (row, auth, db) => isUser(row.username, auth, db),
+    delete: (row, auth, db) => isUser(row.username, auth, db)
+  },
+  messages: {
+    select: (row, auth, db) => isConversationMember(row.conversation_id, auth, db),
+    insert: (row, auth, db) => isUser(row.sender_username, auth, db) && isUserName(row.sender_name, auth, db) && isConversationMember(row.conversation_id, auth, db)
+  },
+  private_chats: {
+    select: (row, auth, db) => includesUser(row.participants, auth, db),
+    insert: (row, auth, db) => includesUser(row.participants, auth, db)
+  },
+  chat_groups: {
+    select: (row, auth, db) => includesUser(row.members, auth, db),
+    insert: (row, auth, db) => isUser(row.admin_username, auth, db) && includesUser(row.members, auth, db),
+    update: {
+      using: (row, auth, db) => isUser(row.admin_username, auth, db),
+      check: (row, auth, db) => isUser(row.admin_username, auth, db)
+    }
+  },
+  chat_requests: {
+    select: (row, auth, db) => isUser(row.from_username, auth, db) || isUser(row.to_username, auth, db),
+    insert: (row, auth, db) => isUser(row.from_username, auth, db) && row.status === 'pending',
+    update: {
+      using: (row, auth, db) => isUser(row.to_username, auth, db),
+      check: (row, auth, db) => isUser(row.to_username, auth, db)
+    }
+  }
+};
+
+// Views computed from their tables. `rows` has the caller's RLS applied (security_invoker);
+// `all` doesn't, like a view that runs as its owner.
+const VIEWS: Record<string, (rows: Tables, all: Tables) => Row[]> = {
+  public_profiles: (_rows, all) => all('profiles').map(p => ({ username: p.username, name: p.name, class_level: p.class_level })),
+  latest_messages: rows => {
+    const newest = new Map<string, Row>();
+    for (const m of rows('messages')) {
+      const current = newest.get(m.conversation_id);
+      if (!current || m.timestamp > current.timestamp || (m.timestamp === current.timestamp && m.id > current.id)) newest.set(m.conversation_id, m);
+    }
+    return [...newest.values()];
+  }
+};
+
+// Database functions the adapters call, run as their owner (security definer)
+const FUNCTIONS: Record<string, (args: Row, db: Tables) => any> = {
+  sign_up_conflict: ({ p_username, p_email }, db) => {
+    const profiles = db('profiles');
+    if (profiles.some(p => p.username === p_username && (p.user_id != null || lower(p.email) !== lower(p_email)))) return 'username';
+    if (profiles.some(p => lower(p.email) === lower(p_email) && p.username !== p_username)) return 'email';
+    return null;
+  },
+  sign_in_lookup: ({ p_identifier }, db) => {
+    const account = db('profiles').find(p => p_identifier.includes('@') ? lower(p.email) === lower(p_identifier) : p.username === p_identifier);
+    if (!account) return [{ status: 'unknown', username: null, email: null }];
+    if (account.user_id == null) return [{ status: 'legacy', username: account.username, email: null }];
+    return [{ status: 'ok', username: account.username, email: account.email }];
+  }
+};
+
+// --- FILTERS ---
+
+const compare = (a: any, b: any) => {
+  if (typeof a === 'number' || typeof b === 'number') return Number(a) - Number(b);
+  return String(a) < String(b) ? -1 : String(a) > String(b) ? 1 : 0;
+};
+
+const sameValue = (a: any, b: any) => a === b || (a != null && b != null && String(a) === String(b));
+
+const likePattern = (pattern: string) =>
+  new RegExp('^' + pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/%/g, '.*').replace(/_/g, '.') + '$', 'i');
+
+const OPERATORS: Record<string, (value: any, operand: string) => boolean> = {
+  eq: (v, o) => sameValue(v, o),
+  neq: (v, o) => !sameValue(v, o),
+  lt: (v, o) => v != null && compare(v, o) < 0,
+  lte: (v, o) => v != null && compare(v, o) <= 0,
+  gt: (v, o) => v != null && compare(v, o) > 0,
+  gte: (v, o) => v != null && compare(v, o) >= 0,
+  like: (v, o) => typeof v === 'string' && likePattern(o).test(v),
+  ilike: (v, o) => typeof v === 'string' && likePattern(o).test(v),
+  is: (v, o) => o === 'null' ? v == null : String(v) === o
+};
+
+// A column, or a JSON path into one: `reply_to->>id` (as text) or `reply_to->id`
+const field = (row: Row, column: string) => {
+  const [name, ...path] = column.split(/->>?/);
+  let value = row[name];
+  for (const key of path) value = value == null ? null : value[key];
+  return column.includes('->>') && value != null ? String(value) : value;
+};
+
+// Splits on commas that aren't inside parentheses or quotes
+const splitTerms = (expression: string) => {
+  const terms: string[] = [];
+  let depth = 0, quoted = false, current = '';
+  for (const char of expression) {
+    if (char === '"') quoted = !quoted;
+    if (!quoted && char === '(') depth++;
+    if (!quoted && char === ')') depth--;
+    if (!quoted && depth === 0 && char === ',') {
+      terms.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  return [...terms, current].map(t => t.trim()).filter(Boolean);
+};
+
+const unquote = (value: string) => value.replace(/^"(.*)"$/, '$1');
+
+/** PostgREST filter syntax as used with .or(): `col.op.value`, `and(...)`, `or(...)`, comma-separated. */
+const parseLogic = (expression: string, join: 'and' | 'or'): ((row: Row) => boolean) => {
+  const tests = splitTerms(expression).map(term => {
+    const nested = term.match(/^(and|or)\((.*)\)$/);
+    if (nested) return parseLogic(nested[2], nested[1] as 'and' | 'or');
+    const [column, op, ...rest] = term.split('.');
+    const operator = OPERATORS[op];
+    if (!operator) throw new Error(`Fake Supabase: unsupported operator "${op}" in "${term}"`);
+    const operand = unquote(rest.join('.'));
+    return (row: Row) => operator(field(row, column), operand);
+  });
+  return join === 'and' ? row => tests.every(t => t(row)) : row => tests.some(t => t(row));
+};
+
+// Realtime filters: `column=eq.value`
+const realtimeFilter = (filter?: string): ((row: Row) => boolean) => {
+  if (!filter) return () => true;
+  const [column, rest] = filter.split('=');
+  const [op, ...operand] = rest.split('.');
+  return row => OPERATORS[op](row[column], operand.join('.'));
+};
+
+const project = (row: Row, columns: string) => {
+  if (columns.trim() === '*') return { ...row };
+  // `alias:column`; a JSON path without an alias is named after its last key, like PostgREST
+  return Object.fromEntries(columns.split(',').map(c => c.trim()).map(c => {
+    const [alias, column] = c.includes(':') ? c.split(':') : [c.split(/->>?/).pop()!, c];
+    return [alias, field(row, column) ?? null];
+  }));
+};
+
+const clone = <T>(value: T): T => value === undefined ? value : JSON.parse(JSON.stringify(value));
+
+const rlsError = (table: string) => ({ message: `new row violates row-level security policy for table "${table}"`, code: '42501' });
+
+// --- SERVER ---
+
+export interface FakeSupabaseOptions {
+  /** Sign-ups need the emailed link before there's a session, like "Confirm email" on. */
+  confirmEmails?: boolean;
+}
+
+export const createFakeSupabase = (options: FakeSupabaseOptions = {}) => {
+  const tables: Record<string, Row[]> = {};
+  const users: FakeUser[] = [];
+  const sessions = new Map<string, FakeSession>();
+  const mailbox = new Map<string, string>(); // Last recovery code sent to each email
+  const channels = new Set<{ auth: () => FakeAuth; handlers: { table: string; event: string; matches: (row: Row) => boolean; callback: (payload: any) => void }[] }>();
+
+  const table = (name: string) => (tables[name] ||= []);
+
+  const visible = (name: string, auth: FakeAuth | null) => {
+    const policy = POLICIES[name];
+    if (!auth || !policy) return table(name);
+    return policy.select ? table(name).filter(row => policy.select!(row, auth, table)) : [];
+  };
+
+  const readable = (name: string, auth: FakeAuth | null): Row[] =>
+    VIEWS[name] ? VIEWS[name](t => visible(t, auth), table) : visible(name, auth);
+
+  const violatesUnique = (name: string, row: Row, except?: Row) =>
+    (UNIQUE[name] || []).some(columns => table(name).some(other =>
+      other !== except && columns.every(c => row[c] != null && sameValue(other[c], row[c]))));
+
+  // Realtime delivers a change to a subscriber only if RLS would let them select the row
+  const notify = (name: string, eventType: 'INSERT' | 'UPDATE' | 'DELETE', row: Row, old: Row | null) => {
+    for (const channel of channels) {
+      const auth = channel.auth();
+      const policy = POLICIES[name];
+      if (policy && !(policy.select && policy.select(row, auth, table))) continue;
+      for (const handler of channel.handlers) {
+        if (handler.table !== name || (handler.event !== '*' && handler.event !== eventType) || !handler.matches(row)) continue;
+        const payload = { eventType, new: clone(row), old: clone(old || {}) };
+        queueMicrotask(() => handler.callback(payload));
+      }
+    }
+  };
+
+  const newSession = (user: FakeUser): FakeSession => {
+    const session = { access_token: crypto.randomUUID(), user };
+    sessions.set(session.access_token, session);
+    return session;
+  };
+
+  const publicUser = (user: FakeUser) => clone({ id: user.id, email: user.email, user_metadata: user.user_metadata, email_confirmed_at: user.email_confirmed_at });
+
+  /** One browser: its own session, the shared database. `serviceRole` bypasses RLS like the service key. */
+  const connect = ({ serviceRole = false } = {}): SupabaseClient => {
+    let session: FakeSession | null = null;
+    const auth = (): FakeAuth => ({
+      uid: session?.user.id ?? null,
+      confirmedEmail: session?.user.email_confirmed_at ? session.user.email.toLowerCase() : null
+    });
+    const rlsAuth = () => serviceRole ? null : auth();
+
+    const from = (name: string) => {
+      let operation: 'select' | 'insert' | 'update' | 'delete' = 'select';
+      let columns = '*';
+      let returning = false;
+      let payload: any = null;
+      let single: 'one' | 'maybe' | null = null;
+      let limit: number | null = null;
+      const filters: ((row: Row) => boolean)[] = [];
+      const orders: { column: string; ascending: boolean }[] = [];
+
+      const run = (): Result => {
+        const who = rlsAuth();
+        const policy = who ? POLICIES[name] : undefined;
+        let rows: Row[];
+
+        if (operation === 'insert') {
+          rows = [];
+          for (const input of payload as Row[]) {
+            const row = clone(DEFAULTS[name] ? DEFAULTS[name](input) : input);
+            if (policy && !(policy.insert && policy.insert(row, who!, table))) return { data: null, error: rlsError(name) };
+            if (violatesUnique(name, row)) return { data: null, error: { message: 'duplicate key value violates unique constraint', code: '23505' } };
+            table(name).push(row);
+            rows.push(row);
+          }
+          rows.forEach(row => notify(name, 'INSERT', row, null));
+        } else if (operation === 'update') {
+          if (who && UPDATABLE[name] && Object.keys(payload).some(column => !UPDATABLE[name].includes(column))) {
+            return { data: null, error: { message: `permission denied for table ${name}`, code: '42501' } };
+          }
+          const targets = table(name).filter(row => filters.every(f => f(row)) && (!policy || (policy.update && policy.update.using(row, who!, table))));
+          const updated = targets.map(row => ({ ...row, ...clone(payload) }));
+          if (policy && updated.some(row => !policy.update!.check(row, who!, table))) return { data: null, error: rlsError(name) };
+          if (updated.some((row, i) => violatesUnique(name, row, targets[i]))) return { data: null, error: { message: 'duplicate key value violates unique constraint', code: '23505' } };
+          targets.forEach((row, i) => {
+            const old = { ...row };
+            Object.assign(row, updated[i]);
+            notify(name, 'UPDATE', row, old);
+          });
+          rows = targets;
+        } else if (operation === 'delete') {
+          rows = table(name).filter(row => filters.every(f => f(row)) && (!policy || (policy.delete && policy.delete(row, who!, table))));
+          tables[name] = table(name).filter(row => !rows.includes(row));
+          rows.forEach(row => notify(name, 'DELETE', row, row));
+        } else {
+          rows = readable(name, who).filter(row => filters.every(f => f(row)));
+        }
+
+        if (operation !== 'select' && !returning) return { data: null, error: null };
+        rows = [...rows].sort((a, b) => {
+          for (const { column, ascending } of orders) {
+            const diff = compare(a[column], b[column]);
+            if (diff) return ascending ? diff : -diff;
+          }
+          return 0;
+        });
+        if (limit !== null) rows = rows.slice(0, limit);
+        const data = rows.map(row => project(clone(row), columns));
+
+        if (single === 'maybe') {
+          if (data.length > 1) return { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned' } };
+          return { data: data[0] ?? null, error: null };
+        }
+        if (single === 'one') {
+          if (data.length !== 1) return { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned' } };
+          return { data: data[0], error: null };
+        }
+        return { data, error: null };
+      };
+
+      const query: any = {
+        select(cols = '*') {
+          columns = cols;
+          if (operation !== 'select') returning = true;
+          return query;
+        },
+        insert(rows: Row | Row[]) {
+          operation = 'insert';
+          payload = Array.isArray(rows) ? rows : [rows];
+          return query;
+        },
+        update(patch: Row) {
+          operation = 'update';
+          payload = patch;
+          return query;
+        },
+        delete() {
+          operation = 'delete';
+          return query;
+        },
+        eq(column: string, value: any) { filters.push(row => sameValue(field(row, column), value)); return query; },
+        neq(column: string, value: any) { filters.push(row => !sameValue(field(row, column), value)); return query; },
+        gt(column: string, value: any) { filters.push(row => OPERATORS.gt(field(row, column), value)); return query; },
+        gte(column: string, value: any) { filters.push(row => OPERATORS.gte(field(row, column), value)); return query; },
+        lt(column: string, value: any) { filters.push(row => OPERATORS.lt(field(row, column), value)); return query; },
+        lte(column: string, value: any) { filters.push(row => OPERATORS.lte(field(row, column), value)); return query; },
+        in(column: string, values: any[]) { filters.push(row => values.some(v => sameValue(field(row, column), v))); return query; },
+        or(expression: string) { filters.push(parseLogic(expression, 'or')); return query; },
+        order(column: string, { ascending = true } = {}) { orders.push({ column, ascending }); return query; },
+        limit(count: number) { limit = count; return query; },
+        single() { single = 'one'; return query; },
+        maybeSingle() { single = 'maybe'; return query; },
+        then(resolve: (result: Result) => any, reject?: (error: any) => any) {
+          return Promise.resolve().then(run).then(resolve, reject);
+        }
+      };
+      return query;
+    };
+
+    const authApi = {
+      async getSession() {
+        return { data: { session: session ? clone({ access_token: session.access_token, user: publicUser(session.user) }) : null }, error: null };
+      },
+      async getUser(token?: string) {
+        const found = token ? sessions.get(token) : session;
+        return found ? { data: { user: publicUser(found.user) }, error: null } : { data: { user: null }, error: { message: 'invalid JWT' } };
+      },
+      async signUp({ email, password, options: signUpOptions }: { email: string; password: string; options?: { data?: Row } }) {
+        if (users.some(u => u.email === email)) return { data: { user: null, session: null }, error: { message: 'User already registered' } };
+        const user: FakeUser = {
+          id: crypto.randomUUID(), email, password, user_metadata: clone(signUpOptions?.data || {}),
+          email_confirmed_at: options.confirmEmails ? null : new Date().toISOString()
+        };
+        users.push(user);
+        if (options.confirmEmails) return { data: { user: publicUser(user), session: null }, error: null };
+        session = newSession(user);
+        return { data: { user: publicUser(user), session: clone({ access_token: session.access_token, user: publicUser(user) }) }, error: null };
+      },
+      async signInWithPassword({ email, password }: { email: string; password: string }) {
+        const user = users.find(u => u.email === email && u.password === password);
+        if (!user) return { data: { user: null, session: null }, error: { message: 'Invalid login credentials' } };
+        if (!user.email_confirmed_at) return { data: { user: null, session: null }, error: { message: 'Email not confirmed' } };
+        session = newSession(user);
+        return { data: { user: publicUser(user), session: clone({ access_token: session.access_token, user: publicUser(user) }) }, error: null };
+      },
+      async signOut() {
+        if (session) sessions.delete(session.access_token);
+        session = null;
+        return { error: null };
+      },
+      async resetPasswordForEmail(email: string) {
+        if (users.some(u => u.email === email)) mailbox.set(email, String(Math.floor(Math.random() * 1_000_000)).padStart(6, '0'));
+        return { data: {}, error: null };
+      },
+      async verifyOtp({ email, token }: { email: string; token: string; type: string }) {
+        const user = users.find(u => u.email === email);
+        if (!user || mailbox.get(email) !== token) return { data: { user: null, session: null }, error: { message: 'Token has expired or is invalid' } };
+        mailbox.delete(email);
+        // Following the emailed code proves the inbox, as it does for real
+        user.email_confirmed_at ||= new Date().toISOString();
+        session = newSession(user);
+        return { data: { user: publicUser(user), session: clone({ access_token: session.access_token, user: publicUser(user) }) }, error: null };
+      },
+      async updateUser({ password }: { password?: string }) {
+        if (!session) return { data: { user: null }, error: { message: 'Auth session missing!' } };
+        if (password) session.user.password = password;
+        return { data: { user: publicUser(session.user) }, error: null };
+      }
+    };
+
+    const client = {
+      from,
+      auth: authApi,
+      async rpc(name: string, args: Row = {}) {
+        const fn = FUNCTIONS[name];
+        if (!fn) return { data: null, error: { message: `Fake Supabase: no function ${name}` } };
+        return { data: clone(fn(args, table)), error: null };
+      },
+      channel(_name: string) {
+        const channel = { auth, handlers: [] as any[] };
+        const api: any = {
+          on(_type: string, filter: { event: string; table: string; filter?: string }, callback: (payload: any) => void) {
+            channel.handlers.push({ table: filter.table, event: filter.event, matches: realtimeFilter(filter.filter), callback });
+            return api;
+          },
+          subscribe(onStatus?: (status: string) => void) {
+            channels.add(channel);
+            queueMicrotask(() => onStatus?.('SUBSCRIBED'));
+            return api;
+          },
+          channel
+        };
+        return api;
+      },
+      async removeChannel(api: any) {
+        channels.delete(api.channel);
+        return 'ok';
+      }
+    };
+    return client as unknown as SupabaseClient;
+  };
+
+  return {
+    connect,
+    /** The last recovery code "emailed" to this address. */
+    resetCode: (email: string) => mailbox.get(email) || '',
+    /** Rows as stored, bypassing RLS, for seeding and for checking what the adapter wrote. */
+    table
+  };
+};
@@ -0,0 +1,14 @@
+/** A Storage (the localStorage interface) kept in memory, one per simulated browser. */
+export const createMemoryStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: key => items.has(key) ? items.get(key)! : null,
+    key: index => [...items.keys()][index] ?? null,
+    removeItem: key => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, String(value)); }
+  };
+};
@@ -0,0 +1,21 @@
+import { describe, it, expect } from 'vitest';
+import { mockProvider } from '../services/mockAiProvider';
+import { repairQuizQuestion } from '../services/quizValidation';
+import { QuizConfig } from '../types';
+
+describe('mock provider quizzes', () => {
+  it('honours the count and formats, with items that pass validation', async () => {
+    const config: QuizConfig = { count: 10, difficulty: 'board', formats: ['mcq', 'assertion-reason', 'fill-blank'] };
+    const questions = await mockProvider.getQuizQuestions('Physics', '10', 'Light', config);
+
+    expect(questions).toHaveLength(10);
+    expect(new Set(questions.map(q => q.format))).toEqual(new Set(config.formats));
+    for (const q of questions) expect(repairQuizQuestion(q)).toEqual(q);
+  });
+
+  it('returns the same quiz for the same settings', async () => {
+    const config: QuizConfig = { count: 5, difficulty: 'easy', formats: ['true-false', 'case-based'] };
+    const first = await mockProvider.getQuizQuestions('Chemistry', '9', 'Atoms', config);
+    expect(await mockProvider.getQuizQuestions('Chemistry', '9', 'Atoms', config)).toEqual(first);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { getPaperBlueprint, blueprintTotal, paperDuration, checkPaperSection, assemblePaper, paperToText } from '../services/paperValidation';
+import { PaperSectionBlueprint } from '../types';
+
+const question = (marks: number, extra: Record<string, unknown> = {}) => ({ text: `Worth ${marks}`, answer: 'Answer', marks, ...extra });
+const options = ['1', '2', '3', '4'];
+
+describe('paper blueprints', () => {
+  it('adds up to the CBSE theory marks for each subject group', () => {
+    expect(blueprintTotal(getPaperBlueprint('Mathematics', '10'))).toBe(80);
+    expect(blueprintTotal(getPaperBlueprint('Physics', '9'))).toBe(80);
+    expect(blueprintTotal(getPaperBlueprint('Physics', '12'))).toBe(70);
+    expect(blueprintTotal(getPaperBlueprint('History', '10'))).toBe(80);
+    expect(blueprintTotal(getPaperBlueprint('English', '10'))).toBe(80);
+    expect(blueprintTotal(getPaperBlueprint('IT', '10'))).toBe(50);
+  });
+
+  it('allows three hours above 50 marks', () => {
+    expect(paperDuration(80)).toBe('3 Hours');
+    expect(paperDuration(50)).toBe('2 Hours');
+  });
+});
+
+describe('checkPaperSection', () => {
+  const shortAnswer: PaperSectionBlueprint = { id: 'B', title: 'Short Answer', questionCount: 3, marksPerQuestion: 2, internalChoices: 1 };
+  const objective: PaperSectionBlueprint = { id: 'A', title: 'MCQ', questionCount: 2, marksPerQuestion: 1, internalChoices: 0, objective: true };
+
+  it('accepts a section that matches its blueprint', () => {
+    const { section, issues } = checkPaperSection({ questions: [question(2, { orText: 'Or this', orAnswer: 'Other' }), question(2), question(2)] }, shortAnswer);
+    expect(issues).toEqual([]);
+    expect(section.questions).toHaveLength(3);
+    expect(section.questions[0].alternative).toEqual({ text: 'Or this', answer: 'Other' });
+  });
+
+  it('reports wrong marks, missing questions and missing internal choices', () => {
+    const { section, issues } = checkPaperSection({ questions: [question(2), question(3), question(2)] }, shortAnswer);
+    expect(section.questions).toHaveLength(2);
+    expect(issues).toEqual([
+      '1 question(s) were not worth 2 marks',
+      'needs 3 complete questions of 2 marks, got 2',
+      'needs 1 internal choices (OR), got 0'
+    ]);
+  });
+
+  it('needs four options on objective questions and trims surplus questions', () => {
+    const { section, issues } = checkPaperSection({ questions: [question(1, { options: ['1', '2'] }), question(1, { options }), question(1, { options }), question(1, { options })] }, objective);
+    expect(issues).toEqual([]);
+    expect(section.questions.map(q => q.options)).toEqual([options, options]);
+    expect(checkPaperSection({ questions: 'none' }, objective).issues).toContain('needs 2 complete questions of 1 marks, got 0');
+  });
+});
+
+describe('assemblePaper', () => {
+  const sectionA = { id: 'A', title: 'MCQ', marksPerQuestion: 1, questions: [1, 1, 1].map(m => ({ number: 0, marks: m, text: 'Q', answer: 'A', options })) };
+  const sectionB = { id: 'B', title: 'Short Answer', marksPerQuestion: 3, questions: [3, 3].map(m => ({ number: 0, marks: m, text: 'Q', answer: 'A' })) };
+
+  it('numbers questions across sections and totals the marks per section', () => {
+    const paper = assemblePaper('Mathematics', '10', '2026-27', ['All questions are compulsory.'], [sectionA, sectionB]);
+    expect(paper.sections.flatMap(s => s.questions.map(q => q.number))).toEqual([1, 2, 3, 4, 5]);
+    expect(paper.totalMarks).toBe(9);
+    expect(paper.duration).toBe('2 Hours');
+
+    const text = paperToText(paper, true);
+    expect(text).toContain('SECTION A - MCQ (3 x 1 = 3 marks)');
+    expect(text).toContain('SECTION B - Short Answer (2 x 3 = 6 marks)');
+    expect(text).toContain('Maximum Marks: 9');
+    expect(text).toContain('ANSWER KEY');
+    expect(paperToText(paper, false)).not.toContain('ANSWER KEY');
+  });
+});
@@ -0,0 +1,123 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { PGlite, Transaction } from '@electric-sql/pglite';
+
+// --- REAL POSTGRES FOR RLS TESTS ---
+// Runs supabase/migrations, as written, in an in-process Postgres (PGlite), so the
+// row-level security tests check the SQL itself rather than a copy of it.
+// What Supabase provides around the migrations is stubbed below: the anon and
+// authenticated roles, auth.users with auth.uid() / auth.jwt() read from the request's
+// JWT claims, the realtime publication, and the tables made by hand before the first
+// migration.
+
+const MIGRATIONS = fileURLToPath(new URL('../supabase/migrations', import.meta.url));
+
+const SUPABASE_STUBS = `
+  create role anon nologin;
+  create role authenticated nologin;
+  grant usage on schema public to anon, authenticated;
+  alter default privileges in schema public grant all on tables to anon, authenticated;
+  alter default privileges in schema public grant all on sequences to anon, authenticated;
+  alter default privileges in schema public grant execute on functions to anon, authenticated;
+
+  create schema auth;
+  grant usage on schema auth to anon, authenticated;
+  create table auth.users (
+    id uuid primary key default gen_random_uuid(),
+    email text not null unique,
+    email_confirmed_at timestamptz
+  );
+  create function auth.uid() returns uuid language sql stable as $$
+    select nullif(current_setting('request.jwt.claim.sub', true), '')::uuid
+  $$;
+  create function auth.jwt() returns jsonb language sql stable as $$
+    select coalesce(nullif(current_setting('request.jwt.claims', true), ''), '{}')::jsonb
+  $$;
+
+  create publication supabase_realtime;
+
+  create table profiles (
+    username text primary key,
+    name text not null,
+    email text not null,
+    class_level text not null,
+    quiz_history jsonb not null default '[]',
+    bookmarks jsonb not null default '[]'
+  );
+  create table private_chats (id text primary key, participants jsonb not null, messages jsonb);
+  create table chat_groups (id text primary key, name text not null, admin_username text not null, members jsonb not null, messages jsonb);
+  create table chat_requests (
+    id text primary key,
+    from_username text not null,
+    from_name text,
+    to_username text not null,
+    status text not null,
+    timestamp bigint
+  );
+  create table global_messages (id text primary key, sender_name text, sender_username text, content text, reply_to jsonb, timestamp bigint);
+`;
+
+export interface AuthUser {
+  id: string;
+  email: string;
+}
+
+/** Who a query runs as: a signed-in auth user, or the anon key. */
+export type Caller = AuthUser | 'anon';
+
+export interface TestDatabase {
+  /** Runs `sql` as `caller`, with RLS and grants applied; rejects with Postgres' own error. */
+  query<T = Record<string, any>>(caller: Caller, sql: string, params?: readonly unknown[]): Promise<T[]>;
+  /** Runs `sql` as the table owner, bypassing RLS, to set up and inspect rows. */
+  admin<T = Record<string, any>>(sql: string, params?: readonly unknown[]): Promise<T[]>;
+  /** An auth user, confirmed unless told otherwise. */
+  createUser(email: string, confirmed?: boolean): Promise<AuthUser>;
+  /** An auth user with a profile, as after signing up. */
+  signUp(username: string, name?: string): Promise<AuthUser>;
+  /** Empties every table, so one database (slow to migrate) serves a whole test file. */
+  reset(): Promise<void>;
+  close(): Promise<void>;
+}
+
+const asCaller = async (tx: Transaction, caller: Caller) => {
+  const claims = caller === 'anon' ? { role: 'anon' } : { sub: caller.id, email: caller.email, role: 'authenticated' };
+  await tx.query(`select set_config('request.jwt.claim.sub', $1, true), set_config('request.jwt.claims', $2, true)`,
+    [caller === 'anon' ? '' : caller.id, JSON.stringify(claims)]);
+  await tx.exec(`set local role ${caller === 'anon' ? 'anon' : 'authenticated'}`);
+};
+
+export const createTestDatabase = async (): Promise<TestDatabase> => {
+  const pg = new PGlite();
+  await pg.exec(SUPABASE_STUBS);
+  for (const file of readdirSync(MIGRATIONS).filter(f => f.endsWith('.sql')).sort()) {
+    await pg.exec(readFileSync(join(MIGRATIONS, file), 'utf8'));
+  }
+
+  const admin = async <T>(sql: string, params: readonly unknown[] = []) => (await pg.query<T>(sql, [...params])).rows;
+
+  const createUser = async (email: string, confirmed = true) => {
+    const [user] = await admin<{ id: string }>(
+      `insert into auth.users (email, email_confirmed_at) values ($1, case when $2 then now() end) returning id`, [email, confirmed]);
+    return { id: user.id, email };
+  };
+
+  return {
+    query: <T>(caller: Caller, sql: string, params: readonly unknown[] = []) => pg.transaction(async tx => {
+      await asCaller(tx, caller);
+      return (await tx.query<T>(sql, [...params])).rows;
+    }),
+    admin,
+    createUser,
+    async signUp(username, name = username) {
+      const user = await createUser(`${username}@example.com`);
+      await admin(`insert into profiles (username, name, email, class_level, user_id) values ($1, $2, $3, '10', $4)`,
+        [username, name, user.email, user.id]);
+      return user;
+    },
+    async reset() {
+      await pg.exec('truncate auth.users, profiles, ask_history, messages, private_chats, chat_groups, chat_requests, ai_usage cascade');
+    },
+    close: () => pg.close()
+  };
+};
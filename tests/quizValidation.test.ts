@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import { matchCorrectAnswer, repairQuizQuestion, checkQuizAnswer, collectValidQuestions } from '../services/quizValidation';
+import { ASSERTION_REASON_OPTIONS } from '../constants';
+import { QuizQuestion } from '../types';
+
+const mcq = (options: unknown[], correctAnswer: string) =>
+  repairQuizQuestion({ format: 'mcq', question: 'Which one?', explanation: 'Because.', options, correctAnswer });
+
+describe('matchCorrectAnswer', () => {
+  const signed = ['x + 2', 'x - 2', '-2', '2'];
+
+  it('prefers an exact or trimmed match', () => {
+    expect(matchCorrectAnswer('x - 2', signed)).toBe('x - 2');
+    expect(matchCorrectAnswer(' -2 ', signed)).toBe('-2');
+    expect(matchCorrectAnswer('2', signed)).toBe('2');
+  });
+
+  it('keeps signs and operators apart', () => {
+    expect(matchCorrectAnswer('x-2', signed)).toBe('x - 2');
+    expect(matchCorrectAnswer('x+2', signed)).toBe('x + 2');
+    expect(matchCorrectAnswer('x - 2', ['x + 2', 'x + 3', 'x + 4', 'x + 5'])).toBeNull();
+    expect(matchCorrectAnswer('5', ['-5', '6', '7', '8'])).toBeNull();
+    expect(matchCorrectAnswer('x2', ['x²', 'x³', 'x⁴', 'x⁵'])).toBeNull();
+    expect(matchCorrectAnswer('2x² - 3x + 1', ['2x² + 3x + 1', '2x² + 3x - 1', 'x² + 1', 'x - 1'])).toBeNull();
+  });
+
+  it('folds case and spacing, and reads option letters', () => {
+    expect(matchCorrectAnswer('PHOTOSYNTHESIS', ['Respiration', 'Photosynthesis', 'Transpiration', 'Digestion'])).toBe('Photosynthesis');
+    expect(matchCorrectAnswer('Option C', ['Mercury', 'Venus', 'Earth', 'Mars'])).toBe('Earth');
+    expect(matchCorrectAnswer('(b)', ['Mercury', 'Venus', 'Earth', 'Mars'])).toBe('Venus');
+    expect(matchCorrectAnswer('B) Venus', ['Mercury', 'Venus', 'Earth', 'Mars'])).toBe('Venus');
+  });
+
+  it('fixes spelling only when a single option is close', () => {
+    expect(matchCorrectAnswer('Photosynthesys', ['Respiration', 'Photosynthesis', 'Transpiration', 'Digestion'])).toBe('Photosynthesis');
+    expect(matchCorrectAnswer('Newton', ['Newtons', 'Newtonn', 'Joule', 'Watt'])).toBeNull();
+  });
+
+  it('uses containment only when a single option contains the answer', () => {
+    expect(matchCorrectAnswer('Mitochondria', ['The mitochondria', 'Nucleus', 'Ribosome', 'Golgi body'])).toBe('The mitochondria');
+    expect(matchCorrectAnswer('acid', ['Strong acid', 'Weak acid', 'Base', 'Salt'])).toBeNull();
+  });
+});
+
+describe('repairQuizQuestion option repair', () => {
+  it('keeps maths options that differ only in a sign or operator', () => {
+    expect(mcq(['-2', '2', 'x + 2', 'x - 2'], '-2')).toMatchObject({ options: ['-2', '2', 'x + 2', 'x - 2'], correctAnswer: '-2' });
+    expect(mcq(['x²', 'x2', '2x', 'x/2'], 'x²')).toMatchObject({ options: ['x²', 'x2', '2x', 'x/2'], correctAnswer: 'x²' });
+    expect(mcq(['a - b', 'a + b', 'b - a', 'ab'], 'a - b')).toMatchObject({ options: ['a - b', 'a + b', 'b - a', 'ab'] });
+  });
+
+  it('drops real duplicates and option labels', () => {
+    const repaired = mcq(['A) Iron', 'B) iron', 'C) Copper', 'D) Zinc', 'Gold'], 'Copper');
+    expect(repaired).toMatchObject({ options: ['Iron', 'Copper', 'Zinc', 'Gold'], correctAnswer: 'Copper' });
+  });
+
+  it('rejects an item whose answer is not among the options', () => {
+    expect(mcq(['x + 2', 'x + 3', 'x + 4', 'x + 5'], 'x - 2')).toBeNull();
+    expect(mcq(['1', '2', '3'], '1')).toBeNull();
+  });
+});
+
+describe('checkQuizAnswer', () => {
+  const blank = (correctAnswer: string, acceptedAnswers?: string[]): QuizQuestion =>
+    ({ format: 'fill-blank', question: 'The answer is ____.', explanation: '', correctAnswer, acceptedAnswers });
+
+  it('marks fill-blank answers by value, not just digits', () => {
+    expect(checkQuizAnswer(blank('-5'), '-5')).toBe(true);
+    expect(checkQuizAnswer(blank('-5'), '5')).toBe(false);
+    expect(checkQuizAnswer(blank('5'), '-5')).toBe(false);
+    expect(checkQuizAnswer(blank('x + 2'), 'x+2')).toBe(true);
+    expect(checkQuizAnswer(blank('x + 2'), 'x - 2')).toBe(false);
+  });
+
+  it('ignores case and spacing, and takes accepted alternatives', () => {
+    expect(checkQuizAnswer(blank('Chlorophyll'), '  chlorophyll ')).toBe(true);
+    expect(checkQuizAnswer(blank('Kinetic energy', ['KE']), 'ke')).toBe(true);
+  });
+
+  it('compares the chosen option exactly', () => {
+    const question: QuizQuestion = { format: 'mcq', question: 'Root of x + 2 = 0?', explanation: '', options: ['-2', '2', '0', '1'], correctAnswer: '-2' };
+    expect(checkQuizAnswer(question, '-2')).toBe(true);
+    expect(checkQuizAnswer(question, '2')).toBe(false);
+  });
+});
+
+describe('quiz formats', () => {
+  const base = { question: 'Choose the correct option.', explanation: 'See NCERT.' };
+
+  it('gives assertion-reason items the standard four options', () => {
+    const repaired = repairQuizQuestion({ ...base, format: 'assertion-reason', assertion: 'Metals conduct heat.', reason: 'Metals have free electrons.', correctAnswer: 'A' });
+    expect(repaired).toMatchObject({ format: 'assertion-reason', options: ASSERTION_REASON_OPTIONS, correctAnswer: ASSERTION_REASON_OPTIONS[0] });
+    expect(repairQuizQuestion({ ...base, format: 'assertion-reason', assertion: 'Metals conduct heat.', correctAnswer: 'A' })).toBeNull();
+  });
+
+  it('needs a passage for case-based items', () => {
+    const item = { ...base, format: 'case-based', options: ['Ohm', 'Volt', 'Ampere', 'Watt'], correctAnswer: 'Ohm' };
+    expect(repairQuizQuestion({ ...item, passage: 'A student measures resistance...' })).toMatchObject({ format: 'case-based', correctAnswer: 'Ohm' });
+    expect(repairQuizQuestion(item)).toBeNull();
+  });
+
+  it('reads true/false answers in any common spelling', () => {
+    expect(repairQuizQuestion({ ...base, format: 'true-false', correctAnswer: 'TRUE.' })).toMatchObject({ correctAnswer: true });
+    expect(repairQuizQuestion({ ...base, format: 'true-false', correctAnswer: false })).toMatchObject({ correctAnswer: false });
+    expect(repairQuizQuestion({ ...base, format: 'true-false', correctAnswer: 'maybe' })).toBeNull();
+    expect(checkQuizAnswer({ ...base, format: 'true-false', correctAnswer: true }, 'True')).toBe(true);
+  });
+
+  it('needs a visible blank for fill-blank items', () => {
+    expect(repairQuizQuestion({ ...base, format: 'fill-blank', question: 'Water boils at ____ °C.', correctAnswer: '100', acceptedAnswers: ['100°C', ''] }))
+      .toMatchObject({ format: 'fill-blank', correctAnswer: '100', acceptedAnswers: ['100°C'] });
+    expect(repairQuizQuestion({ ...base, format: 'fill-blank', question: 'Water boils at what temperature?', correctAnswer: '100' })).toBeNull();
+  });
+
+  it('infers the format of older items without one', () => {
+    expect(repairQuizQuestion({ ...base, options: ['1', '2', '3', '4'], correctAnswer: '2' })).toMatchObject({ format: 'mcq' });
+    expect(repairQuizQuestion({ ...base, correctAnswer: 'False' })).toMatchObject({ format: 'true-false' });
+  });
+
+  it('keeps only the asked-for formats and drops repeats', () => {
+    const ar = (assertion: string) => ({ ...base, format: 'assertion-reason', assertion, reason: 'Because.', correctAnswer: 'C' });
+    const raw = [
+      { ...base, format: 'mcq', options: ['1', '2', '3', '4'], correctAnswer: '1' },
+      ar('Ice floats on water.'),
+      ar('ice floats  on water.'),
+      ar('Sound needs a medium.'),
+      { ...base, format: 'true-false', correctAnswer: 'True' }
+    ];
+    const valid = collectValidQuestions(raw, [], ['assertion-reason', 'true-false']);
+    expect(valid.map(q => q.format)).toEqual(['assertion-reason', 'assertion-reason', 'true-false']);
+    expect(collectValidQuestions(raw, valid)).toHaveLength(1);
+    expect(collectValidQuestions('not a list')).toEqual([]);
+  });
+});
@@ -0,0 +1,31 @@
+import { describe, it, expect } from 'vitest';
+import { cacheKeys, isCacheable } from '../services/responseCache';
+
+const answerKey = (question: string) => cacheKeys.answer(question, 'Mathematics', '10', 'Exam Ready', 'English');
+
+describe('cacheKeys', () => {
+  it('gives questions that differ only in an operator different keys', () => {
+    const keys = ['solve x+2=5', 'solve x-2=5', 'solve x*2=5', 'solve x/2=5', '2^3', '2*3', '-5', '5', 'x²', 'x2'].map(answerKey);
+    expect(new Set(keys).size).toBe(keys.length);
+  });
+
+  it('ignores case, spacing and Unicode form', () => {
+    expect(answerKey('  Solve   X+2=5 ')).toBe(answerKey('solve x+2=5'));
+    expect(answerKey('cafe\u0301')).toBe(answerKey('caf\u00e9'));
+  });
+
+  it('keeps symbols in quiz and project topics too', () => {
+    const config = { count: 5, difficulty: 'easy' as const, formats: ['mcq' as const] };
+    expect(cacheKeys.quiz('Mathematics', '10', 'a+b', config, 'English')).not.toBe(cacheKeys.quiz('Mathematics', '10', 'a-b', config, 'English'));
+    expect(cacheKeys.project('Chemistry', 'ASL', 'H2O + CO2', '10', 'English')).not.toBe(cacheKeys.project('Chemistry', 'ASL', 'H2O - CO2', '10', 'English'));
+  });
+});
+
+describe('isCacheable', () => {
+  it('refuses warnings and errors', () => {
+    expect(isCacheable('Force is mass times acceleration.')).toBe(true);
+    expect(isCacheable('⚠️ High Traffic')).toBe(false);
+    expect(isCacheable('Error: quota')).toBe(false);
+    expect(isCacheable('')).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { parseRichText, parseInline, richTextToHtml, richTextToPlain, isFormula } from '../services/richText';
+
+describe('parseInline', () => {
+  it('reads "$5 and $10" as currency, not maths', () => {
+    expect(parseInline('Pens cost $5 and $10.')).toEqual([{ type: 'text', text: 'Pens cost $5 and $10.' }]);
+    expect(richTextToPlain('Pens cost $5 and $10.')).toBe('Pens cost $5 and $10.');
+  });
+
+  it('reads $...$ as maths', () => {
+    expect(parseInline('Area $\\pi r^2$')).toEqual([
+      { type: 'text', text: 'Area ' },
+      { type: 'math', children: [{ type: 'text', text: 'π r' }, { type: 'sup', children: [{ type: 'text', text: '2' }] }] }
+    ]);
+    expect(richTextToPlain('$\\frac{a}{b} + x^{2}$ and x^3, 2*x')).toBe('a/b + x² and x³, 2×x');
+  });
+});
+
+describe('isFormula', () => {
+  it('accepts chemical formulas and rejects labels like Q1 or B12', () => {
+    for (const formula of ['H2O', 'CO2', '2CO2', 'Ca(OH)2', 'H2SO4']) expect(isFormula(formula), formula).toBe(true);
+    for (const label of ['Q1', 'B12', 'A4', 'CO', 'Xy2']) expect(isFormula(label), label).toBe(false);
+  });
+
+  it('subscripts bare formulas in running text only', () => {
+    expect(richTextToPlain('Water is H2O; see Q1 and vitamin B12.')).toBe('Water is H₂O; see Q1 and vitamin B12.');
+    expect(richTextToPlain('\\ce{Fe^{3+} + 3OH^- -> Fe(OH)3}')).toBe('Fe³⁺ + 3OH⁻ → Fe(OH)₃');
+  });
+});
+
+describe('parseRichText', () => {
+  it('splits lines, blanks, display maths and tables', () => {
+    const blocks = parseRichText('Intro\n\n$$x^2$$\n| a | b |\n|---|---|\n| 1 | 2 |');
+    expect(blocks.map(block => block.type)).toEqual(['line', 'blank', 'display', 'table']);
+    expect(blocks[3]).toEqual({
+      type: 'table',
+      header: [[{ type: 'text', text: 'a' }], [{ type: 'text', text: 'b' }]],
+      rows: [[[{ type: 'text', text: '1' }], [{ type: 'text', text: '2' }]]]
+    });
+  });
+});
+
+describe('richTextToHtml', () => {
+  it('escapes markup in text, maths and table cells', () => {
+    const html = richTextToHtml('<script>alert(1)</script> & **<b>**\n$a<b$\n| <i> |\n|---|\n| x & y |');
+    expect(html).not.toMatch(/<script|<i>|<b><b>/);
+    expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt; &amp; <b>&lt;b&gt;</b>');
+    expect(html).toContain('a&lt;b');
+    expect(html).toContain('&lt;i&gt;</th>');
+    expect(html).toContain('x &amp; y</td>');
+  });
+
+  it('renders scripts and fractions as tags', () => {
+    expect(richTextToHtml('H2O and $\\frac{1}{2}$')).toBe(
+      'H<sub>2</sub>O and <span style="font-family: \'Cambria Math\', \'Times New Roman\', serif;"><sup>1</sup>&frasl;<sub>2</sub></span>'
+    );
+  });
+});
@@ -0,0 +1,46 @@
+import 'fake-indexeddb/auto';
+import { IDBFactory } from 'fake-indexeddb';
+import { createLocalStorageAdapter, STORAGE_PREFIX } from '../services/localStorageAdapter';
+import { createIndexedDbAdapter } from '../services/indexedDbAdapter';
+import { createSupabaseAdapter } from '../services/supabaseAdapter';
+import { describeStorageAdapter, HarnessSeed } from './storageConformance';
+import { createMemoryStorage } from './memoryStorage';
+import { createFakeSupabase } from './fakeSupabase';
+
+// Every adapter, same suite. Tabs of one browser share its Storage (and IndexedDB),
+// which is the whole "server" in mock mode.
+
+const seedStorage = (storage: Storage, seed: HarnessSeed = {}) => {
+  if (seed.legacyProfiles) storage.setItem(STORAGE_PREFIX + 'profiles', JSON.stringify(seed.legacyProfiles));
+  return storage;
+};
+
+describeStorageAdapter('localStorage', seed => {
+  const storage = seedStorage(createMemoryStorage(), seed);
+  return {
+    adapter: createLocalStorageAdapter(storage),
+    connect: () => createLocalStorageAdapter(storage),
+    resetCode: (_email, requested) => requested.demoCode || ''
+  };
+});
+
+describeStorageAdapter('IndexedDB', seed => {
+  // Legacy profiles come in through the one-time localStorage migration
+  const storage = seedStorage(createMemoryStorage(), seed);
+  const factory = new IDBFactory();
+  return {
+    adapter: createIndexedDbAdapter(factory, storage),
+    connect: () => createIndexedDbAdapter(factory, storage),
+    resetCode: (_email, requested) => requested.demoCode || ''
+  };
+});
+
+describeStorageAdapter('Supabase', (seed = {}) => {
+  const server = createFakeSupabase();
+  (seed.legacyProfiles || []).forEach(profile => server.table('profiles').push({ ...profile, user_id: null }));
+  return {
+    adapter: createSupabaseAdapter(server.connect()),
+    connect: () => createSupabaseAdapter(server.connect()),
+    resetCode: email => server.resetCode(email)
+  };
+});
@@ -0,0 +1,340 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { ChatMessage, ChatRequest, AskRecord, Bookmark } from '../types';
+import { StorageAdapter, ProfileRow, ChatEvent, AUTH_ERRORS, GLOBAL_CHAT_ID } from '../services/storageAdapter';
+
+// --- STORAGE ADAPTER CONFORMANCE ---
+// One behavioral suite for every StorageAdapter. Each adapter runs it against its own
+// backend (an in-memory Storage, fake-indexeddb, the in-memory Supabase), so mock mode
+// and Supabase mode can't drift apart again without a test failing.
+
+export interface StorageHarness {
+  adapter: StorageAdapter;
+  /** Another browser (or tab) using the same backend. */
+  connect(): StorageAdapter;
+  /** The code requestPasswordReset sent to `email`; mock mode hands it back as `demoCode`. */
+  resetCode(email: string, requested: { demoCode?: string }): string;
+}
+
+export interface HarnessSeed {
+  /** Accounts from before passwords: a profile with no password or auth user. */
+  legacyProfiles?: ProfileRow[];
+}
+
+export type CreateHarness = (seed?: HarnessSeed) => StorageHarness | Promise<StorageHarness>;
+
+const PASSWORD = 'correct horse';
+
+const nameOf = (username: string) => username[0].toUpperCase() + username.slice(1);
+
+const signUp = (adapter: StorageAdapter, username: string, overrides: Partial<{ name: string; email: string; classLevel: '9' | '10' | '11' | '12'; password: string }> = {}) =>
+  adapter.signUp({ name: nameOf(username), email: `${username}@example.com`, username, classLevel: '10', password: PASSWORD, ...overrides });
+
+// Sent under the sender's profile name, as Chat does
+const message = (id: string, sender: string, content = `Message ${id}`): ChatMessage =>
+  ({ id, senderName: nameOf(sender), senderUsername: sender, content, timestamp: Date.now() });
+
+const request = (id: string, from: string, to: string): ChatRequest =>
+  ({ id, fromUsername: from, fromName: from, toUsername: to, status: 'pending', timestamp: Date.now() });
+
+const record = (id: string, overrides: Partial<AskRecord> = {}): AskRecord => ({
+  id, question: `Question ${id}`, answer: `Answer ${id}`, timestamp: Number(id), subject: 'Physics', classLevel: '10', mode: 'Exam Ready', ...overrides
+});
+
+// Realtime events arrive asynchronously; wait for one instead of sleeping a fixed time
+const waitFor = async <T>(read: () => T | undefined, timeoutMs = 2000): Promise<T> => {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    const value = read();
+    if (value !== undefined) return value;
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  throw new Error('Timed out waiting for a realtime event');
+};
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 100));
+
+export const describeStorageAdapter = (label: string, createHarness: CreateHarness) => {
+  describe(`${label} storage adapter`, () => {
+    let harness: StorageHarness;
+    let db: StorageAdapter;
+    const unsubscribers: (() => void)[] = [];
+
+    beforeEach(async () => {
+      harness = await createHarness();
+      db = harness.adapter;
+    });
+
+    afterEach(() => {
+      unsubscribers.splice(0).forEach(stop => stop());
+    });
+
+    describe('auth', () => {
+      it('signs up, normalizes the username and email, and keeps the session', async () => {
+        const settings = await signUp(db, 'Asha ', { name: 'Asha', email: ' Asha@Example.com', classLevel: '12' });
+        expect(settings).toMatchObject({ username: 'asha', email: 'asha@example.com', classLevel: '12', isAuthenticated: true });
+
+        const session = await db.getSession();
+        expect(session).toMatchObject({ username: 'asha', name: 'Asha', classLevel: '12', quizHistory: [], bookmarks: [] });
+      });
+
+      it('rejects a short password', async () => {
+        await expect(signUp(db, 'asha', { password: 'short' })).rejects.toThrow(/at least/);
+        expect(await db.getSession()).toBeNull();
+      });
+
+      it('rejects a taken username and an email linked to another username', async () => {
+        await signUp(db, 'asha');
+        await expect(signUp(harness.connect(), 'asha', { email: 'other@example.com' })).rejects.toThrow(AUTH_ERRORS.usernameTaken('asha'));
+        await expect(signUp(harness.connect(), 'ravi', { email: 'asha@example.com' })).rejects.toThrow(/already linked/);
+      });
+
+      it('signs in by username or email and refuses a wrong password or unknown account', async () => {
+        await signUp(db, 'asha');
+        await db.logout();
+        expect(await db.getSession()).toBeNull();
+
+        await expect(db.signIn('asha', 'wrong password')).rejects.toThrow(AUTH_ERRORS.wrongPassword);
+        await expect(db.signIn('nobody', PASSWORD)).rejects.toThrow(AUTH_ERRORS.unknownAccount('nobody'));
+
+        expect(await db.signIn('Asha', PASSWORD)).toMatchObject({ username: 'asha' });
+        await db.logout();
+        expect(await db.signIn('asha@example.com', PASSWORD)).toMatchObject({ username: 'asha' });
+        expect(await db.getSession()).toMatchObject({ username: 'asha' });
+      });
+
+      it('saves profile changes', async () => {
+        const settings = await signUp(db, 'asha');
+        const bookmark: Bookmark = { id: 'b1', type: 'qa', title: 'Ohm', content: 'V = IR', timestamp: 1 };
+        await db.updateProfile({ ...settings, name: 'Asha K', classLevel: '11', language: 'Hindi', bookmarks: [bookmark] });
+
+        expect(await db.getSession()).toMatchObject({ name: 'Asha K', classLevel: '11', language: 'Hindi', bookmarks: [bookmark] });
+        const other = harness.connect();
+        expect(await other.signIn('asha', PASSWORD)).toMatchObject({ name: 'Asha K', classLevel: '11' });
+      });
+
+      it('resets a forgotten password with the emailed code', async () => {
+        await signUp(db, 'asha');
+        await db.logout();
+
+        const requested = await db.requestPasswordReset('ASHA@example.com');
+        await expect(db.resetPassword('asha@example.com', '000000x', 'a new password')).rejects.toThrow(AUTH_ERRORS.badResetCode);
+
+        const code = harness.resetCode('asha@example.com', requested);
+        expect(await db.resetPassword('asha@example.com', code, 'a new password')).toMatchObject({ username: 'asha' });
+        expect(await db.getSession()).toMatchObject({ username: 'asha' });
+
+        await db.logout();
+        await expect(db.signIn('asha', PASSWORD)).rejects.toThrow(AUTH_ERRORS.wrongPassword);
+        expect(await db.signIn('asha', 'a new password')).toMatchObject({ username: 'asha' });
+      });
+
+      it('answers a reset request the same way for an unknown email', async () => {
+        await expect(db.requestPasswordReset('nobody@example.com')).resolves.toBeDefined();
+      });
+
+      it('lists everyone in the directory', async () => {
+        await signUp(db, 'asha', { classLevel: '9' });
+        await signUp(harness.connect(), 'ravi', { classLevel: '12' });
+        const directory = await db.getDirectory();
+        expect(directory).toEqual(expect.arrayContaining([
+          { name: 'Asha', username: 'asha', classLevel: '9' },
+          { name: 'Ravi', username: 'ravi', classLevel: '12' }
+        ]));
+      });
+
+      it('lets the owner of a legacy profile claim it by signing up with its email', async () => {
+        const legacy: ProfileRow = { username: 'meera', name: 'Meera', email: 'meera@example.com', class_level: '9', quiz_history: [], bookmarks: [] };
+        harness = await createHarness({ legacyProfiles: [legacy] });
+        db = harness.adapter;
+
+        await expect(db.signIn('meera', PASSWORD)).rejects.toThrow(AUTH_ERRORS.noPassword('meera'));
+        await expect(signUp(db, 'meera', { email: 'someone@example.com' })).rejects.toThrow(AUTH_ERRORS.usernameTaken('meera'));
+
+        expect(await signUp(db, 'meera', { name: 'Meera S', classLevel: '10' })).toMatchObject({ username: 'meera', name: 'Meera S', classLevel: '10' });
+        await db.logout();
+        expect(await db.signIn('meera', PASSWORD)).toMatchObject({ username: 'meera' });
+        await expect(signUp(harness.connect(), 'meera')).rejects.toThrow(AUTH_ERRORS.usernameTaken('meera'));
+      });
+    });
+
+    describe('ask history', () => {
+      beforeEach(async () => {
+        await signUp(db, 'asha');
+      });
+
+      it('lists records newest first, filters them and deletes them', async () => {
+        await db.saveAskRecord('asha', record('1000', { question: 'What is inertia?' }));
+        await db.saveAskRecord('asha', record('3000', { subject: 'Chemistry', answer: 'Covalent BONDS share electrons' }));
+        const evaluation = { studentAnswer: 'Mine', marks: 3, score: 2, feedback: 'Good', missingPoints: ['Units'], modelAnswer: 'Answer 2000' };
+        await db.saveAskRecord('asha', record('2000', { evaluation }));
+
+        expect((await db.getAskHistory('asha')).map(r => r.id)).toEqual(['3000', '2000', '1000']);
+        expect((await db.getAskHistory('asha', { subject: 'Chemistry' })).map(r => r.id)).toEqual(['3000']);
+        expect((await db.getAskHistory('asha', { query: 'bonds' })).map(r => r.id)).toEqual(['3000']);
+        expect((await db.getAskHistory('asha', { query: 'INERTIA' })).map(r => r.id)).toEqual(['1000']);
+        expect((await db.getAskHistory('asha')).find(r => r.id === '2000')?.evaluation).toEqual(evaluation);
+
+        await db.deleteAskRecord('asha', '2000');
+        expect((await db.getAskHistory('asha')).map(r => r.id)).toEqual(['3000', '1000']);
+      });
+
+      it("keeps each user's history to themselves", async () => {
+        await db.saveAskRecord('asha', record('1000'));
+        const other = harness.connect();
+        await signUp(other, 'ravi');
+        await other.saveAskRecord('ravi', record('2000'));
+
+        expect((await other.getAskHistory('ravi')).map(r => r.id)).toEqual(['2000']);
+        expect((await db.getAskHistory('asha')).map(r => r.id)).toEqual(['1000']);
+      });
+    });
+
+    describe('messages', () => {
+      beforeEach(async () => {
+        await signUp(db, 'asha');
+        for (const id of ['chat-1', 'chat-2']) await db.createGroup({ id, name: id, adminUsername: 'asha', members: ['asha'] });
+      });
+
+      it('stores messages with a timestamp and pages back through them oldest first', async () => {
+        const sent: ChatMessage[] = [];
+        for (const id of ['m1', 'm2', 'm3', 'm4', 'm5']) {
+          const stored = await db.sendMessage(GLOBAL_CHAT_ID, message(id, 'asha'));
+          expect(stored).toMatchObject({ id, senderUsername: 'asha', content: `Message ${id}` });
+          expect(typeof stored!.timestamp).toBe('number');
+          sent.push(stored!);
+        }
+
+        const newest = await db.getMessages(GLOBAL_CHAT_ID, undefined, 2);
+        expect(newest.map(m => m.id)).toEqual(['m4', 'm5']);
+        const earlier = await db.getMessages(GLOBAL_CHAT_ID, newest[0], 2);
+        expect(earlier.map(m => m.id)).toEqual(['m2', 'm3']);
+        const first = await db.getMessages(GLOBAL_CHAT_ID, earlier[0], 2);
+        expect(first.map(m => m.id)).toEqual(['m1']);
+        expect((await db.getMessages(GLOBAL_CHAT_ID)).map(m => m.id)).toEqual(sent.map(m => m.id));
+      });
+
+      it('keeps replies and separates conversations', async () => {
+        await db.sendMessage(GLOBAL_CHAT_ID, message('g1', 'asha'));
+        const reply = { ...message('c2', 'asha'), replyTo: { id: 'c1', senderName: 'Asha', content: 'First' } };
+        await db.sendMessage('chat-1', message('c1', 'asha', 'First'));
+        await db.sendMessage('chat-1', reply);
+
+        const chat = await db.getMessages('chat-1');
+        expect(chat.map(m => m.id)).toEqual(['c1', 'c2']);
+        expect(chat[1].replyTo).toEqual(reply.replyTo);
+        expect((await db.getMessages(GLOBAL_CHAT_ID)).map(m => m.id)).toEqual(['g1']);
+      });
+
+      it('counts replies in the whole conversation, beyond the loaded page', async () => {
+        const replyTo = (parent: string) => ({ id: parent, senderName: 'Asha', content: parent });
+        await db.sendMessage('chat-1', message('p1', 'asha'));
+        await db.sendMessage('chat-1', message('p2', 'asha'));
+        for (const id of ['r1', 'r2', 'r3']) await db.sendMessage('chat-1', { ...message(id, 'asha'), replyTo: replyTo('p1') });
+        await db.sendMessage('chat-2', { ...message('x1', 'asha'), replyTo: replyTo('p1') });
+
+        expect((await db.getMessages('chat-1', undefined, 1)).map(m => m.id)).toEqual(['r3']);
+        expect(await db.getReplyCounts('chat-1', ['p1', 'p2'])).toEqual({ p1: 3 });
+        expect(await db.getReplyCounts('chat-1', [])).toEqual({});
+      });
+    });
+
+    describe('private chats, requests and groups', () => {
+      let other: StorageAdapter;
+
+      beforeEach(async () => {
+        await signUp(db, 'asha');
+        other = harness.connect();
+        await signUp(other, 'ravi');
+      });
+
+      it('creates one private chat per pair, visible to both, with its last message', async () => {
+        await db.createPrivateChat(['asha', 'ravi']);
+        await other.createPrivateChat(['Ravi', 'asha']);
+
+        const chats = await db.getPrivateChats('asha');
+        expect(chats).toHaveLength(1);
+        expect([...chats[0].participants].sort()).toEqual(['asha', 'ravi']);
+        expect(await other.getPrivateChats('ravi')).toHaveLength(1);
+        expect(await db.getPrivateChats('meera')).toHaveLength(0);
+
+        await db.sendMessage(chats[0].id, message('p1', 'asha'));
+        await other.sendMessage(chats[0].id, message('p2', 'ravi'));
+        expect((await db.getPrivateChats('asha'))[0].lastMessage).toMatchObject({ id: 'p2', senderUsername: 'ravi' });
+      });
+
+      it('sends a chat request once and lets the recipient answer it', async () => {
+        await db.sendRequest(request('r1', 'asha', 'ravi'));
+        await db.sendRequest(request('r2', 'asha', 'ravi'));
+
+        expect((await other.getRequests('ravi')).map(r => r.id)).toEqual(['r1']);
+        expect((await db.getRequests('asha')).map(r => r.id)).toEqual(['r1']);
+
+        expect(await other.updateRequestStatus('r1', 'accepted')).toMatchObject({ id: 'r1', status: 'accepted', fromUsername: 'asha', toUsername: 'ravi' });
+        expect((await db.getRequests('asha'))[0].status).toBe('accepted');
+        expect(await other.updateRequestStatus('missing', 'rejected')).toBeNull();
+      });
+
+      it('shows groups to their members only, with the last message', async () => {
+        await db.createGroup({ id: 'g1', name: 'Physics gang', adminUsername: 'asha', members: ['asha', 'ravi'] });
+        await db.createGroup({ id: 'g2', name: 'Just me', adminUsername: 'asha', members: ['asha'] });
+
+        expect((await db.getGroups('asha')).map(g => g.id).sort()).toEqual(['g1', 'g2']);
+        const ravis = await other.getGroups('ravi');
+        expect(ravis).toHaveLength(1);
+        expect(ravis[0]).toMatchObject({ id: 'g1', name: 'Physics gang', adminUsername: 'asha', members: ['asha', 'ravi'] });
+
+        await other.sendMessage('g1', message('gm1', 'ravi'));
+        expect((await db.getGroups('asha')).find(g => g.id === 'g1')?.lastMessage).toMatchObject({ id: 'gm1' });
+      });
+    });
+
+    describe('realtime', () => {
+      let other: StorageAdapter;
+      let events: ChatEvent[];
+
+      beforeEach(async () => {
+        await signUp(db, 'asha');
+        other = harness.connect();
+        await signUp(other, 'ravi');
+        events = [];
+      });
+
+      const listen = async (adapter: StorageAdapter, username: string) => {
+        let connected = false;
+        unsubscribers.push(adapter.subscribe(username, event => events.push(event), status => { connected = status === 'connected'; }));
+        await waitFor(() => connected || undefined);
+      };
+
+      it("delivers another client's message", async () => {
+        await listen(db, 'asha');
+        await other.sendMessage(GLOBAL_CHAT_ID, message('live-1', 'ravi'));
+
+        const event = await waitFor(() => events.find(e => e.type === 'message'));
+        expect(event).toMatchObject({ type: 'message', conversationId: GLOBAL_CHAT_ID, message: { id: 'live-1', senderUsername: 'ravi' } });
+      });
+
+      it('delivers requests, chats and groups that involve the user, and nothing else', async () => {
+        await listen(db, 'asha');
+        await other.sendRequest(request('r1', 'ravi', 'meera'));
+        await other.createGroup({ id: 'g-other', name: 'Not Asha', adminUsername: 'ravi', members: ['ravi'] });
+        await other.sendRequest(request('r2', 'ravi', 'asha'));
+        await other.createPrivateChat(['ravi', 'asha']);
+        await other.createGroup({ id: 'g1', name: 'Both', adminUsername: 'ravi', members: ['ravi', 'asha'] });
+
+        await waitFor(() => events.find(e => e.type === 'group'));
+        await settle();
+        expect(events.filter(e => e.type === 'request').map(e => e.type === 'request' && e.request.id)).toEqual(['r2']);
+        expect(events.filter(e => e.type === 'privateChat')).toHaveLength(1);
+        expect(events.filter(e => e.type === 'group').map(e => e.type === 'group' && e.group.id)).toEqual(['g1']);
+      });
+
+      it('stops delivering after unsubscribing', async () => {
+        await listen(db, 'asha');
+        unsubscribers.pop()!();
+        await other.sendMessage(GLOBAL_CHAT_ID, message('late', 'ravi'));
+        await settle();
+        expect(events).toEqual([]);
+      });
+    });
+  });
+};
@@ -0,0 +1,80 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createSupabaseAdapter } from '../services/supabaseAdapter';
+import { StorageAdapter, ChatEvent, AUTH_ERRORS } from '../services/storageAdapter';
+import { createFakeSupabase } from './fakeSupabase';
+
+// --- SUPABASE ADAPTER ---
+// How the adapter uses Supabase, against the in-memory stand-in. The stand-in models the
+// policies only so these calls meet the same refusals; what the database itself allows
+// is tested against the real migrations in supabaseRls.test.ts.
+
+const PASSWORD = 'correct horse';
+
+const signedIn = async (server: ReturnType<typeof createFakeSupabase>, username: string) => {
+  const adapter = createSupabaseAdapter(server.connect());
+  await adapter.signUp({ name: username, email: `${username}@example.com`, username, classLevel: '10', password: PASSWORD });
+  return adapter;
+};
+
+describe('Supabase adapter chat', () => {
+  let server: ReturnType<typeof createFakeSupabase>;
+  let asha: StorageAdapter;
+  let meera: StorageAdapter;
+  const unsubscribers: (() => void)[] = [];
+
+  beforeEach(async () => {
+    server = createFakeSupabase();
+    asha = await signedIn(server, 'asha');
+    await signedIn(server, 'ravi');
+    meera = await signedIn(server, 'meera');
+    await asha.createGroup({ id: 'g1', name: 'Study', adminUsername: 'asha', members: ['asha', 'ravi'] });
+    await asha.sendRequest({ id: 'r1', fromUsername: 'asha', fromName: 'asha', toUsername: 'ravi', status: 'pending', timestamp: Date.now() });
+  });
+
+  afterEach(() => {
+    unsubscribers.splice(0).forEach(stop => stop());
+  });
+
+  it('passes on only the changes a subscriber may read', async () => {
+    const received: ChatEvent[] = [];
+    unsubscribers.push(meera.subscribe('meera', event => received.push(event)));
+
+    await asha.createGroup({ id: 'g3', name: 'Private', adminUsername: 'asha', members: ['asha', 'ravi'] });
+    await asha.sendMessage('g1', { id: 'secret', senderName: 'asha', senderUsername: 'asha', content: 'Shh', timestamp: 0 });
+    await asha.sendMessage('global', { id: 'public', senderName: 'asha', senderUsername: 'asha', content: 'Hello', timestamp: 0 });
+    await new Promise(resolve => setTimeout(resolve, 50));
+
+    expect(received.map(event => event.type === 'message' ? event.message.id : event.type)).toEqual(['public']);
+  });
+
+  it('returns null when the database refuses a write', async () => {
+    expect(await meera.sendMessage('g1', { id: 'x1', senderName: 'meera', senderUsername: 'meera', content: 'Hi', timestamp: 0 })).toBeNull();
+    expect(await asha.updateRequestStatus('r1', 'accepted')).toBeNull();
+    expect(server.table('chat_requests')[0].status).toBe('pending');
+  });
+});
+
+describe('Supabase adapter accounts', () => {
+  const ravi = { name: 'Ravi', email: 'ravi@example.com', username: 'ravi', classLevel: '10' as const, password: PASSWORD };
+  let server: ReturnType<typeof createFakeSupabase>;
+
+  beforeEach(() => {
+    server = createFakeSupabase({ confirmEmails: true });
+    server.table('profiles').push({ username: 'ravi', name: 'Ravi', email: 'ravi@example.com', class_level: '9', quiz_history: [], bookmarks: [], user_id: null });
+  });
+
+  it('asks a legacy profile to set a password before signing in', async () => {
+    await expect(createSupabaseAdapter(server.connect()).signIn('ravi', PASSWORD)).rejects.toThrow(AUTH_ERRORS.noPassword('ravi'));
+  });
+
+  it('claims a legacy profile only once its email is confirmed', async () => {
+    const adapter = createSupabaseAdapter(server.connect());
+    await expect(adapter.signUp(ravi)).rejects.toThrow(AUTH_ERRORS.unconfirmed);
+    expect(server.table('profiles')[0].user_id).toBeNull();
+
+    // Following the emailed code confirms the address
+    await adapter.requestPasswordReset('ravi@example.com');
+    expect(await adapter.resetPassword('ravi@example.com', server.resetCode('ravi@example.com'), PASSWORD)).toMatchObject({ username: 'ravi' });
+    expect(server.table('profiles')[0].user_id).not.toBeNull();
+  });
+});
@@ -0,0 +1,178 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createTestDatabase, TestDatabase, AuthUser, Caller } from './postgres';
+
+// --- ROW-LEVEL SECURITY ---
+// What the database itself refuses: supabase/migrations applied to a real Postgres
+// (tests/postgres.ts) and queried as each user, the way PostgREST runs their requests.
+
+const insertMessage = (conversationId: string, id: string, username: string, name = username, timestamp = 0) => [
+  `insert into messages (conversation_id, id, sender_name, sender_username, content, timestamp) values ($1, $2, $3, $4, $2, $5) returning *`,
+  [conversationId, id, name, username, timestamp]
+] as const;
+
+describe('Supabase chat row-level security', () => {
+  let db: TestDatabase;
+  let asha: AuthUser;
+  let ravi: AuthUser;
+  let meera: AuthUser;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  });
+
+  afterAll(() => db.close());
+
+  beforeEach(async () => {
+    await db.reset();
+    asha = await db.signUp('asha', 'Asha');
+    ravi = await db.signUp('ravi', 'Ravi');
+    meera = await db.signUp('meera', 'Meera');
+    await db.admin(`insert into chat_groups (id, name, admin_username, members) values ('g1', 'Study', 'asha', '["asha", "ravi"]')`);
+    await db.admin(`insert into private_chats (id, participants) values ('p1', '["asha", "ravi"]')`);
+    await db.admin(`insert into chat_requests (id, from_username, from_name, to_username, status) values ('r1', 'asha', 'Asha', 'ravi', 'pending')`);
+  });
+
+  it('hides other people\'s conversations, messages and requests', async () => {
+    await db.query(asha, ...insertMessage('g1', 'm1', 'asha', 'Asha'));
+
+    for (const table of ['messages', 'latest_messages', 'private_chats', 'chat_groups', 'chat_requests']) {
+      expect(await db.query(meera, `select * from ${table}`), table).toEqual([]);
+      expect(await db.query(ravi, `select * from ${table}`), table).toHaveLength(1);
+    }
+  });
+
+  it('rejects messages in someone else\'s name or conversation', async () => {
+    await expect(db.query(meera, ...insertMessage('global', 'x1', 'asha', 'Asha'))).rejects.toMatchObject({ code: '42501' });
+    await expect(db.query(meera, ...insertMessage('global', 'x2', 'meera', 'Asha'))).rejects.toMatchObject({ code: '42501' });
+    await expect(db.query(meera, ...insertMessage('g1', 'x3', 'meera', 'Meera'))).rejects.toMatchObject({ code: '42501' });
+    await expect(db.query('anon', ...insertMessage('global', 'x4', 'meera', 'Meera'))).rejects.toThrow();
+
+    expect(await db.query(meera, ...insertMessage('global', 'ok', 'meera', 'Meera'))).toMatchObject([{ id: 'ok' }]);
+    expect(await db.admin('select id from messages')).toEqual([{ id: 'ok' }]);
+  });
+
+  it('stamps messages with the database clock, whatever the client sent', async () => {
+    const before = Date.now();
+    const [early] = await db.query(asha, ...insertMessage('global', 'early', 'asha', 'Asha', 0));
+    const [late] = await db.query(asha, ...insertMessage('global', 'late', 'asha', 'Asha', 9e12));
+    for (const row of [early, late]) {
+      expect(Number(row.timestamp)).toBeGreaterThanOrEqual(before);
+      expect(Number(row.timestamp)).toBeLessThanOrEqual(Date.now());
+    }
+  });
+
+  it('rejects chats, groups and requests made for someone else', async () => {
+    await expect(db.query(meera, `insert into chat_requests (id, from_username, to_username, status) values ('r2', 'asha', 'ravi', 'pending')`)).rejects.toMatchObject({ code: '42501' });
+    await expect(db.query(meera, `insert into chat_requests (id, from_username, to_username, status) values ('r3', 'meera', 'ravi', 'accepted')`)).rejects.toMatchObject({ code: '42501' });
+    await expect(db.query(meera, `insert into chat_groups (id, name, admin_username, members) values ('g2', 'Fake', 'asha', '["asha", "meera"]')`)).rejects.toMatchObject({ code: '42501' });
+    await expect(db.query(meera, `insert into private_chats (id, participants) values ('p2', '["asha", "ravi"]')`)).rejects.toMatchObject({ code: '42501' });
+
+    expect(await db.query(meera, `insert into chat_requests (id, from_username, to_username, status) values ('r4', 'meera', 'ravi', 'pending') returning id`)).toEqual([{ id: 'r4' }]);
+  });
+
+  it('lets only the recipient answer a request, and only its status', async () => {
+    expect(await db.query(asha, `update chat_requests set status = 'accepted' where id = 'r1' returning id`)).toEqual([]);
+    expect(await db.query(meera, `update chat_requests set status = 'accepted' where id = 'r1' returning id`)).toEqual([]);
+    await expect(db.query(ravi, `update chat_requests set from_username = 'meera' where id = 'r1'`)).rejects.toMatchObject({ code: '42501' });
+    await expect(db.query(ravi, `update chat_requests set to_username = 'meera', status = 'accepted' where id = 'r1'`)).rejects.toMatchObject({ code: '42501' });
+
+    expect(await db.query(ravi, `update chat_requests set status = 'accepted' where id = 'r1' returning status`)).toEqual([{ status: 'accepted' }]);
+    expect(await db.admin(`select from_username, to_username, status from chat_requests`)).toEqual([{ from_username: 'asha', to_username: 'ravi', status: 'accepted' }]);
+  });
+
+  it('lets only the admin edit a group', async () => {
+    expect(await db.query(ravi, `update chat_groups set name = 'Mine' where id = 'g1' returning id`)).toEqual([]);
+    expect(await db.query(asha, `update chat_groups set name = 'Exams' where id = 'g1' returning name`)).toEqual([{ name: 'Exams' }]);
+    await expect(db.query(asha, `update chat_groups set admin_username = 'ravi' where id = 'g1'`)).rejects.toMatchObject({ code: '42501' });
+  });
+});
+
+describe('Supabase profile and ask history privacy', () => {
+  let db: TestDatabase;
+  let asha: AuthUser;
+  let meera: AuthUser;
+
+  beforeAll(async () => {
+    db = await createTestDatabase();
+  });
+
+  afterAll(() => db.close());
+
+  beforeEach(async () => {
+    await db.reset();
+    asha = await db.signUp('asha', 'Asha');
+    meera = await db.signUp('meera', 'Meera');
+    // From before passwords: no auth user yet
+    await db.admin(`insert into profiles (username, name, email, class_level) values ('ravi', 'Ravi', 'Ravi@example.com', '9')`);
+  });
+
+  it('shows only your own profile, and other users\' public fields to signed-in users', async () => {
+    expect(await db.query(meera, 'select username, email from profiles')).toEqual([{ username: 'meera', email: 'meera@example.com' }]);
+    const directory = await db.query(meera, 'select * from public_profiles order by username');
+    expect(directory).toEqual([
+      { username: 'asha', name: 'Asha', class_level: '10' },
+      { username: 'meera', name: 'Meera', class_level: '10' },
+      { username: 'ravi', name: 'Ravi', class_level: '9' }
+    ]);
+    await expect(db.query('anon', 'select * from public_profiles')).rejects.toMatchObject({ code: '42501' });
+    expect(await db.query('anon', 'select * from profiles')).toEqual([]);
+  });
+
+  it('creates and edits only your own profile', async () => {
+    const newcomer = await db.createUser('kiran@example.com');
+    const insert = `insert into profiles (username, name, email, class_level, user_id) values ('kiran', 'Kiran', 'kiran@example.com', '10', $1) returning username`;
+    await expect(db.query(newcomer, insert, [asha.id])).rejects.toMatchObject({ code: '42501' });
+    expect(await db.query(newcomer, insert, [newcomer.id])).toEqual([{ username: 'kiran' }]);
+
+    expect(await db.query(meera, `update profiles set name = 'Hacked' where username = 'asha' returning username`)).toEqual([]);
+    await expect(db.query(meera, `update profiles set user_id = $1 where username = 'meera'`, [asha.id])).rejects.toMatchObject({ code: '42501' });
+    expect(await db.query(meera, `update profiles set name = 'Meera S' where username = 'meera' returning name`)).toEqual([{ name: 'Meera S' }]);
+  });
+
+  it('reports sign-up conflicts without handing out the other account', async () => {
+    const conflict = async (username: string, email: string) =>
+      (await db.query('anon', 'select sign_up_conflict($1, $2) as conflict', [username, email]))[0].conflict;
+    expect(await conflict('asha', 'other@example.com')).toBe('username');
+    expect(await conflict('asha', 'asha@example.com')).toBe('username');
+    expect(await conflict('ravi', 'someone@example.com')).toBe('username');
+    expect(await conflict('kiran', 'ASHA@example.com')).toBe('email');
+    expect(await conflict('ravi', 'ravi@example.com')).toBeNull();
+    expect(await conflict('kiran', 'kiran@example.com')).toBeNull();
+  });
+
+  it('looks up the sign-in email without ever taking a password', async () => {
+    const lookup = (identifier: string) => db.query('anon', 'select * from sign_in_lookup($1)', [identifier]);
+    expect(await lookup('asha')).toEqual([{ status: 'ok', username: 'asha', email: 'asha@example.com' }]);
+    expect(await lookup('ASHA@example.com')).toEqual([{ status: 'ok', username: 'asha', email: 'asha@example.com' }]);
+    expect(await lookup('ravi')).toEqual([{ status: 'legacy', username: 'ravi', email: null }]);
+    expect(await lookup('nobody')).toEqual([{ status: 'unknown', username: null, email: null }]);
+    await expect(db.query('anon', `select * from sign_in_lookup('asha', 'guess')`)).rejects.toMatchObject({ code: '42883' });
+  });
+
+  it('lets a legacy profile be claimed only with its email confirmed', async () => {
+    const claim = (caller: AuthUser) =>
+      db.query(caller, `update profiles set user_id = $1 where username = 'ravi' returning username`, [caller.id]);
+
+    const unconfirmed = await db.createUser('ravi@example.com', false);
+    expect(await db.query(unconfirmed, 'select username from profiles')).toEqual([]);
+    expect(await claim(unconfirmed)).toEqual([]);
+    expect(await claim(meera)).toEqual([]);
+
+    await db.admin('update auth.users set email_confirmed_at = now() where id = $1', [unconfirmed.id]);
+    expect(await db.query(unconfirmed, 'select username from profiles')).toEqual([{ username: 'ravi' }]);
+    expect(await claim(unconfirmed)).toEqual([{ username: 'ravi' }]);
+    expect(await db.admin(`select user_id from profiles where username = 'ravi'`)).toEqual([{ user_id: unconfirmed.id }]);
+  });
+
+  it('keeps ask history to its owner', async () => {
+    const save = (caller: Caller, username: string, id: string) => db.query(caller,
+      `insert into ask_history (username, id, question, answer, timestamp, subject, class_level, mode) values ($1, $2, 'Why?', 'Because.', 0, 'Physics', '10', 'Exam Ready') returning id`,
+      [username, id]);
+    expect(await save(asha, 'asha', 'a1')).toEqual([{ id: 'a1' }]);
+
+    expect(await db.query(meera, 'select * from ask_history')).toEqual([]);
+    await expect(save(meera, 'asha', 'a2')).rejects.toMatchObject({ code: '42501' });
+    expect(await db.query(meera, `delete from ask_history where username = 'asha' returning id`)).toEqual([]);
+    expect(await db.query(asha, 'select id from ask_history')).toEqual([{ id: 'a1' }]);
+  });
+});
@@ -16,21 +16,97 @@ export type Subject =
 
 export type AnswerMode = 'Very Simple' | 'Exam Ready' | 'One-Line Answer';
 
+// Hinglish = Hindi written in Roman script, mixed with English terms
+export type OutputLanguage = 'English' | 'Hindi' | 'Hinglish';
+
 export type ProjectType = 'ASL' | 'Practical File' | 'School Project / Assignment';
 
 export interface StudySession {
   question: string;
   answer: string;
+  image?: string; // Compressed JPEG data URL of an attached photo
+  cached?: boolean; // Served from the local response cache instead of the AI
+  mode?: AnswerMode; // How it was asked, so Regenerate rebuilds (and re-caches) the same kind of answer
+  language?: OutputLanguage;
   timestamp: number;
 }
 
-export interface QuizQuestion {
+// Result of checking a student's own answer against the CBSE marking scheme
+export interface AnswerEvaluation {
+  studentAnswer: string;
+  marks: number; // Weight of the question (1, 2, 3, 5...)
+  score: number; // 0..marks, in half-mark steps
+  feedback: string;
+  missingPoints: string[];
+  modelAnswer: string; // Written in the chosen AnswerMode
+}
+
+// A StudySession persisted to the user's ask history
+export interface AskRecord extends StudySession {
+  id: string;
+  subject: Subject;
+  classLevel: ClassLevel;
+  mode: AnswerMode;
+  evaluation?: AnswerEvaluation; // Set for "Check my answer" entries; `answer` then holds the model answer
+}
+
+export interface StudyThread {
+  id: string;
+  subject: Subject;
+  title: string;
+  turns: StudySession[]; // Oldest first, sent to the model as chat history
+  updatedAt: number;
+}
+
+export type QuizDifficulty = 'easy' | 'medium' | 'board';
+
+export type QuizFormat = 'mcq' | 'assertion-reason' | 'case-based' | 'true-false' | 'fill-blank';
+
+export interface QuizConfig {
+  count: number;
+  difficulty: QuizDifficulty;
+  formats: QuizFormat[]; // Mixed across the quiz, at least one
+}
+
+interface QuizQuestionBase {
   question: string;
+  explanation: string;
+}
+
+export interface MCQQuestion extends QuizQuestionBase {
+  format: 'mcq';
   options: string[];
+  correctAnswer: string; // Always one of options
+}
+
+export interface AssertionReasonQuestion extends QuizQuestionBase {
+  format: 'assertion-reason';
+  assertion: string;
+  reason: string;
+  options: string[]; // The four standard CBSE A/R choices
   correctAnswer: string;
-  explanation: string;
 }
 
+export interface CaseBasedQuestion extends QuizQuestionBase {
+  format: 'case-based';
+  passage: string; // Source/case text the question is about
+  options: string[];
+  correctAnswer: string;
+}
+
+export interface TrueFalseQuestion extends QuizQuestionBase {
+  format: 'true-false';
+  correctAnswer: boolean;
+}
+
+export interface FillBlankQuestion extends QuizQuestionBase {
+  format: 'fill-blank';
+  correctAnswer: string;
+  acceptedAnswers?: string[]; // Alternate spellings / synonyms also marked right
+}
+
+export type QuizQuestion = MCQQuestion | AssertionReasonQuestion | CaseBasedQuestion | TrueFalseQuestion | FillBlankQuestion;
+
 export interface QuizResult {
   id: string;
   timestamp: number;
@@ -39,6 +115,69 @@ export interface QuizResult {
   total: number;
 }
 
+// --- Project Types ---
+
+export type ProjectSectionKind = 'cover' | 'index' | 'acknowledgement' | 'certificate' | 'chapter' | 'conclusion' | 'bibliography';
+
+export interface ProjectSection {
+  id: string;
+  kind: ProjectSectionKind;
+  title: string;
+  content: string; // Index content is rebuilt from the other titles, never edited
+  image?: string; // Cover illustration or section diagram (data URL)
+}
+
+export interface ProjectDocument {
+  subject: Subject;
+  type: ProjectType;
+  topic: string;
+  classLevel: ClassLevel;
+  session: string;
+  language?: OutputLanguage; // Section rewrites stay in the project's language
+  sections: ProjectSection[]; // Cover, Index, Acknowledgement, Certificate, chapters..., Conclusion, Bibliography
+}
+
+// --- Sample Paper Types ---
+
+export interface PaperSectionBlueprint {
+  id: string; // 'A', 'B', ...
+  title: string;
+  questionCount: number;
+  marksPerQuestion: number;
+  internalChoices: number; // Questions in this section that must offer an "OR"
+  objective?: boolean; // Questions carry 4 options
+}
+
+export interface PaperQuestionBody {
+  text: string;
+  options?: string[];
+  answer: string; // Answer key entry
+}
+
+export interface PaperQuestion extends PaperQuestionBody {
+  number: number; // Continuous across the paper
+  marks: number;
+  alternative?: PaperQuestionBody; // Internal choice, printed after "OR"
+}
+
+export interface PaperSection {
+  id: string;
+  title: string;
+  marksPerQuestion: number;
+  questions: PaperQuestion[];
+}
+
+export interface SamplePaper {
+  subject: Subject;
+  classLevel: ClassLevel;
+  session: string;
+  duration: string;
+  totalMarks: number;
+  language?: OutputLanguage;
+  generalInstructions: string[];
+  sections: PaperSection[];
+}
+
 export type BookmarkType = 'qa' | 'paper' | 'project';
 
 export interface Bookmark {
@@ -46,7 +185,8 @@ export interface Bookmark {
   type: BookmarkType;
   title: string; // Question or Subject/Topic
   content: string; // The answer, paper body, or project body
-  image?: string; // For projects with nano banana images
+  image?: string; // Attached question photo, or projects with nano banana images
+  subject?: Subject; // Missing on bookmarks saved before translation existed
   timestamp: number;
 }
 
@@ -59,6 +199,7 @@ export interface UserSettings {
   isAuthenticated: boolean;
   quizHistory: QuizResult[];
   bookmarks: Bookmark[]; // New: Saved content
+  language?: OutputLanguage; // Preferred answer language; Hindi/Sanskrit subjects default to Devanagari
 }
 
 export interface DirectoryUser {
@@ -87,15 +228,18 @@ export interface ChatGroup {
   name: string;
   members: string[]; // usernames
   adminUsername: string;
-  messages: ChatMessage[];
+  lastMessage?: ChatMessage; // For the chat list; load the thread with db.getMessages
 }
 
 export interface PrivateChat {
   id: string;
   participants: string[]; // [username1, username2]
-  messages: ChatMessage[];
+  lastMessage?: ChatMessage;
 }
 
+// Position in a conversation for paging back: the oldest message already loaded
+export type MessageCursor = Pick<ChatMessage, 'timestamp' | 'id'>;
+
 export interface ChatRequest {
   id: string;
   fromUsername: string;
@@ -105,6 +249,17 @@ export interface ChatRequest {
   timestamp: number;
 }
 
+// --- AI Usage Types ---
+
+export type AIFeature = 'answer' | 'quiz' | 'project' | 'projectSection' | 'image' | 'paper' | 'evaluate' | 'translate';
+
+// One AI call charged (or held while it runs); `cost` comes from AI_USAGE_COSTS at the time of the call
+export interface AIUsageEvent {
+  feature: AIFeature;
+  cost: number;
+  timestamp: number;
+}
+
 // --- Productivity Types ---
 
 export interface ToDoItem {
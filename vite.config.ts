@@ -8,12 +8,14 @@ export default defineConfig(({ mode }) => {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        // Gemini keys stay in the AI proxy (npm run server); the browser only ever calls /api
+        proxy: {
+          // No admin header here: the dev server is reachable from the LAN, so the
+          // operator types AI_ADMIN_TOKEN into Settings instead (see proxyProvider.ts)
+          '/api': { target: `http://localhost:${env.PORT || 8787}` }
+        }
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
-      },
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),